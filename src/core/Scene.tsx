@@ -1,74 +1,287 @@
-import { useRef, useMemo } from 'react';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { OrbitControls, Grid, Environment, Line } from '@react-three/drei';
+import { useRef, useMemo, useState } from 'react';
+import { Canvas, useFrame, type ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, Grid, Environment, Line, Html } from '@react-three/drei';
 import * as THREE from 'three';
 import type { PatternConfig, ShapeType, FoldPattern } from '@/types';
-import { generatePattern, patternToMesh } from './geometry';
+import { coneCaps, coneSection, frustumTop, generateAssembly, patternToMesh, prismSection } from './geometry';
+import { POLYHEDRA, buildPolyhedron, faceFrame, polyhedronFromMesh } from './polyhedra';
+import type { Polyhedron } from './polyhedra';
+import { foldPattern, createFoldedGeometry, foldLineSegments } from './folding';
+import { curvePoints } from './curve';
 
 interface FoldMeshProps {
   config: PatternConfig;
   viewMode: 'pattern' | '3d';
+  foldProgress: number;
+  showFoldLines: boolean;
 }
 
+/** Space between the parts of a multi-part product, in cm */
+const PART_GAP = 1;
+
 /**
- * Renders the 2D unfolding pattern (전개도) or 3D preview
+ * Where each part sits along X, as the shift from its own flat centre:
+ * parts stand side by side in a row centred on the origin. A single part
+ * stays where it was generated.
  */
-function FoldMesh({ config, viewMode }: FoldMeshProps) {
-  const meshRef = useRef<THREE.Mesh>(null);
+function partShifts(patterns: FoldPattern[]): { flat: number; folded: number }[] {
+  if (patterns.length === 1) return [{ flat: 0, folded: 0 }];
+
+  const spans = patterns.map(pattern => {
+    const xs = pattern.vertices.map(v => v.position.x);
+    return { min: Math.min(...xs), max: Math.max(...xs) };
+  });
+  const total = spans.reduce((sum, span) => sum + span.max - span.min, 0) + PART_GAP * (spans.length - 1);
+
+  let left = -total / 2;
+  return spans.map(span => {
+    const centre = left + (span.max - span.min) / 2;
+    left += span.max - span.min + PART_GAP;
+    // The folded net is already centred on its own bounds
+    return { flat: centre - (span.min + span.max) / 2, folded: centre };
+  });
+}
+
+/**
+ * Renders the 2D unfolding pattern (전개도) or the folded 3D net. Products
+ * made of several nets show them side by side when flat and in their
+ * assembled places when folded.
+ */
+function FoldMesh({ config, viewMode, foldProgress, showFoldLines }: FoldMeshProps) {
   const groupRef = useRef<THREE.Group>(null);
 
   useFrame((_, delta) => {
     // Only rotate in 3D view mode
-    if (viewMode === '3d' && meshRef.current) {
-      meshRef.current.rotation.y += delta * 0.1;
+    if (viewMode === '3d' && groupRef.current) {
+      groupRef.current.rotation.y += delta * 0.1;
     }
   });
 
-  const { shapeType, width, height, depth } = config;
+  const { shapeType } = config;
 
-  // Generate pattern for 2D view
-  const pattern = useMemo(() => {
-    return generatePattern(config);
+  // Generate the nets for both views
+  const assembly = useMemo(() => {
+    return generateAssembly(config);
   }, [config]);
+  const shifts = useMemo(() => partShifts(assembly.parts.map(part => part.pattern)), [assembly]);
+
+  if (viewMode === '3d') {
+    // Parts travel from their row on the sheet to their assembled places as they fold
+    return (
+      <group ref={groupRef}>
+        {assembly.parts.map((part, i) => (
+          <group
+            key={part.id}
+            position={new THREE.Vector3(shifts[i].folded, 0, 0).lerp(part.position, foldProgress)}
+            rotation={new THREE.Euler(part.rotation.x * foldProgress, part.rotation.y * foldProgress, part.rotation.z * foldProgress)}
+          >
+            <FoldedNet pattern={part.pattern} shapeType={shapeType} progress={foldProgress} showFoldLines={showFoldLines} />
+            {i === 0 && <TargetShape config={config} />}
+          </group>
+        ))}
+      </group>
+    );
+  }
+
+  // 2D Pattern View - show the flat unfolded pattern
+  return (
+    <group ref={groupRef}>
+      {assembly.parts.map((part, i) => (
+        <group key={part.id} position={[shifts[i].flat, 0, 0]}>
+          <PatternMesh pattern={part.pattern} shapeType={shapeType} />
+          {showFoldLines && <FoldLines pattern={part.pattern} />}
+        </group>
+      ))}
+    </group>
+  );
+}
+
+interface FoldedNetProps {
+  pattern: FoldPattern;
+  shapeType: ShapeType;
+  progress: number;
+  showFoldLines: boolean;
+}
+
+/**
+ * Render the generated net folded about its hinges, tabs included.
+ * Hovering a panel labels it with its face id and role.
+ */
+function FoldedNet({ pattern, shapeType, progress, showFoldLines }: FoldedNetProps) {
+  const folded = useMemo(() => foldPattern(pattern, progress), [pattern, progress]);
+  const geometry = useMemo(() => createFoldedGeometry(folded), [folded]);
+  const segments = useMemo(() => foldLineSegments(folded), [folded]);
+  const [hovered, setHovered] = useState<{ face: number; point: THREE.Vector3 } | null>(null);
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    const triangleFaces: number[] = geometry.userData.triangleFaces ?? [];
+    const face = event.faceIndex !== undefined ? triangleFaces[event.faceIndex] : undefined;
+    if (face === undefined) return;
+    setHovered({ face, point: event.object.worldToLocal(event.point.clone()) });
+  };
+
+  const hoveredFace = hovered ? pattern.faces[hovered.face] : undefined;
+
+  return (
+    <group>
+      <mesh
+        geometry={geometry}
+        onPointerMove={handlePointerMove}
+        onPointerOut={() => setHovered(null)}
+      >
+        <meshStandardMaterial
+          color={getShapeColor(shapeType)}
+          transparent
+          opacity={0.85}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+
+      {hovered && hoveredFace && (
+        <Html position={hovered.point} style={{ pointerEvents: 'none' }}>
+          <div style={{
+            background: 'rgba(0, 0, 0, 0.7)',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            color: 'white',
+            fontSize: '12px',
+            whiteSpace: 'nowrap',
+          }}>
+            {hoveredFace.id} <span style={{ color: '#9CA3AF' }}>({hoveredFace.role})</span>
+          </div>
+        </Html>
+      )}
+
+      {showFoldLines && (
+        <>
+          {segments.mountain.map(([start, end], i) => (
+            <Line key={`mountain-${i}`} points={[start, end]} color="#3B82F6" lineWidth={2} />
+          ))}
+          {segments.valley.map(([start, end], i) => (
+            <Line key={`valley-${i}`} points={[start, end]} color="#22C55E" lineWidth={2} />
+          ))}
+        </>
+      )}
+    </group>
+  );
+}
+
+/**
+ * Closed frustum between a bottom and a top rectangle, standing on Y=-height/2
+ */
+function createFrustumGeometry(
+  bottom: { width: number; depth: number },
+  top: { width: number; depth: number },
+  height: number
+): THREE.BufferGeometry {
+  // A unit square cylinder, its rings then stretched to each rectangle
+  const geometry = new THREE.CylinderGeometry(Math.SQRT1_2, Math.SQRT1_2, 1, 4, 1, false, Math.PI / 4);
+  const position = geometry.attributes.position;
+  for (let i = 0; i < position.count; i++) {
+    const size = position.getY(i) > 0 ? top : bottom;
+    position.setXYZ(i, position.getX(i) * size.width, position.getY(i) * height, position.getZ(i) * size.depth);
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Open cone lying on one slant line as the folded net does, its bottom
+ * toward +Z, centred on its bounds and resting on Y=0
+ */
+function createLyingConeGeometry(bottom: number, top: number, height: number): THREE.BufferGeometry {
+  const geometry = new THREE.CylinderGeometry(top, bottom, height, 48, 1, true);
+  geometry.rotateX(-(Math.PI / 2 + Math.atan2(bottom - top, height)));
+  geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  geometry.translate(-(min.x + max.x) / 2, -min.y, -(min.z + max.z) / 2);
+  return geometry;
+}
+
+/**
+ * Solid placed as its folded net stands: on its root face, turned over with
+ * the net, centred on its bounds and resting on Y=0
+ */
+function createPolyhedronGeometry(solid: Polyhedron): THREE.BufferGeometry {
+  const positions = solid.faces.flatMap(face =>
+    face.slice(1, -1).flatMap((_, k) => [face[0], face[k + 1], face[k + 2]])
+      .flatMap(i => solid.vertices[i].toArray())
+  );
 
-  // 3D preview geometry
-  const geometry3D = useMemo(() => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.applyMatrix4(faceFrame(solid, solid.faces[0]));
+  geometry.rotateX(Math.PI);
+  geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  geometry.translate(-(min.x + max.x) / 2, -min.y, -(min.z + max.z) / 2);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Faint wireframe of the intended product, for comparison with the folded net
+ */
+function TargetShape({ config }: { config: PatternConfig }) {
+  const { shapeType, width, height, depth } = config;
+  const prism = prismSection(config);
+  const top = frustumTop(config);
+  const cone = coneSection(config);
+  const caps = coneCaps(config).bottom;
+  const solid = config.solid ?? POLYHEDRA.defaultSolid;
+  const mesh = config.mesh;
+
+  const geometry = useMemo(() => {
     switch (shapeType) {
       case 'pyramid':
-        return <coneGeometry args={[width / 2, height, 4]} />;
+        return <coneGeometry args={[Math.min(width, depth) / Math.SQRT2, height, 4, 1, false, Math.PI / 4]} />;
       case 'cylinder':
         return <cylinderGeometry args={[width / 2, width / 2, height, 32]} />;
       case 'prism':
-        return <cylinderGeometry args={[width / 2, width / 2, height, 6]} />;
+        // Corners where the folded base has them: one side faces -Z
+        return <cylinderGeometry args={[prism.radius, prism.radius, height, prism.sides, 1, false, Math.PI - Math.PI / prism.sides]} />;
       case 'envelope':
         return <boxGeometry args={[width, height * 0.1, depth]} />;
+      case 'pillow':
+        // Lies on its back: length along Z, bowed open to its depth
+        return <boxGeometry args={[width, Math.min(depth, width * 0.45), height]} />;
+      case 'frustum':
+        return <primitive object={createFrustumGeometry({ width, depth }, top, height)} attach="geometry" />;
+      case 'cone':
+        // Stands on its bottom cap; without caps it rolls onto its side
+        return caps
+          ? <cylinderGeometry args={[cone.top, cone.bottom, height, 48]} />
+          : <primitive object={createLyingConeGeometry(cone.bottom, cone.top, height)} attach="geometry" />;
+      case 'polyhedron':
+        return <primitive object={createPolyhedronGeometry(buildPolyhedron(solid, width / 2))} attach="geometry" />;
+      case 'mesh':
+        // The default solid stands in until a mesh is loaded
+        return <primitive object={createPolyhedronGeometry(mesh ? polyhedronFromMesh(mesh, width) : buildPolyhedron(solid, width / 2))} attach="geometry" />;
       case 'box':
       default:
         return <boxGeometry args={[width, height, depth]} />;
     }
-  }, [shapeType, width, height, depth]);
+  }, [shapeType, width, height, depth, prism.sides, prism.radius, top.width, top.depth, cone.bottom, cone.top, caps, solid, mesh]);
 
-  if (viewMode === '3d') {
-    const yOffset = shapeType === 'envelope' ? height * 0.05 : height / 2;
+  const yOffset = shapeType === 'envelope'
+    ? height * 0.05
+    : shapeType === 'pillow' ? Math.min(depth, width * 0.45) / 2
+    : (shapeType === 'cone' && !caps) || shapeType === 'polyhedron' || shapeType === 'mesh' ? 0 : height / 2;
 
-    return (
-      <mesh ref={meshRef} position={[0, yOffset, 0]}>
-        {geometry3D}
-        <meshStandardMaterial
-          color={getShapeColor(shapeType)}
-          transparent
-          opacity={0.85}
-          side={THREE.DoubleSide}
-        />
-      </mesh>
-    );
-  }
+  // The folded model is centred on its bounds, which for odd prisms lie off the axis
+  const zOffset = shapeType === 'prism' && prism.sides % 2 === 1
+    ? -(prism.radius * (1 - Math.cos(Math.PI / prism.sides))) / 2
+    : 0;
+
+  // A bottomless sleeve folds lying on a wall, with no upright pose to compare
+  if (shapeType === 'frustum' && config.openBottom) return null;
 
-  // 2D Pattern View - show the flat unfolded pattern
   return (
-    <group ref={groupRef}>
-      <PatternMesh pattern={pattern} shapeType={shapeType} />
-    </group>
+    <mesh position={[0, yOffset, zOffset]}>
+      {geometry}
+      <meshBasicMaterial color="#ffffff" wireframe transparent opacity={0.12} />
+    </mesh>
   );
 }
 
@@ -99,32 +312,28 @@ function getShapeColor(shapeType: ShapeType): string {
     cylinder: '#F59E0B',
     prism: '#EC4899',
     envelope: '#8B5CF6',
+    'reverse-tuck-end': '#0EA5E9',
+    'straight-tuck-end': '#14B8A6',
+    'crash-lock': '#F97316',
+    pillow: '#E11D48',
+    gable: '#84CC16',
+    frustum: '#06B6D4',
+    cone: '#D946EF',
+    polyhedron: '#B45309',
+    mesh: '#64748B',
+    matchbox: '#A16207',
+    telescope: '#0F766E',
   };
   return colors[shapeType];
 }
 
-interface FoldLinesProps {
-  config: PatternConfig;
-  viewMode: 'pattern' | '3d';
-}
-
 /**
- * Renders fold lines with proper styling:
+ * Renders fold lines on the flat pattern with proper styling:
  * - Cut lines: Red, solid
  * - Mountain folds: Blue, dashed
  * - Valley folds: Green, dashed
  */
-function FoldLines({ config, viewMode }: FoldLinesProps) {
-  const pattern = useMemo(() => {
-    return generatePattern(config);
-  }, [config]);
-
-  // For 3D view, show simplified fold lines on the shape
-  if (viewMode === '3d') {
-    return <FoldLines3D config={config} />;
-  }
-
-  // For 2D pattern view, show all lines from the pattern
+function FoldLines({ pattern }: { pattern: FoldPattern }) {
   const { foldLines } = pattern;
 
   const cutLines = foldLines.filter(l => l.type === 'cut');
@@ -137,10 +346,7 @@ function FoldLines({ config, viewMode }: FoldLinesProps) {
       {cutLines.map((line, i) => (
         <Line
           key={`cut-${i}`}
-          points={[
-            [line.start.x, line.start.y + 0.01, line.start.z],
-            [line.end.x, line.end.y + 0.01, line.end.z],
-          ]}
+          points={curvePoints(line).map(p => [p.x, p.y + 0.01, p.z] as [number, number, number])}
           color="#EF4444"
           lineWidth={3}
         />
@@ -150,10 +356,7 @@ function FoldLines({ config, viewMode }: FoldLinesProps) {
       {mountainLines.map((line, i) => (
         <Line
           key={`mountain-${i}`}
-          points={[
-            [line.start.x, line.start.y + 0.01, line.start.z],
-            [line.end.x, line.end.y + 0.01, line.end.z],
-          ]}
+          points={curvePoints(line).map(p => [p.x, p.y + 0.01, p.z] as [number, number, number])}
           color="#3B82F6"
           lineWidth={2}
           dashed
@@ -166,10 +369,7 @@ function FoldLines({ config, viewMode }: FoldLinesProps) {
       {valleyLines.map((line, i) => (
         <Line
           key={`valley-${i}`}
-          points={[
-            [line.start.x, line.start.y + 0.01, line.start.z],
-            [line.end.x, line.end.y + 0.01, line.end.z],
-          ]}
+          points={curvePoints(line).map(p => [p.x, p.y + 0.01, p.z] as [number, number, number])}
           color="#22C55E"
           lineWidth={2}
           dashed
@@ -181,89 +381,17 @@ function FoldLines({ config, viewMode }: FoldLinesProps) {
   );
 }
 
-type Point3D = [number, number, number];
-type LinePair = [Point3D, Point3D];
-
-/**
- * Simplified fold lines for 3D preview
- */
-function FoldLines3D({ config }: { config: PatternConfig }) {
-  const { shapeType, width, height, depth } = config;
-
-  const lines = useMemo((): { mountain: LinePair[]; valley: LinePair[] } => {
-    if (shapeType === 'envelope') {
-      return {
-        mountain: [
-          [[-width/2, 0.1, 0], [width/2, 0.1, 0]],
-        ],
-        valley: [
-          [[0, 0.1, -depth/2], [0, 0.1, depth/2]],
-        ],
-      };
-    }
-
-    if (shapeType === 'pyramid') {
-      const apex: Point3D = [0, height, 0];
-      const base = width / 2;
-      return {
-        mountain: [
-          [[-base, 0, -base], apex],
-          [[base, 0, -base], apex],
-          [[base, 0, base], apex],
-          [[-base, 0, base], apex],
-        ],
-        valley: [
-          [[-base, 0, -base], [base, 0, -base]],
-          [[base, 0, -base], [base, 0, base]],
-        ],
-      };
-    }
-
-    // Default box fold lines
-    return {
-      mountain: [
-        [[-width/2, height, -depth/2], [width/2, height, -depth/2]],
-        [[-width/2, height, depth/2], [width/2, height, depth/2]],
-      ],
-      valley: [
-        [[-width/2, 0, -depth/2], [width/2, 0, -depth/2]],
-        [[-width/2, 0, depth/2], [width/2, 0, depth/2]],
-      ],
-    };
-  }, [shapeType, width, height, depth]);
-
-  return (
-    <group>
-      {lines.mountain.map((line, i) => (
-        <Line
-          key={`mountain-${i}`}
-          points={line}
-          color="#3B82F6"
-          lineWidth={2}
-        />
-      ))}
-      {lines.valley.map((line, i) => (
-        <Line
-          key={`valley-${i}`}
-          points={line}
-          color="#22C55E"
-          lineWidth={2}
-        />
-      ))}
-    </group>
-  );
-}
-
 interface SingleSceneProps {
   config: PatternConfig;
   showFoldLines?: boolean;
   viewMode: 'pattern' | '3d';
+  foldProgress?: number;
 }
 
 /**
  * Single view scene component
  */
-function SingleScene({ config, showFoldLines = true, viewMode }: SingleSceneProps) {
+function SingleScene({ config, showFoldLines = true, viewMode, foldProgress = 1 }: SingleSceneProps) {
   // Adjust camera position based on view mode
   const cameraPosition: [number, number, number] = viewMode === 'pattern'
     ? [0, 10, 0]  // Top-down for pattern view
@@ -285,8 +413,12 @@ function SingleScene({ config, showFoldLines = true, viewMode }: SingleSceneProp
       <ambientLight intensity={0.5} />
       <directionalLight position={[10, 10, 5]} intensity={1} />
 
-      <FoldMesh config={config} viewMode={viewMode} />
-      {showFoldLines && <FoldLines config={config} viewMode={viewMode} />}
+      <FoldMesh
+        config={config}
+        viewMode={viewMode}
+        foldProgress={foldProgress}
+        showFoldLines={showFoldLines}
+      />
 
       <Grid
         args={[20, 20]}
@@ -320,25 +452,40 @@ interface SceneProps {
   config: PatternConfig;
   showFoldLines?: boolean;
   viewMode?: 'pattern' | '3d';
+  foldProgress?: number;
 }
 
 /**
  * Legacy single scene component for backwards compatibility
  */
-export function Scene({ config, showFoldLines = true, viewMode = 'pattern' }: SceneProps) {
-  return <SingleScene config={config} showFoldLines={showFoldLines} viewMode={viewMode} />;
+export function Scene({ config, showFoldLines = true, viewMode = 'pattern', foldProgress = 1 }: SceneProps) {
+  return (
+    <SingleScene
+      config={config}
+      showFoldLines={showFoldLines}
+      viewMode={viewMode}
+      foldProgress={foldProgress}
+    />
+  );
 }
 
 interface DualSceneProps {
   config: PatternConfig;
   showFoldLines?: boolean;
+  foldProgress?: number;                        // 0 = flat, 1 = assembled
+  onFoldProgressChange?: (progress: number) => void;
 }
 
 /**
  * Dual view scene - shows 2D pattern (전개도) and 3D preview side by side
  * Users can see the flat cutting template and the final folded result simultaneously
  */
-export function DualScene({ config, showFoldLines = true }: DualSceneProps) {
+export function DualScene({
+  config,
+  showFoldLines = true,
+  foldProgress = 1,
+  onFoldProgressChange,
+}: DualSceneProps) {
   return (
     <div style={{ display: 'flex', width: '100%', height: '100%', gap: '2px' }}>
       {/* 2D Pattern View (Left) */}
@@ -383,12 +530,58 @@ export function DualScene({ config, showFoldLines = true }: DualSceneProps) {
         }}>
           3D Preview
         </div>
-        <SingleScene config={config} showFoldLines={showFoldLines} viewMode="3d" />
+        <SingleScene
+          config={config}
+          showFoldLines={showFoldLines}
+          viewMode="3d"
+          foldProgress={foldProgress}
+        />
+        {onFoldProgressChange && (
+          <FoldProgressSlider value={foldProgress} onChange={onFoldProgressChange} />
+        )}
       </div>
     </div>
   );
 }
 
+/**
+ * Slider that animates the 3D preview from flat sheet (0%) to assembled (100%)
+ */
+function FoldProgressSlider({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  const percent = Math.round(value * 100);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '16px',
+      left: '16px',
+      right: '16px',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      background: 'rgba(0, 0, 0, 0.7)',
+      padding: '8px 16px',
+      borderRadius: '8px',
+      color: 'white',
+      fontSize: '12px',
+      zIndex: 10,
+    }}>
+      <label htmlFor="foldProgress" style={{ fontWeight: 'bold' }}>Fold</label>
+      <input
+        id="foldProgress"
+        type="range"
+        min="0"
+        max="100"
+        step="1"
+        value={percent}
+        onChange={(e) => onChange(parseInt(e.target.value, 10) / 100)}
+        style={{ flex: 1 }}
+      />
+      <span style={{ minWidth: '36px', textAlign: 'right' }}>{percent}%</span>
+    </div>
+  );
+}
+
 /**
  * Legend component for fold line colors
  */
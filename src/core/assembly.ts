@@ -0,0 +1,177 @@
+/**
+ * Assemblies
+ *
+ * Products made of several separate nets: each part keeps its own pattern
+ * and a placement in the assembled product. For cutting, parts can go out
+ * as separate files or be nested together onto one sheet as a single
+ * pattern, laid in rows like books on shelves.
+ */
+
+import * as THREE from 'three';
+import type { Assembly, AssemblyPart, FoldLine, FoldPattern, SheetSize } from '@/types';
+import { linePathPoints } from './curve';
+import { SHEET, getPrintableArea, minimalBoundingBox } from './sheet';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const ASSEMBLY = {
+  nestGap: 5,    // mm kept between nested parts
+} as const;
+
+// =============================================================================
+// PARTS
+// =============================================================================
+
+/**
+ * A part placed in the assembled product; at the origin unless moved
+ */
+export function createPart(
+  id: string,
+  pattern: FoldPattern,
+  position: THREE.Vector3 = new THREE.Vector3(),
+  rotation: THREE.Euler = new THREE.Euler()
+): AssemblyPart {
+  return { id, pattern, position, rotation };
+}
+
+/**
+ * An assembly of one net, for the shapes that fold from a single sheet
+ */
+export function singlePartAssembly(pattern: FoldPattern): Assembly {
+  return { name: pattern.name, parts: [createPart('main', pattern)] };
+}
+
+// =============================================================================
+// MERGING
+// =============================================================================
+
+function transformLine(line: FoldLine, matrix: THREE.Matrix4, prefix: string): FoldLine {
+  const move = (p: THREE.Vector3) => p.clone().applyMatrix4(matrix);
+  // Turning about +Y keeps an arc's sweep direction
+  const curve = line.curve?.kind === 'arc'
+    ? { ...line.curve, center: move(line.curve.center) }
+    : line.curve?.kind === 'bezier'
+      ? { ...line.curve, control1: move(line.curve.control1), control2: move(line.curve.control2) }
+      : undefined;
+
+  return {
+    ...line,
+    id: `${prefix}-${line.id}`,
+    start: move(line.start),
+    end: move(line.end),
+    ...(curve && { curve }),
+  };
+}
+
+/**
+ * Join several nets into one pattern, each moved on the sheet by its own
+ * matrix (a turn about +Y and a shift). Ids are prefixed with the part id so
+ * they stay unique.
+ */
+export function mergePatterns(name: string, pieces: { id: string; pattern: FoldPattern; matrix: THREE.Matrix4 }[]): FoldPattern {
+  const merged: FoldPattern = { name, vertices: [], foldLines: [], faces: [] };
+  const bendLines: FoldLine[] = [];
+
+  pieces.forEach(({ id, pattern, matrix }) => {
+    const base = merged.vertices.length;
+    pattern.vertices.forEach(v => {
+      merged.vertices.push({ id: `${id}-${v.id}`, position: v.position.clone().applyMatrix4(matrix) });
+    });
+    pattern.faces.forEach(face => {
+      merged.faces.push({ ...face, id: `${id}-${face.id}`, vertices: face.vertices.map(vi => vi + base) });
+    });
+    pattern.foldLines.forEach(line => merged.foldLines.push(transformLine(line, matrix, id)));
+    pattern.bendLines?.forEach(line => bendLines.push(transformLine(line, matrix, id)));
+  });
+
+  return bendLines.length > 0 ? { ...merged, bendLines } : merged;
+}
+
+// =============================================================================
+// NESTING
+// =============================================================================
+
+interface NestItem {
+  id: string;
+  pattern: FoldPattern;
+  turn: THREE.Matrix4;              // Rotation about +Y, laying the part long side across
+  min: { x: number; z: number };    // cm, bounds corner after the turn
+  width: number;                    // mm
+  height: number;                   // mm
+}
+
+/**
+ * Turn each part to its smallest box, lying wider than tall
+ */
+function nestItem(part: AssemblyPart): NestItem {
+  const box = minimalBoundingBox(part.pattern);
+  const angle = box.height > box.width ? box.angle + Math.PI / 2 : box.angle;
+  // projectToSheet turns by +angle from X toward Z, which is -angle about +Y
+  const turn = new THREE.Matrix4().makeRotationY(-angle);
+
+  const points = [...part.pattern.vertices.map(v => v.position), ...linePathPoints(part.pattern.foldLines)]
+    .map(p => p.clone().applyMatrix4(turn));
+  const bounds = new THREE.Box3().setFromPoints(points);
+
+  return {
+    id: part.id,
+    pattern: part.pattern,
+    turn,
+    min: { x: bounds.min.x, z: bounds.min.z },
+    width: (bounds.max.x - bounds.min.x) * SHEET.mmPerUnit,
+    height: (bounds.max.z - bounds.min.z) * SHEET.mmPerUnit,
+  };
+}
+
+/**
+ * Fill rows across a given width, tallest parts first. Returns each item's
+ * top-left corner (mm) and the extent used.
+ */
+function shelfPack(items: NestItem[], width: number) {
+  const corners = new Map<string, { x: number; y: number }>();
+  let x = 0;
+  let y = 0;
+  let rowHeight = 0;
+  let usedWidth = 0;
+
+  [...items].sort((a, b) => b.height - a.height).forEach(item => {
+    if (x > 0 && x + item.width > width) {
+      y += rowHeight + ASSEMBLY.nestGap;
+      x = 0;
+      rowHeight = 0;
+    }
+    corners.set(item.id, { x, y });
+    x += item.width + ASSEMBLY.nestGap;
+    rowHeight = Math.max(rowHeight, item.height);
+    usedWidth = Math.max(usedWidth, x - ASSEMBLY.nestGap);
+  });
+
+  return { corners, width: usedWidth, height: y + rowHeight };
+}
+
+/**
+ * Lay every part of an assembly onto one sheet as a single pattern, in
+ * portrait or landscape rows, whichever overflows the least
+ */
+export function nestAssembly(assembly: Assembly, sheet: SheetSize): FoldPattern {
+  const items = assembly.parts.map(nestItem);
+
+  const layouts = [false, true].map(landscape => {
+    const area = getPrintableArea(sheet, landscape);
+    const layout = shelfPack(items, area.width);
+    return { ...layout, overflow: Math.max(layout.width - area.width, layout.height - area.height) };
+  });
+  const { corners } = layouts[0].overflow <= layouts[1].overflow ? layouts[0] : layouts[1];
+
+  return mergePatterns(assembly.name, items.map(item => {
+    const corner = corners.get(item.id)!;
+    const shift = new THREE.Matrix4().makeTranslation(
+      corner.x / SHEET.mmPerUnit - item.min.x,
+      0,
+      corner.y / SHEET.mmPerUnit - item.min.z
+    );
+    return { id: item.id, pattern: item.pattern, matrix: shift.multiply(item.turn) };
+  }));
+}
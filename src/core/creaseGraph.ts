@@ -0,0 +1,238 @@
+/**
+ * Crease Graph
+ *
+ * Derived topology of a FoldPattern: which faces exist, which fold line is
+ * the hinge between which two faces, the angle each hinge closes to, and which
+ * faces are free flaps. Folding, validation and export query this instead of
+ * rediscovering adjacency from raw coordinates.
+ */
+
+import * as THREE from 'three';
+import type { FoldPattern, FoldLine, FaceRole } from '@/types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CREASE_GRAPH = {
+  tolerance: 0.001,                // Edge/line coincidence tolerance
+  defaultFoldAngle: Math.PI / 2,   // Fold lines without an explicit angle close to 90°
+} as const;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A face of the pattern with its polygon and attached hinges
+ */
+export interface GraphFace {
+  index: number;
+  id: string;
+  role: FaceRole;
+  vertices: number[];          // Indices into pattern.vertices
+  polygon: THREE.Vector3[];    // Corner positions (flat, XZ plane)
+  hinges: number[];            // Indices into graph.hinges
+  isFlap: boolean;             // Joined to the rest of the net by a single hinge
+}
+
+/**
+ * A crease joining exactly two faces
+ */
+export interface GraphHinge {
+  index: number;
+  line: FoldLine;
+  kind: 'fold' | 'bend';       // Scored fold line or unscored bend line
+  lineIndex: number;           // Index into pattern.foldLines (or pattern.bendLines for bends)
+  faces: [number, number];
+  type: 'mountain' | 'valley';
+  foldAngle: number;           // Signed rotation from flat when assembled (valley > 0)
+  dihedral: number;            // Interior angle between the two faces when assembled
+}
+
+export interface CreaseGraph {
+  pattern: FoldPattern;
+  faces: GraphFace[];
+  hinges: GraphHinge[];
+  flaps: number[];             // Faces with exactly one hinge
+  lineFaces: number[][];       // Per pattern.foldLines entry: faces having an edge along it
+  looseCreases: FoldLine[];    // Mountain/valley lines that do not join two faces
+}
+
+// =============================================================================
+// GEOMETRY HELPERS
+// =============================================================================
+
+/**
+ * Check whether segment p-q lies on the line through a-b and overlaps
+ * segment a-b by more than the tolerance
+ */
+export function segmentsOverlap(
+  a: THREE.Vector3,
+  b: THREE.Vector3,
+  p: THREE.Vector3,
+  q: THREE.Vector3,
+  tolerance: number = CREASE_GRAPH.tolerance
+): boolean {
+  const dir = b.clone().sub(a);
+  const len = dir.length();
+  if (len < tolerance) return false;
+  dir.divideScalar(len);
+
+  const line = new THREE.Line3(a, b);
+  const closest = new THREE.Vector3();
+  for (const point of [p, q]) {
+    line.closestPointToPoint(point, false, closest);
+    if (closest.distanceTo(point) > tolerance) return false;
+  }
+
+  const t1 = p.clone().sub(a).dot(dir);
+  const t2 = q.clone().sub(a).dot(dir);
+  const overlap = Math.min(len, Math.max(t1, t2)) - Math.max(0, Math.min(t1, t2));
+  return overlap > tolerance;
+}
+
+/**
+ * Point-in-polygon test on the XZ plane (ray casting)
+ */
+export function pointInPolygon(point: THREE.Vector3, polygon: THREE.Vector3[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.z > point.z) !== (b.z > point.z) &&
+        point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Find the faces having an edge along the given line
+ */
+function facesAlongLine(faces: GraphFace[], line: FoldLine): number[] {
+  return faces
+    .filter(face => face.polygon.some((a, k) => {
+      const b = face.polygon[(k + 1) % face.polygon.length];
+      return segmentsOverlap(a, b, line.start, line.end);
+    }))
+    .map(face => face.index);
+}
+
+// =============================================================================
+// GRAPH CONSTRUCTION
+// =============================================================================
+
+/**
+ * Derive the crease graph of a pattern.
+ *
+ * A mountain/valley fold line (or bend line) becomes a hinge when it lies
+ * along an edge of exactly two faces. Lines touching fewer faces are reported
+ * as loose creases; cut lines never form hinges. Curved creases bend the
+ * sheet instead of hinging it, so patterns fold them in 3D with bend lines.
+ */
+export function buildCreaseGraph(pattern: FoldPattern): CreaseGraph {
+  const faces: GraphFace[] = pattern.faces.map((face, index) => ({
+    index,
+    id: face.id,
+    role: face.role,
+    vertices: face.vertices,
+    polygon: face.vertices.map(i => pattern.vertices[i].position),
+    hinges: [],
+    isFlap: false,
+  }));
+
+  const hinges: GraphHinge[] = [];
+  const looseCreases: FoldLine[] = [];
+
+  const lineFaces = pattern.foldLines.map(line => facesAlongLine(faces, line));
+
+  const addHinge = (line: FoldLine, kind: GraphHinge['kind'], lineIndex: number, along: number[]) => {
+    if (line.type === 'cut' || line.curve) return;
+
+    if (along.length < 2) {
+      looseCreases.push(line);
+      return;
+    }
+
+    const magnitude = line.angle ?? CREASE_GRAPH.defaultFoldAngle;
+    const hinge: GraphHinge = {
+      index: hinges.length,
+      line,
+      kind,
+      lineIndex,
+      faces: [along[0], along[1]],
+      type: line.type,
+      foldAngle: line.type === 'valley' ? magnitude : -magnitude,
+      dihedral: Math.PI - magnitude,
+    };
+
+    hinges.push(hinge);
+    faces[along[0]].hinges.push(hinge.index);
+    faces[along[1]].hinges.push(hinge.index);
+  };
+
+  pattern.foldLines.forEach((line, i) => addHinge(line, 'fold', i, lineFaces[i]));
+  (pattern.bendLines ?? []).forEach((line, i) => addHinge(line, 'bend', i, facesAlongLine(faces, line)));
+
+  faces.forEach(face => {
+    face.isFlap = face.hinges.length === 1;
+  });
+
+  return {
+    pattern,
+    faces,
+    hinges,
+    flaps: faces.filter(f => f.isFlap).map(f => f.index),
+    lineFaces,
+    looseCreases,
+  };
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * All hinges attached to a face
+ */
+export function getFaceHinges(graph: CreaseGraph, face: number): GraphHinge[] {
+  return graph.faces[face]?.hinges.map(i => graph.hinges[i]) ?? [];
+}
+
+/**
+ * The face on the other side of a hinge
+ */
+export function getOtherFace(hinge: GraphHinge, face: number): number {
+  return hinge.faces[0] === face ? hinge.faces[1] : hinge.faces[0];
+}
+
+/**
+ * Faces sharing a hinge with the given face
+ */
+export function getNeighbours(graph: CreaseGraph, face: number): number[] {
+  return getFaceHinges(graph, face).map(h => getOtherFace(h, face));
+}
+
+/**
+ * The hinge between two faces, if they share one
+ */
+export function findHinge(graph: CreaseGraph, a: number, b: number): GraphHinge | undefined {
+  return getFaceHinges(graph, a).find(h => getOtherFace(h, a) === b);
+}
+
+/**
+ * The hinge formed by a fold line, if it joins two faces
+ */
+export function getHingeForLine(graph: CreaseGraph, line: FoldLine): GraphHinge | undefined {
+  return graph.hinges.find(h => h.line === line);
+}
+
+/**
+ * The face containing a point of the flat pattern, or -1
+ */
+export function findFaceAt(graph: CreaseGraph, point: THREE.Vector3): number {
+  const face = graph.faces.find(f => pointInPolygon(point, f.polygon));
+  return face ? face.index : -1;
+}
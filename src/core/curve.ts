@@ -0,0 +1,327 @@
+/**
+ * Curved Lines
+ *
+ * Fold and cut lines may follow a circular arc or a cubic Bézier between
+ * their ends. The line's start and end stay the chord, so the crease graph
+ * and faces keep working on straight segments; exporters draw the true
+ * curve, lengths and areas are measured along it, and everything else
+ * samples it as a polyline.
+ */
+
+import * as THREE from 'three';
+import type { ArcCurve, BezierCurve, FoldLine } from '@/types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CURVE = {
+  maxStep: Math.PI / 18,    // Largest turn between two samples (10°)
+  arcTolerance: 0.001,      // Pattern units a fitted arc may stray from a Bézier (0.01 mm)
+  maxFitDepth: 10,          // Halvings before a Bézier piece is accepted as fitted
+} as const;
+
+// Five-point Gauss-Legendre rule on [0, 1]: exact for polynomials up to degree 9
+const GAUSS = [
+  { t: 0.5 - 0.4530899229693320, w: 0.1184634425280945 },
+  { t: 0.5 - 0.2692346550528416, w: 0.2393143352496832 },
+  { t: 0.5, w: 0.2844444444444444 },
+  { t: 0.5 + 0.2692346550528416, w: 0.2393143352496832 },
+  { t: 0.5 + 0.4530899229693320, w: 0.1184634425280945 },
+];
+
+// =============================================================================
+// CONSTRUCTION
+// =============================================================================
+
+const angleAbout = (center: THREE.Vector3, p: THREE.Vector3): number =>
+  Math.atan2(p.z - center.z, p.x - center.x);
+
+/**
+ * Arc from `start` to `end` passing through `through` (flat, on the XZ plane)
+ */
+export function arcThrough(start: THREE.Vector3, through: THREE.Vector3, end: THREE.Vector3): ArcCurve {
+  // Circumcentre of the three points
+  const ax = start.x, az = start.z;
+  const bx = through.x, bz = through.z;
+  const cx = end.x, cz = end.z;
+  const d = 2 * (ax * (bz - cz) + bx * (cz - az) + cx * (az - bz));
+  const a2 = ax * ax + az * az;
+  const b2 = bx * bx + bz * bz;
+  const c2 = cx * cx + cz * cz;
+  const center = new THREE.Vector3(
+    (a2 * (bz - cz) + b2 * (cz - az) + c2 * (az - bz)) / d,
+    0,
+    (a2 * (cx - bx) + b2 * (ax - cx) + c2 * (bx - ax)) / d
+  );
+
+  // Sweep the way that passes `through`
+  const turn = (from: number, to: number) => {
+    const t = (to - from) % (2 * Math.PI);
+    return t < 0 ? t + 2 * Math.PI : t;
+  };
+  const a0 = angleAbout(center, start);
+  const ccw = turn(a0, angleAbout(center, end));
+  const sweep = turn(a0, angleAbout(center, through)) < ccw ? ccw : ccw - 2 * Math.PI;
+
+  return { kind: 'arc', center, sweep };
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+function bezierPoint(start: THREE.Vector3, curve: BezierCurve, end: THREE.Vector3, t: number): THREE.Vector3 {
+  const s = 1 - t;
+  return start.clone().multiplyScalar(s * s * s)
+    .addScaledVector(curve.control1, 3 * s * s * t)
+    .addScaledVector(curve.control2, 3 * s * t * t)
+    .addScaledVector(end, t * t * t);
+}
+
+function bezierDerivative(start: THREE.Vector3, curve: BezierCurve, end: THREE.Vector3, t: number): THREE.Vector3 {
+  const s = 1 - t;
+  return curve.control1.clone().sub(start).multiplyScalar(3 * s * s)
+    .addScaledVector(curve.control2.clone().sub(curve.control1), 6 * s * t)
+    .addScaledVector(end.clone().sub(curve.control2), 3 * t * t);
+}
+
+/**
+ * Point at parameter t (0 = start, 1 = end) along a line's path
+ */
+export function pointOnLine(line: FoldLine, t: number): THREE.Vector3 {
+  const { curve } = line;
+  if (!curve) return line.start.clone().lerp(line.end, t);
+  if (curve.kind === 'bezier') return bezierPoint(line.start, curve, line.end, t);
+
+  const radius = curve.center.distanceTo(line.start);
+  const angle = angleAbout(curve.center, line.start) + curve.sweep * t;
+  return new THREE.Vector3(
+    curve.center.x + radius * Math.cos(angle),
+    line.start.y,
+    curve.center.z + radius * Math.sin(angle)
+  );
+}
+
+/**
+ * Derivative of a line's path with respect to t
+ */
+function derivativeOnLine(line: FoldLine, t: number): THREE.Vector3 {
+  const { curve } = line;
+  if (!curve) return line.end.clone().sub(line.start);
+  if (curve.kind === 'bezier') return bezierDerivative(line.start, curve, line.end, t);
+
+  const radius = curve.center.distanceTo(line.start);
+  const angle = angleAbout(curve.center, line.start) + curve.sweep * t;
+  return new THREE.Vector3(-Math.sin(angle), 0, Math.cos(angle)).multiplyScalar(radius * curve.sweep);
+}
+
+/**
+ * Unit direction in which a line leaves the end at `vertex` (its tangent
+ * there, for curves)
+ */
+export function directionFrom(line: FoldLine, vertex: THREE.Vector3): THREE.Vector3 {
+  const atStart = line.start.distanceTo(vertex) <= line.end.distanceTo(vertex);
+  const { curve } = line;
+
+  if (curve?.kind === 'bezier') {
+    // Fall back to the next control point when one coincides with the end
+    const [end, near, far] = atStart
+      ? [line.start, curve.control1, curve.control2]
+      : [line.end, curve.control2, curve.control1];
+    const dir = near.clone().sub(end);
+    return (dir.lengthSq() > 1e-18 ? dir : far.clone().sub(end)).normalize();
+  }
+  if (curve) {
+    const tangent = derivativeOnLine(line, atStart ? 0 : 1).normalize();
+    return atStart ? tangent : tangent.negate();
+  }
+
+  const other = atStart ? line.end : line.start;
+  return other.clone().sub(vertex).normalize();
+}
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+/**
+ * How far a Bézier turns along its control polygon (radians)
+ */
+function bezierTurn(start: THREE.Vector3, curve: BezierCurve, end: THREE.Vector3): number {
+  const legs = [curve.control1.clone().sub(start), curve.control2.clone().sub(curve.control1), end.clone().sub(curve.control2)]
+    .filter(leg => leg.lengthSq() > 1e-18);
+  let turn = 0;
+  for (let i = 1; i < legs.length; i++) {
+    turn += legs[i - 1].angleTo(legs[i]);
+  }
+  return turn;
+}
+
+/**
+ * A line's path as a polyline from start to end. Samples depend only on the
+ * line, so faces built from them meet the line's own pieces exactly.
+ */
+export function curvePoints(line: FoldLine): THREE.Vector3[] {
+  const { curve } = line;
+  if (!curve) return [line.start, line.end];
+
+  const turn = curve.kind === 'arc' ? Math.abs(curve.sweep) : bezierTurn(line.start, curve, line.end);
+  const steps = Math.max(curve.kind === 'arc' ? 1 : 2, Math.ceil(turn / CURVE.maxStep));
+  const points = [line.start];
+  for (let i = 1; i < steps; i++) {
+    points.push(pointOnLine(line, i / steps));
+  }
+  points.push(line.end);
+  return points;
+}
+
+/**
+ * Every point of the pattern's lines, curves sampled (for bounds)
+ */
+export function linePathPoints(lines: FoldLine[]): THREE.Vector3[] {
+  return lines.flatMap(curvePoints);
+}
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+/**
+ * Length of a line's path between parameters t0 and t1
+ */
+export function lineLength(line: FoldLine, t0: number = 0, t1: number = 1): number {
+  const { curve } = line;
+  if (!curve) return line.start.distanceTo(line.end) * Math.abs(t1 - t0);
+  if (curve.kind === 'arc') return curve.center.distanceTo(line.start) * Math.abs(curve.sweep * (t1 - t0));
+
+  // Speed is not polynomial; integrate piecewise
+  const pieces = 8;
+  const span = (t1 - t0) / pieces;
+  let length = 0;
+  for (let k = 0; k < pieces; k++) {
+    GAUSS.forEach(({ t, w }) => {
+      length += w * derivativeOnLine(line, t0 + (k + t) * span).length();
+    });
+  }
+  return length * Math.abs(span);
+}
+
+/**
+ * Total path length of a set of lines
+ */
+export function totalLength(lines: FoldLine[]): number {
+  return lines.reduce((sum, line) => sum + lineLength(line), 0);
+}
+
+/**
+ * Contribution of a line's path from t0 to t1 to the signed area of a loop
+ * it belongs to: half the integral of z dx - x dz, the same sense as
+ * polygonArea (positive counter-clockwise seen from +Y).
+ */
+export function lineAreaTerm(line: FoldLine, t0: number = 0, t1: number = 1): number {
+  const { curve } = line;
+
+  if (!curve) {
+    const a = pointOnLine(line, t0);
+    const b = pointOnLine(line, t1);
+    return (a.z * b.x - a.x * b.z) / 2;
+  }
+
+  if (curve.kind === 'arc') {
+    const { center: c, sweep } = curve;
+    const r = c.distanceTo(line.start);
+    const a0 = angleAbout(c, line.start) + sweep * t0;
+    const a1 = angleAbout(c, line.start) + sweep * t1;
+    return (r * c.z * (Math.cos(a1) - Math.cos(a0)) - r * c.x * (Math.sin(a1) - Math.sin(a0)) - r * r * (a1 - a0)) / 2;
+  }
+
+  // Degree-5 polynomial in t, so the rule is exact
+  let term = 0;
+  GAUSS.forEach(({ t, w }) => {
+    const u = t0 + t * (t1 - t0);
+    const p = pointOnLine(line, u);
+    const d = derivativeOnLine(line, u);
+    term += w * (p.z * d.x - p.x * d.z);
+  });
+  return (term * (t1 - t0)) / 2;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * A line's path as cubic Béziers: control points and end of each segment.
+ * Arcs are split into quarter turns or less, each within 0.03% of the circle.
+ */
+export function curveBeziers(line: FoldLine): [THREE.Vector3, THREE.Vector3, THREE.Vector3][] {
+  const { curve } = line;
+  if (!curve) return [[line.start, line.end, line.end]];
+  if (curve.kind === 'bezier') return [[curve.control1, curve.control2, line.end]];
+
+  const { center, sweep } = curve;
+  const radius = center.distanceTo(line.start);
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / count;
+  const k = (4 / 3) * Math.tan(step / 4) * radius;
+  const tangent = (a: number) => new THREE.Vector3(-Math.sin(a), 0, Math.cos(a));
+
+  const segments: [THREE.Vector3, THREE.Vector3, THREE.Vector3][] = [];
+  let angle = angleAbout(center, line.start);
+  let from = line.start;
+  for (let i = 0; i < count; i++) {
+    const next = angle + step;
+    const to = i === count - 1 ? line.end : pointOnLine(line, (i + 1) / count);
+    segments.push([
+      from.clone().addScaledVector(tangent(angle), k),
+      to.clone().addScaledVector(tangent(next), -k),
+      to,
+    ]);
+    angle = next;
+    from = to;
+  }
+  return segments;
+}
+
+/**
+ * A line's path as arcs and straight pieces, for formats without Béziers.
+ * Bézier pieces are halved until an arc (or chord) through their ends and
+ * midpoint stays within CURVE.arcTolerance of them.
+ */
+export function curveArcs(line: FoldLine): FoldLine[] {
+  const { curve } = line;
+  if (curve?.kind !== 'bezier') return [line];
+
+  const pieces: FoldLine[] = [];
+  const fit = (t0: number, t1: number, depth: number) => {
+    const start = pointOnLine(line, t0);
+    const mid = pointOnLine(line, (t0 + t1) / 2);
+    const end = pointOnLine(line, t1);
+    const chord = new THREE.Line3(start, end);
+    const closest = new THREE.Vector3();
+    const straight = chord.closestPointToPoint(mid, true, closest).distanceTo(mid) < CURVE.arcTolerance / 4;
+
+    const piece: FoldLine = { ...line, start, end, curve: undefined };
+    if (!straight) piece.curve = arcThrough(start, mid, end);
+
+    const error = Math.max(...[0.125, 0.25, 0.375, 0.625, 0.75, 0.875].map(f => {
+      const p = pointOnLine(line, t0 + f * (t1 - t0));
+      if (!piece.curve) return chord.closestPointToPoint(p, true, closest).distanceTo(p);
+      const { center } = piece.curve as ArcCurve;
+      return Math.abs(center.distanceTo(p) - center.distanceTo(start));
+    }));
+
+    if (error <= CURVE.arcTolerance || depth >= CURVE.maxFitDepth) {
+      pieces.push(piece);
+      return;
+    }
+    fit(t0, (t0 + t1) / 2, depth + 1);
+    fit((t0 + t1) / 2, t1, depth + 1);
+  };
+
+  fit(0, 1, 0);
+  pieces[0].start = line.start;
+  pieces[pieces.length - 1].end = line.end;
+  return pieces;
+}
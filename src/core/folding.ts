@@ -0,0 +1,307 @@
+/**
+ * Folding Engine
+ *
+ * Folds a flat FoldPattern into its assembled 3D form. Faces are linked
+ * into a spanning tree over the hinges of the crease graph, and each face is
+ * rotated about the hinge joining it to its parent.
+ *
+ * Conventions (pattern lies flat on the XZ plane, printed side facing +Y):
+ * - Valley folds lift the child face toward +Y (toward the viewer)
+ * - Mountain folds drop the child face toward -Y (away from the viewer)
+ */
+
+import * as THREE from 'three';
+import type { FoldPattern, FoldLine } from '@/types';
+import {
+  buildCreaseGraph,
+  getFaceHinges,
+  getOtherFace,
+  getHingeForLine,
+  findFaceAt,
+  type CreaseGraph,
+  type GraphHinge,
+} from './creaseGraph';
+import { curvePoints } from './curve';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const FOLDING = {
+  tolerance: 0.001,  // Height below which the assembled product counts as flat
+} as const;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A fold line joining a parent face to a child face in the fold tree
+ */
+export interface FoldHinge {
+  hinge: GraphHinge;
+  parent: number;
+  child: number;
+  pivot: THREE.Vector3;   // Point on the hinge axis (flat coordinates)
+  axis: THREE.Vector3;    // Unit axis, oriented so a positive rotation lifts the child toward +Y
+  angle: number;          // Signed rotation when fully folded (valley > 0, mountain < 0)
+}
+
+/**
+ * Spanning tree of faces rooted at the first face of the pattern
+ */
+export interface FoldTree {
+  graph: CreaseGraph;
+  root: number;
+  order: number[];                  // Faces in breadth-first order from the root
+  parentHinge: (FoldHinge | null)[]; // Indexed by face; null for the root and detached faces
+  detached: number[];               // Faces no hinge reaches (stay in the root's plane)
+}
+
+/**
+ * A pattern folded to a given progress
+ */
+export interface FoldedPattern {
+  pattern: FoldPattern;
+  tree: FoldTree;
+  progress: number;              // 0 = flat sheet, 1 = fully assembled
+  transforms: THREE.Matrix4[];   // Per face: flat coordinates -> folded world coordinates
+}
+
+// =============================================================================
+// FOLD TREE
+// =============================================================================
+
+/**
+ * Build the fold tree of a pattern.
+ *
+ * A breadth-first walk over the crease graph from the root face keeps the
+ * hinge that reaches each face first; hinges closing a loop are left out.
+ */
+export function buildFoldTree(graph: CreaseGraph, root: number = 0): FoldTree {
+  const faceCount = graph.faces.length;
+  const parentHinge: (FoldHinge | null)[] = new Array(faceCount).fill(null);
+  const order: number[] = [];
+  const visited = new Array(faceCount).fill(false);
+
+  if (faceCount > 0) {
+    visited[root] = true;
+    const queue = [root];
+
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+      order.push(parent);
+
+      getFaceHinges(graph, parent).forEach(hinge => {
+        const child = getOtherFace(hinge, parent);
+        if (visited[child]) return;
+        visited[child] = true;
+        parentHinge[child] = orientHinge(graph, hinge, parent, child);
+        queue.push(child);
+      });
+    }
+  }
+
+  const detached: number[] = [];
+  for (let i = 0; i < faceCount; i++) {
+    if (!visited[i]) detached.push(i);
+  }
+
+  return { graph, root, order, parentHinge, detached };
+}
+
+/**
+ * Orient a hinge so that a positive rotation lifts the child toward +Y
+ */
+function orientHinge(
+  graph: CreaseGraph,
+  hinge: GraphHinge,
+  parent: number,
+  child: number
+): FoldHinge {
+  const { line } = hinge;
+  const pivot = line.start.clone();
+  const axis = line.end.clone().sub(line.start).normalize();
+
+  const polygon = graph.faces[child].polygon;
+  const centroid = new THREE.Vector3();
+  polygon.forEach(p => centroid.add(p));
+  centroid.divideScalar(Math.max(polygon.length, 1));
+
+  if (axis.clone().cross(centroid.sub(pivot)).y < 0) {
+    axis.negate();
+  }
+
+  return { hinge, parent, child, pivot, axis, angle: hinge.foldAngle };
+}
+
+// =============================================================================
+// FOLDING
+// =============================================================================
+
+/**
+ * Compose the per-face transforms for a given fold progress (no placement)
+ */
+function computeTransforms(pattern: FoldPattern, tree: FoldTree, progress: number): THREE.Matrix4[] {
+  const transforms = pattern.faces.map(() => new THREE.Matrix4());
+
+  tree.order.forEach(face => {
+    const hinge = tree.parentHinge[face];
+    if (!hinge) return;
+
+    const rotation = new THREE.Matrix4().makeRotationAxis(hinge.axis, hinge.angle * progress);
+    const toPivot = new THREE.Matrix4().makeTranslation(hinge.pivot.x, hinge.pivot.y, hinge.pivot.z);
+    const fromPivot = new THREE.Matrix4().makeTranslation(-hinge.pivot.x, -hinge.pivot.y, -hinge.pivot.z);
+
+    transforms[face]
+      .copy(transforms[hinge.parent])
+      .multiply(toPivot)
+      .multiply(rotation)
+      .multiply(fromPivot);
+  });
+
+  // Detached faces keep the root's frame
+  tree.detached.forEach(face => transforms[face].copy(transforms[tree.root]));
+
+  return transforms;
+}
+
+/**
+ * Fold a pattern to the given progress (0-1).
+ *
+ * The result is placed for display: if the assembled product forms below the
+ * sheet (mountain-folded nets), it is turned over so it stands on its root
+ * face, then centred on the origin and rested on Y=0.
+ */
+export function foldPattern(
+  pattern: FoldPattern,
+  progress: number = 1,
+  tree: FoldTree = buildFoldTree(buildCreaseGraph(pattern))
+): FoldedPattern {
+  const t = THREE.MathUtils.clamp(progress, 0, 1);
+
+  // Decide orientation from the assembled state so it stays fixed while animating
+  const assembled = computeTransforms(pattern, tree, 1);
+  let massY = 0;
+  let count = 0;
+  pattern.faces.forEach((face, i) => {
+    face.vertices.forEach(vi => {
+      massY += pattern.vertices[vi].position.clone().applyMatrix4(assembled[i]).y;
+      count++;
+    });
+  });
+
+  const placement = new THREE.Matrix4();
+  if (count > 0 && massY / count < -FOLDING.tolerance) {
+    placement.makeRotationX(Math.PI);
+  }
+
+  const transforms = computeTransforms(pattern, tree, t).map(m => m.premultiply(placement));
+
+  // Centre horizontally and rest on the ground plane
+  const bounds = new THREE.Box3();
+  pattern.faces.forEach((face, i) => {
+    face.vertices.forEach(vi => {
+      bounds.expandByPoint(pattern.vertices[vi].position.clone().applyMatrix4(transforms[i]));
+    });
+  });
+
+  if (!bounds.isEmpty()) {
+    const center = bounds.getCenter(new THREE.Vector3());
+    const shift = new THREE.Matrix4().makeTranslation(-center.x, -bounds.min.y, -center.z);
+    transforms.forEach(m => m.premultiply(shift));
+  }
+
+  return { pattern, tree, progress: t, transforms };
+}
+
+// =============================================================================
+// OUTPUT GEOMETRY
+// =============================================================================
+
+/**
+ * Build a triangulated geometry of the folded faces.
+ * Vertices are duplicated per face so every panel keeps a flat normal.
+ * `userData.triangleFaces` maps each triangle back to its pattern face.
+ */
+export function createFoldedGeometry(folded: FoldedPattern): THREE.BufferGeometry {
+  const { pattern, transforms } = folded;
+  const positions: number[] = [];
+  const triangleFaces: number[] = [];
+
+  pattern.faces.forEach((face, faceIndex) => {
+    const points = face.vertices.map(vi => pattern.vertices[vi].position.clone().applyMatrix4(transforms[faceIndex]));
+
+    // Triangulate polygon faces
+    for (let i = 1; i < points.length - 1; i++) {
+      [points[0], points[i], points[i + 1]].forEach(p => positions.push(p.x, p.y, p.z));
+      triangleFaces.push(faceIndex);
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  geometry.userData.triangleFaces = triangleFaces;
+
+  return geometry;
+}
+
+/**
+ * Find the face that carries a fold line: a hinge's parent face, a face with
+ * an edge along it, otherwise the face containing its midpoint, otherwise
+ * the root face.
+ */
+function owningFace(folded: FoldedPattern, line: FoldLine, lineIndex: number): number {
+  const { tree } = folded;
+  const { graph } = tree;
+
+  // Hinges move with their parent face
+  const hinge = getHingeForLine(graph, line);
+  if (hinge) {
+    const child = tree.parentHinge.find(h => h?.hinge === hinge);
+    if (child) return child.parent;
+  }
+
+  const along = graph.lineFaces[lineIndex];
+  if (along && along.length > 0) return along[0];
+
+  const mid = line.start.clone().add(line.end).multiplyScalar(0.5);
+  const containing = findFaceAt(graph, mid);
+  return containing >= 0 ? containing : tree.root;
+}
+
+/**
+ * Carry the pattern's fold lines into folded space
+ */
+export function foldLineSegments(
+  folded: FoldedPattern
+): Record<FoldLine['type'], [THREE.Vector3, THREE.Vector3][]> {
+  const segments: Record<FoldLine['type'], [THREE.Vector3, THREE.Vector3][]> = {
+    mountain: [],
+    valley: [],
+    cut: [],
+  };
+
+  folded.pattern.foldLines.forEach((line, i) => {
+    const face = owningFace(folded, line, i);
+    const transformOf = (f: number) => folded.transforms[f] ?? new THREE.Matrix4();
+
+    if (!line.curve) {
+      const transform = transformOf(face);
+      segments[line.type].push([line.start.clone().applyMatrix4(transform), line.end.clone().applyMatrix4(transform)]);
+      return;
+    }
+
+    // Curves cross faces: each piece moves with the face it lies in
+    const path = curvePoints(line);
+    path.slice(0, -1).forEach((p, k) => {
+      const q = path[k + 1];
+      const inside = findFaceAt(folded.tree.graph, p.clone().add(q).multiplyScalar(0.5));
+      const transform = transformOf(inside >= 0 ? inside : face);
+      segments[line.type].push([p.clone().applyMatrix4(transform), q.clone().applyMatrix4(transform)]);
+    });
+  });
+
+  return segments;
+}
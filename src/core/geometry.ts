@@ -1,5 +1,22 @@
 import * as THREE from 'three';
-import type { FoldPattern, FoldLine, PatternConfig } from '@/types';
+import type {
+  Assembly,
+  FoldPattern,
+  FoldLine,
+  FaceRole,
+  LineRole,
+  PatternConfig,
+  PatternFace,
+  PatternVertex,
+} from '@/types';
+import { polygonArea, polygonCentroid, polygonIntersection } from './polygon';
+import { arcThrough, curvePoints, directionFrom } from './curve';
+import { POLYHEDRA, POLYHEDRON_NAMES, buildPolyhedron, unfoldMesh, unfoldPolyhedron } from './polyhedra';
+import type { PolyhedronNet } from './polyhedra';
+import { pointInPolygon } from './creaseGraph';
+import { SHEET } from './sheet';
+import { createPart, singlePartAssembly } from './assembly';
+import { ASSEMBLY_MECHANICS, NET_OVERLAP } from './theorems';
 
 /**
  * Paper Fold Package - Geometry Module
@@ -9,6 +26,9 @@ import type { FoldPattern, FoldLine, PatternConfig } from '@/types';
  *
  * Follows origami principles including Kawasaki-Justin theorem:
  * At any interior vertex, alternating angles sum to 180° for flat-foldability.
+ *
+ * Every face and line carries a stable id (e.g. 'top-left-tab') and a role
+ * (e.g. 'locking-tab') so validation, the 3D view and exporters can name them.
  */
 
 // =============================================================================
@@ -22,26 +42,75 @@ function v2(x: number, z: number): THREE.Vector3 {
   return new THREE.Vector3(x, 0, z);
 }
 
+/**
+ * Identity of a line: stable id, role and optional fold angle
+ */
+interface LineMeta {
+  id: string;
+  role: LineRole;
+  angle?: number;  // Fold angle when assembled (radians); omitted means 90°
+}
+
 /**
  * Create a fold line between two points
  */
 function fold(
   start: THREE.Vector3,
   end: THREE.Vector3,
-  type: 'mountain' | 'valley' | 'cut'
+  type: 'mountain' | 'valley' | 'cut',
+  meta: LineMeta
+): FoldLine {
+  const line: FoldLine = { id: meta.id, role: meta.role, start: start.clone(), end: end.clone(), type };
+  if (meta.angle !== undefined) line.angle = meta.angle;
+  return line;
+}
+
+/**
+ * Create a circular arc line from start to end passing through `through`
+ */
+function arc(
+  start: THREE.Vector3,
+  through: THREE.Vector3,
+  end: THREE.Vector3,
+  type: 'mountain' | 'valley' | 'cut',
+  meta: LineMeta
 ): FoldLine {
-  return { start: start.clone(), end: end.clone(), type };
+  return { ...fold(start, end, type, meta), curve: arcThrough(start, through, end) };
+}
+
+/**
+ * Register a polygon as a face, appending its corners to the vertex list.
+ * Corners get ids '<face>.<n>' and are wound counter-clockwise seen from
+ * the printed side (+Y), keeping the first corner first: faces are
+ * triangulated as a fan from it. Returns the index of the new face.
+ */
+function addFace(
+  vertices: PatternVertex[],
+  faces: PatternFace[],
+  face: { id: string; role: FaceRole },
+  polygon: THREE.Vector3[]
+): number {
+  const ordered = polygonArea(polygon) < 0 ? [polygon[0], ...polygon.slice(1).reverse()] : polygon;
+
+  const start = vertices.length;
+  ordered.forEach((p, k) => vertices.push({ id: `${face.id}.${k}`, position: p.clone() }));
+  faces.push({ id: face.id, role: face.role, vertices: ordered.map((_, k) => start + k) });
+  return faces.length - 1;
 }
 
 /**
  * Generate a trapezoidal tab shape for locking without glue
  * Tab narrows toward the tip for easier insertion
+ *
+ * @param id - Tab id; its lines are '<id>-fold', '<id>-side-a', '<id>-tip', '<id>-side-b'
  */
 function generateLockingTab(
+  id: string,
   baseStart: THREE.Vector3,
   baseEnd: THREE.Vector3,
   tabDepth: number,
-  inward: boolean = true
+  inward: boolean = true,
+  foldAngle?: number
 ): { vertices: THREE.Vector3[]; foldLines: FoldLine[] } {
   const dir = baseEnd.clone().sub(baseStart);
   const len = dir.length();
@@ -71,11 +140,11 @@ function generateLockingTab(
 
   const foldLines: FoldLine[] = [
     // Base fold line (mountain fold to tuck in)
-    fold(baseStart, baseEnd, 'mountain'),
+    fold(baseStart, baseEnd, 'mountain', { id: `${id}-fold`, role: 'tab-fold', angle: foldAngle }),
     // Cut lines for tab outline
-    fold(baseStart, tipStart, 'cut'),
-    fold(tipStart, tipEnd, 'cut'),
-    fold(tipEnd, baseEnd, 'cut'),
+    fold(baseStart, tipStart, 'cut', { id: `${id}-side-a`, role: 'tab-outline' }),
+    fold(tipStart, tipEnd, 'cut', { id: `${id}-tip`, role: 'tab-outline' }),
+    fold(tipEnd, baseEnd, 'cut', { id: `${id}-side-b`, role: 'tab-outline' }),
   ];
 
   return { vertices, foldLines };
@@ -85,6 +154,7 @@ function generateLockingTab(
  * Generate a slit for tab insertion (no glue needed)
  */
 function generateSlit(
+  id: string,
   start: THREE.Vector3,
   end: THREE.Vector3,
   slitRatio: number = 0.8
@@ -97,7 +167,7 @@ function generateSlit(
   const slitStart = start.clone().add(dir.clone().multiplyScalar(inset));
   const slitEnd = end.clone().sub(dir.clone().multiplyScalar(inset));
 
-  return [fold(slitStart, slitEnd, 'cut')];
+  return [fold(slitStart, slitEnd, 'cut', { id, role: 'slit' })];
 }
 
 // =============================================================================
@@ -121,9 +191,9 @@ export function generateBoxPattern(config: PatternConfig): FoldPattern {
   const { width, height, depth } = config;
   const tabDepth = Math.min(width, height, depth) * 0.15; // Tab is 15% of smallest dimension
 
-  const vertices: THREE.Vector3[] = [];
+  const vertices: PatternVertex[] = [];
   const foldLines: FoldLine[] = [];
-  const faces: number[][] = [];
+  const faces: PatternFace[] = [];
 
   // ==========================================================================
   // MAIN CROSS PATTERN
@@ -165,101 +235,91 @@ export function generateBoxPattern(config: PatternConfig): FoldPattern {
   const topTR = v2(width / 2, depth / 2 + height + depth);
   const topTL = v2(-width / 2, depth / 2 + height + depth);
 
-  // Collect all main vertices
-  vertices.push(
-    bottomBL, bottomBR, bottomTR, bottomTL,  // 0-3
-    frontTL, frontTR,                         // 4-5
-    backBL, backBR,                           // 6-7
-    leftBL, leftTL,                           // 8-9
-    rightBR, rightTR,                         // 10-11
-    topTL, topTR,                             // 12-13
-  );
-
-  // Define faces (for mesh generation)
-  faces.push(
-    [0, 1, 2, 3],     // bottom
-    [3, 2, 5, 4],     // front
-    [1, 0, 6, 7],     // back (note: vertices need adjusting for proper winding)
-    [0, 3, 9, 8],     // left
-    [2, 1, 10, 11],   // right
-    [4, 5, 13, 12],   // top
-  );
+  // Faces (for mesh generation); the bottom comes first as the fold root
+  addFace(vertices, faces, { id: 'bottom', role: 'bottom' }, [bottomBL, bottomBR, bottomTR, bottomTL]);
+  addFace(vertices, faces, { id: 'front', role: 'front' }, [frontBL, frontBR, frontTR, frontTL]);
+  addFace(vertices, faces, { id: 'back', role: 'back' }, [backBL, backBR, backTR, backTL]);
+  addFace(vertices, faces, { id: 'left', role: 'left' }, [leftBL, leftBR, leftTR, leftTL]);
+  addFace(vertices, faces, { id: 'right', role: 'right' }, [rightBL, rightBR, rightTR, rightTL]);
+  addFace(vertices, faces, { id: 'top', role: 'top' }, [topBL, topBR, topTR, topTL]);
 
   // ==========================================================================
   // CUT LINES (Perimeter)
   // ==========================================================================
 
-  // Outer perimeter cuts
+  // Outer perimeter cuts (edges carrying a tab are cut around the tab instead)
   // Back face perimeter
-  foldLines.push(fold(backBL, backBR, 'cut'));
-  foldLines.push(fold(backBR, backTR, 'cut'));
-  foldLines.push(fold(backBL, backTL, 'cut'));
+  foldLines.push(fold(backBL, backBR, 'cut', { id: 'back-outer-edge', role: 'perimeter' }));
 
   // Left face perimeter
-  foldLines.push(fold(leftBL, leftTL, 'cut'));
-  foldLines.push(fold(leftBL, leftBR, 'cut'));
-  foldLines.push(fold(leftTL, leftTR, 'cut'));
+  foldLines.push(fold(leftBL, leftTL, 'cut', { id: 'left-outer-edge', role: 'perimeter' }));
+  foldLines.push(fold(leftBL, leftBR, 'cut', { id: 'left-back-edge', role: 'perimeter' }));
+  foldLines.push(fold(leftTL, leftTR, 'cut', { id: 'left-front-edge', role: 'perimeter' }));
 
   // Right face perimeter
-  foldLines.push(fold(rightBR, rightTR, 'cut'));
-  foldLines.push(fold(rightBL, rightBR, 'cut'));
-  foldLines.push(fold(rightTL, rightTR, 'cut'));
+  foldLines.push(fold(rightBR, rightTR, 'cut', { id: 'right-outer-edge', role: 'perimeter' }));
+  foldLines.push(fold(rightBL, rightBR, 'cut', { id: 'right-back-edge', role: 'perimeter' }));
+  foldLines.push(fold(rightTL, rightTR, 'cut', { id: 'right-front-edge', role: 'perimeter' }));
 
   // Front face - only sides (top connects to top face)
-  foldLines.push(fold(frontBL, frontTL, 'cut'));
-  foldLines.push(fold(frontBR, frontTR, 'cut'));
+  foldLines.push(fold(frontBL, frontTL, 'cut', { id: 'front-left-edge', role: 'perimeter' }));
+  foldLines.push(fold(frontBR, frontTR, 'cut', { id: 'front-right-edge', role: 'perimeter' }));
 
-  // Top face perimeter
-  foldLines.push(fold(topTL, topTR, 'cut'));
-  foldLines.push(fold(topTL, topBL, 'cut'));
-  foldLines.push(fold(topTR, topBR, 'cut'));
+  // Top face - all three free edges carry tabs
 
   // ==========================================================================
   // FOLD LINES (Mountain and Valley)
   // ==========================================================================
 
   // Bottom to adjacent faces - Mountain folds (fold up)
-  foldLines.push(fold(bottomBL, bottomBR, 'mountain')); // to back
-  foldLines.push(fold(bottomTL, bottomTR, 'mountain')); // to front
-  foldLines.push(fold(bottomBL, bottomTL, 'mountain')); // to left
-  foldLines.push(fold(bottomBR, bottomTR, 'mountain')); // to right
+  foldLines.push(fold(bottomBL, bottomBR, 'mountain', { id: 'bottom-back-fold', role: 'panel-fold' }));
+  foldLines.push(fold(bottomTL, bottomTR, 'mountain', { id: 'bottom-front-fold', role: 'panel-fold' }));
+  foldLines.push(fold(bottomBL, bottomTL, 'mountain', { id: 'bottom-left-fold', role: 'panel-fold' }));
+  foldLines.push(fold(bottomBR, bottomTR, 'mountain', { id: 'bottom-right-fold', role: 'panel-fold' }));
 
   // Front to top - Mountain fold
-  foldLines.push(fold(frontTL, frontTR, 'mountain'));
+  foldLines.push(fold(frontTL, frontTR, 'mountain', { id: 'front-top-fold', role: 'panel-fold' }));
 
   // ==========================================================================
   // LOCKING TABS (Glue-free assembly)
   // ==========================================================================
 
   // Tab on left side of back face - tucks into left face
-  const backLeftTab = generateLockingTab(backBL, backTL, tabDepth, true);
+  const backLeftTab = generateLockingTab('back-left-tab', backBL, backTL, tabDepth, true);
   foldLines.push(...backLeftTab.foldLines);
 
   // Tab on right side of back face - tucks into right face
-  const backRightTab = generateLockingTab(backTR, backBR, tabDepth, true);
+  const backRightTab = generateLockingTab('back-right-tab', backTR, backBR, tabDepth, true);
   foldLines.push(...backRightTab.foldLines);
 
   // Tab on left side of top face - tucks into left face when closed
-  const topLeftTab = generateLockingTab(topTL, topBL, tabDepth, true);
+  const topLeftTab = generateLockingTab('top-left-tab', topTL, topBL, tabDepth, false);
   foldLines.push(...topLeftTab.foldLines);
 
   // Tab on right side of top face - tucks into right face when closed
-  const topRightTab = generateLockingTab(topBR, topTR, tabDepth, true);
+  const topRightTab = generateLockingTab('top-right-tab', topBR, topTR, tabDepth, false);
   foldLines.push(...topRightTab.foldLines);
 
   // Tab on top edge of top face - tucks into back face
-  const topFrontTab = generateLockingTab(topTL, topTR, tabDepth, false);
+  const topFrontTab = generateLockingTab('top-front-tab', topTL, topTR, tabDepth, true);
   foldLines.push(...topFrontTab.foldLines);
 
+  // Tabs are part of the sheet, so they fold with the net in 3D
+  addFace(vertices, faces, { id: 'back-left-tab', role: 'locking-tab' }, backLeftTab.vertices);
+  addFace(vertices, faces, { id: 'back-right-tab', role: 'locking-tab' }, backRightTab.vertices);
+  addFace(vertices, faces, { id: 'top-left-tab', role: 'locking-tab' }, topLeftTab.vertices);
+  addFace(vertices, faces, { id: 'top-right-tab', role: 'locking-tab' }, topRightTab.vertices);
+  addFace(vertices, faces, { id: 'top-front-tab', role: 'locking-tab' }, topFrontTab.vertices);
+
   // ==========================================================================
   // INSERTION SLITS (for tabs)
   // ==========================================================================
 
   // Slits on left face edges for tabs
-  foldLines.push(...generateSlit(leftBL, leftTL, 0.7));
+  foldLines.push(...generateSlit('left-slit', leftBL, leftTL, 0.7));
 
   // Slits on right face edges for tabs
-  foldLines.push(...generateSlit(rightBR, rightTR, 0.7));
+  foldLines.push(...generateSlit('right-slit', rightBR, rightTR, 0.7));
 
   return {
     name: 'Box (Glue-Free)',
@@ -288,9 +348,15 @@ export function generatePyramidPattern(config: PatternConfig): FoldPattern {
   const slantHeight = Math.sqrt(height * height + (baseSize / 2) * (baseSize / 2));
   const tabDepth = baseSize * 0.12;
 
-  const vertices: THREE.Vector3[] = [];
+  // Triangles tilt up from the base until their apexes meet over the centre
+  const half2 = (baseSize / 2) * (baseSize / 2);
+  const sideAngle = Math.PI - Math.atan2(height, baseSize / 2);
+  // Tabs turn through the angle between neighbouring face normals
+  const tabAngle = Math.acos(half2 / (half2 + height * height));
+
+  const vertices: PatternVertex[] = [];
   const foldLines: FoldLine[] = [];
-  const faces: number[][] = [];
+  const faces: PatternFace[] = [];
 
   const half = baseSize / 2;
 
@@ -306,64 +372,56 @@ export function generatePyramidPattern(config: PatternConfig): FoldPattern {
   const apexLeft = v2(-half - slantHeight, 0);
   const apexRight = v2(half + slantHeight, 0);
 
-  vertices.push(
-    baseBL, baseBR, baseTR, baseTL,  // 0-3
-    apexFront, apexBack, apexLeft, apexRight,  // 4-7
-  );
-
-  faces.push(
-    [0, 1, 2, 3],  // base
-    [3, 2, 4],     // front triangle
-    [1, 0, 5],     // back triangle
-    [0, 3, 6],     // left triangle
-    [2, 1, 7],     // right triangle
-  );
+  addFace(vertices, faces, { id: 'base', role: 'base' }, [baseBL, baseBR, baseTR, baseTL]);
+  addFace(vertices, faces, { id: 'front', role: 'front' }, [baseTL, baseTR, apexFront]);
+  addFace(vertices, faces, { id: 'back', role: 'back' }, [baseBR, baseBL, apexBack]);
+  addFace(vertices, faces, { id: 'left', role: 'left' }, [baseBL, baseTL, apexLeft]);
+  addFace(vertices, faces, { id: 'right', role: 'right' }, [baseTR, baseBR, apexRight]);
 
   // ==========================================================================
   // CUT LINES (Outer perimeter of triangles)
   // ==========================================================================
 
-  foldLines.push(fold(baseTL, apexFront, 'cut'));
-  foldLines.push(fold(apexFront, baseTR, 'cut'));
-
-  foldLines.push(fold(baseBR, apexBack, 'cut'));
-  foldLines.push(fold(apexBack, baseBL, 'cut'));
-
-  foldLines.push(fold(baseTL, apexLeft, 'cut'));
-  foldLines.push(fold(apexLeft, baseBL, 'cut'));
-
-  foldLines.push(fold(baseTR, apexRight, 'cut'));
-  foldLines.push(fold(apexRight, baseBR, 'cut'));
+  // One edge of each triangle carries a tab and is cut around the tab instead
+  foldLines.push(fold(apexFront, baseTR, 'cut', { id: 'front-right-edge', role: 'perimeter' }));
+  foldLines.push(fold(apexBack, baseBL, 'cut', { id: 'back-left-edge', role: 'perimeter' }));
+  foldLines.push(fold(baseTL, apexLeft, 'cut', { id: 'left-front-edge', role: 'perimeter' }));
+  foldLines.push(fold(apexRight, baseBR, 'cut', { id: 'right-back-edge', role: 'perimeter' }));
 
   // ==========================================================================
   // FOLD LINES (Base edges - all mountain folds)
   // ==========================================================================
 
-  foldLines.push(fold(baseTL, baseTR, 'mountain'));  // front edge
-  foldLines.push(fold(baseBL, baseBR, 'mountain'));  // back edge
-  foldLines.push(fold(baseBL, baseTL, 'mountain'));  // left edge
-  foldLines.push(fold(baseBR, baseTR, 'mountain'));  // right edge
+  foldLines.push(fold(baseTL, baseTR, 'mountain', { id: 'base-front-fold', role: 'panel-fold', angle: sideAngle }));
+  foldLines.push(fold(baseBL, baseBR, 'mountain', { id: 'base-back-fold', role: 'panel-fold', angle: sideAngle }));
+  foldLines.push(fold(baseBL, baseTL, 'mountain', { id: 'base-left-fold', role: 'panel-fold', angle: sideAngle }));
+  foldLines.push(fold(baseBR, baseTR, 'mountain', { id: 'base-right-fold', role: 'panel-fold', angle: sideAngle }));
 
   // ==========================================================================
   // LOCKING TABS (On alternating triangle edges)
   // ==========================================================================
 
   // Tab on front-left edge (tucks under left triangle)
-  const frontLeftTab = generateLockingTab(baseTL, apexFront, tabDepth, false);
+  const frontLeftTab = generateLockingTab('front-left-tab', baseTL, apexFront, tabDepth, true, tabAngle);
   foldLines.push(...frontLeftTab.foldLines);
 
   // Tab on back-right edge (tucks under right triangle)
-  const backRightTab = generateLockingTab(baseBR, apexBack, tabDepth, true);
+  const backRightTab = generateLockingTab('back-right-tab', baseBR, apexBack, tabDepth, true, tabAngle);
   foldLines.push(...backRightTab.foldLines);
 
   // Tab on left-back edge (tucks under back triangle)
-  const leftBackTab = generateLockingTab(apexLeft, baseBL, tabDepth, false);
+  const leftBackTab = generateLockingTab('left-back-tab', apexLeft, baseBL, tabDepth, false, tabAngle);
   foldLines.push(...leftBackTab.foldLines);
 
   // Tab on right-front edge (tucks under front triangle)
-  const rightFrontTab = generateLockingTab(apexRight, baseTR, tabDepth, true);
+  const rightFrontTab = generateLockingTab('right-front-tab', apexRight, baseTR, tabDepth, false, tabAngle);
   foldLines.push(...rightFrontTab.foldLines);
 
+  addFace(vertices, faces, { id: 'front-left-tab', role: 'locking-tab' }, frontLeftTab.vertices);
+  addFace(vertices, faces, { id: 'back-right-tab', role: 'locking-tab' }, backRightTab.vertices);
+  addFace(vertices, faces, { id: 'left-back-tab', role: 'locking-tab' }, leftBackTab.vertices);
+  addFace(vertices, faces, { id: 'right-front-tab', role: 'locking-tab' }, rightFrontTab.vertices);
+
   return {
     name: 'Pyramid (Glue-Free)',
     vertices,
@@ -372,6 +430,555 @@ export function generatePyramidPattern(config: PatternConfig): FoldPattern {
   };
 }
 
+// =============================================================================
+// FRUSTUM PATTERN - Tapered Tray or Sleeve with Rim Flanges
+// =============================================================================
+
+export const FRUSTUM = {
+  defaultTopScale: 1.25,   // Top opening, of the base, when not given
+  minTop: 0.5,             // Smallest top side (cm); a point would make a pyramid
+  tabRatio: 0.12,          // Corner tab depth, of the shorter base side
+  tabReach: 0.8,           // Deepest corner tab, of its edge's length
+  minTab: 0.1,             // Shallowest corner tab (cm); a shallower one is left off and the edge cut
+  flangeReach: 0.5,        // Widest flange on a sleeve narrowing upward, of the way from its top to where its sides meet
+  mitre: (3 * Math.PI) / 4,  // Flange end angle that closes the rim at a corner
+} as const;
+
+/**
+ * One wall of a frustum, named by the base edge it stands on
+ */
+interface FrustumWall {
+  id: 'front' | 'right' | 'back' | 'left';
+  bottom: number;          // Bottom edge length
+  top: number;             // Top edge length
+  run: number;             // Horizontal distance the top edge stands out past the bottom
+}
+
+/**
+ * Top opening of a frustum; defaults to the base scaled by FRUSTUM.defaultTopScale
+ */
+export function frustumTop(config: PatternConfig): { width: number; depth: number } {
+  return {
+    width: Math.max(config.topWidth ?? config.width * FRUSTUM.defaultTopScale, FRUSTUM.minTop),
+    depth: Math.max(config.topDepth ?? config.depth * FRUSTUM.defaultTopScale, FRUSTUM.minTop),
+  };
+}
+
+/**
+ * Wall standing on edge a-b, laid flat to the left of a→b:
+ * [a, b, top corner over b, top corner over a]
+ */
+function frustumWallPolygon(a: THREE.Vector3, b: THREE.Vector3, wall: FrustumWall, height: number): THREE.Vector3[] {
+  const u = b.clone().sub(a).normalize();
+  const n = new THREE.Vector3(-u.z, 0, u.x);
+  const slant = Math.hypot(height, wall.run);
+  const spread = (wall.top - wall.bottom) / 2;
+  return [
+    a.clone(),
+    b.clone(),
+    b.clone().addScaledVector(n, slant).addScaledVector(u, spread),
+    a.clone().addScaledVector(n, slant).addScaledVector(u, -spread),
+  ];
+}
+
+/**
+ * Generate a tapered tray (base, four trapezoid walls) or, with
+ * `openBottom`, a bottomless sleeve. Base and top are independent
+ * rectangles; `flange` adds a mitred rim that folds out flat.
+ *
+ * Tray layout: walls unfold from the base, one tab per corner.
+ * Sleeve layout: walls in a row, joined along their slanted edges and
+ * closed by a tab on the last wall.
+ */
+export function generateFrustumPattern(config: PatternConfig): FoldPattern {
+  const { width, depth, height } = config;
+  const top = frustumTop(config);
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  // Front and back walls run along the width, left and right along the depth
+  const runZ = (top.depth - depth) / 2;
+  const runX = (top.width - width) / 2;
+  const walls: FrustumWall[] = [
+    { id: 'front', bottom: width, top: top.width, run: runZ },
+    { id: 'right', bottom: depth, top: top.depth, run: runX },
+    { id: 'back', bottom: width, top: top.width, run: runZ },
+    { id: 'left', bottom: depth, top: top.depth, run: runX },
+  ];
+  const slantZ = Math.hypot(height, runZ);
+  const slantX = Math.hypot(height, runX);
+
+  // A sleeve narrowing upward fans out on the sheet with its tops inward;
+  // its flanges stop short of where each wall's sides would meet
+  const flangeRoom = config.openBottom
+    ? Math.min(...walls.map(wall => wall.top < wall.bottom
+      ? FRUSTUM.flangeReach * Math.hypot(height, wall.run) * wall.top / (wall.bottom - wall.top)
+      : Infinity))
+    : Infinity;
+  const flange = Math.min(Math.max(config.flange ?? 0, 0), flangeRoom);
+
+  // Turn between neighbouring wall normals, for corner folds and tabs
+  const cornerAngle = Math.acos(THREE.MathUtils.clamp((runZ * runX) / (slantZ * slantX), -1, 1));
+
+  // Flat gap between neighbouring walls at a base corner; a tray's corner
+  // tabs must fit in it. No tab reaches most of its edge's length, or on a
+  // low wall it runs past the neighbour's top corner into its rim.
+  const gap = Math.PI / 2 - Math.atan2(runX, slantZ) - Math.atan2(runZ, slantX);
+  const tabDepthFor = (edgeLength: number, inGap: boolean) => {
+    const tabDepth = Math.min(width * FRUSTUM.tabRatio, depth * FRUSTUM.tabRatio, edgeLength * FRUSTUM.tabReach);
+    if (!inGap || gap >= Math.PI / 2) return tabDepth;
+    // The tip's near corner is inset 15% along the edge
+    return Math.min(tabDepth, edgeLength * 0.15 * Math.tan(gap * 0.8));
+  };
+
+  /**
+   * Tab on the slanted edge from `a` to `aTop`, pointing away from the wall
+   * and made shallower until it clears the given faces; a plain cut when the
+   * tab would be too shallow to hold
+   */
+  const addCornerTab = (id: string, a: THREE.Vector3, aTop: THREE.Vector3, wall: THREE.Vector3[], inGap: boolean, clear: THREE.Vector3[][] = []) => {
+    const dir = aTop.clone().sub(a);
+    const center = polygonCentroid(wall);
+    const inward = new THREE.Vector3(-dir.z, 0, dir.x).dot(center.sub(a)) < 0;
+
+    let tabDepth = tabDepthFor(dir.length(), inGap);
+    let tab = generateLockingTab(id, a, aTop, tabDepth, inward, cornerAngle);
+    while (tabDepth >= FRUSTUM.minTab && clear.some(polygon => polygonIntersection(tab.vertices, polygon).area > NET_OVERLAP.areaTolerance)) {
+      tabDepth *= 0.8;
+      tab = generateLockingTab(id, a, aTop, tabDepth, inward, cornerAngle);
+    }
+    if (tabDepth < FRUSTUM.minTab) {
+      foldLines.push(fold(a, aTop, 'cut', { id: `${id}-edge`, role: 'perimeter' }));
+      return;
+    }
+
+    foldLines.push(...tab.foldLines);
+    addFace(vertices, faces, { id, role: 'locking-tab' }, tab.vertices);
+  };
+
+  /**
+   * Rim of a wall: a flange that folds back to horizontal, or a cut. The
+   * flange's ends leave its top edge at the given angles; an end narrower
+   * than a mitre lies on the next flange's end, and the two are parted by
+   * one slit drawn with the second flange, unless the end is free.
+   */
+  const addRim = (
+    wall: FrustumWall,
+    polygon: THREE.Vector3[],
+    ends: [number, number] = [FRUSTUM.mitre, FRUSTUM.mitre],
+    free: [boolean, boolean] = [false, false]
+  ) => {
+    const [, , bTop, aTop] = polygon;
+    if (flange <= 0) {
+      foldLines.push(fold(aTop, bTop, 'cut', { id: `${wall.id}-top-edge`, role: 'perimeter' }));
+      return;
+    }
+
+    const u = bTop.clone().sub(aTop).normalize();
+    const n = new THREE.Vector3(-u.z, 0, u.x);
+    const aOut = aTop.clone().addScaledVector(n, flange).addScaledVector(u, flange / Math.tan(ends[0]));
+    const bOut = bTop.clone().addScaledVector(n, flange).addScaledVector(u, -flange / Math.tan(ends[1]));
+    const id = `${wall.id}-flange`;
+
+    const shared = ends.map((angle, k) => !free[k] && angle < FRUSTUM.mitre - 1e-9);
+
+    foldLines.push(fold(aTop, bTop, 'valley', { id: `${id}-fold`, role: 'panel-fold', angle: Math.atan2(height, wall.run) }));
+    if (!shared[1]) foldLines.push(fold(bTop, bOut, 'cut', { id: `${id}-mitre-b`, role: 'perimeter' }));
+    foldLines.push(fold(bOut, aOut, 'cut', { id: `${id}-edge`, role: 'perimeter' }));
+    foldLines.push(fold(aOut, aTop, 'cut', { id: `${id}-mitre-a`, role: shared[0] ? 'slit' : 'perimeter' }));
+    addFace(vertices, faces, { id, role: 'flange' }, [aTop, bTop, bOut, aOut]);
+  };
+
+  if (!config.openBottom) {
+    // ========================================================================
+    // TRAY (walls around the base)
+    // ========================================================================
+
+    const halfW = width / 2;
+    const halfD = depth / 2;
+    const corners = {
+      front: [v2(-halfW, halfD), v2(halfW, halfD)],
+      right: [v2(halfW, halfD), v2(halfW, -halfD)],
+      back: [v2(halfW, -halfD), v2(-halfW, -halfD)],
+      left: [v2(-halfW, -halfD), v2(-halfW, halfD)],
+    };
+
+    addFace(vertices, faces, { id: 'base', role: 'base' }, [v2(-halfW, -halfD), v2(halfW, -halfD), v2(halfW, halfD), v2(-halfW, halfD)]);
+
+    const polygons = walls.map(wall => {
+      const [a, b] = corners[wall.id];
+      const polygon = frustumWallPolygon(a, b, wall, height);
+      addFace(vertices, faces, { id: wall.id, role: wall.id }, polygon);
+      foldLines.push(fold(a, b, 'mountain', { id: `base-${wall.id}-fold`, role: 'panel-fold', angle: Math.atan2(height, wall.run) }));
+      return polygon;
+    });
+
+    // Each wall carries the tab at its first corner and is cut at its second
+    walls.forEach((wall, i) => {
+      const [a, b, bTop, aTop] = polygons[i];
+      addCornerTab(`${wall.id}-corner-tab`, a, aTop, polygons[i], true);
+      foldLines.push(fold(b, bTop, 'cut', { id: `${wall.id}-side-edge`, role: 'perimeter' }));
+      addRim(wall, polygons[i]);
+    });
+
+    return {
+      name: 'Tapered Tray (Glue-Free)',
+      vertices,
+      foldLines,
+      faces,
+    };
+  }
+
+  // ==========================================================================
+  // SLEEVE (walls in a row, each hinged to the last along a slanted edge)
+  // ==========================================================================
+
+  const polygons: THREE.Vector3[][] = [];
+  walls.forEach((wall, i) => {
+    if (i === 0) {
+      polygons.push(frustumWallPolygon(v2(0, 0), v2(wall.bottom, 0), wall, height));
+      return;
+    }
+
+    // Turn the wall so its first slanted edge lies on the last wall's second one
+    const [, prevB, prevBTop] = polygons[i - 1];
+    const local = frustumWallPolygon(v2(0, 0), v2(wall.bottom, 0), wall, height);
+    const turn = Math.atan2(prevBTop.z - prevB.z, prevBTop.x - prevB.x) - Math.atan2(local[3].z, local[3].x);
+    const rotation = new THREE.Matrix4().makeRotationY(-turn);
+    polygons.push(local.map(p => p.applyMatrix4(rotation).add(prevB)));
+  });
+
+  // Joined walls leave less than two mitres' room at their shared top corner
+  const topAngle = ([a, b, bTop, aTop]: THREE.Vector3[], end: 'a' | 'b') => end === 'a'
+    ? bTop.clone().sub(aTop).angleTo(a.clone().sub(aTop))
+    : aTop.clone().sub(bTop).angleTo(b.clone().sub(bTop));
+  const jointEnd = (prev: number, next: number) =>
+    Math.min(FRUSTUM.mitre, (2 * Math.PI - topAngle(polygons[prev], 'b') - topAngle(polygons[next], 'a')) / 2);
+  // The seam's flanges meet like the others once folded; cut apart on the
+  // sheet, the same ends keep them clear of each other where the walls curl round
+  const last = walls.length - 1;
+  const seamEnd = jointEnd(last, 0);
+
+  walls.forEach((wall, i) => {
+    const polygon = polygons[i];
+    const [a, b, , aTop] = polygon;
+    addFace(vertices, faces, { id: wall.id, role: wall.id }, polygon);
+    foldLines.push(fold(a, b, 'cut', { id: `${wall.id}-bottom-edge`, role: 'perimeter' }));
+
+    if (i > 0) {
+      foldLines.push(fold(a, aTop, 'mountain', { id: `${walls[i - 1].id}-${wall.id}-fold`, role: 'panel-fold', angle: cornerAngle }));
+    } else {
+      foldLines.push(fold(a, aTop, 'cut', { id: `${wall.id}-side-edge`, role: 'perimeter' }));
+    }
+    addRim(wall, polygon, [
+      i > 0 ? jointEnd(i - 1, i) : seamEnd,
+      i < last ? jointEnd(i, i + 1) : seamEnd,
+    ], [i === 0, i === last]);
+  });
+
+  // A sleeve's walls fan out on the sheet and may curl back round toward
+  // the first one, so the seam tab is fitted against them
+  const [, lastB, lastBTop] = polygons[last];
+  const placed = faces.map(face => face.vertices.map(i => vertices[i].position));
+  addCornerTab('seam-tab', lastB, lastBTop, polygons[last], false, placed);
+
+  return {
+    name: 'Tapered Sleeve (Glue-Free)',
+    vertices,
+    foldLines,
+    faces,
+  };
+}
+
+// =============================================================================
+// MATCHBOX - Drawer Tray and Sliding Sleeve
+// =============================================================================
+
+export const MATCHBOX = {
+  maxDividers: 4,
+  drawnOut: 0.5,    // Tray length left out of the sleeve in the assembled view, so both show
+} as const;
+
+/**
+ * Tray, sleeve and divider sizes for a matchbox, in cm. The config gives
+ * the tray's outside; the sleeve's inside is that plus a sliding gap on
+ * every side, and dividers wedge across the tray's inside.
+ *
+ * Stack-up: folds are drawn on the middle of the material, so a panel
+ * between two folds measures one thickness more than the inside it
+ * encloses and one less than its outside.
+ */
+export function matchboxSizes(config: PatternConfig) {
+  const t = config.thickness / SHEET.mmPerUnit;
+  const gap = t * ASSEMBLY_MECHANICS.slidingFit.coefficient;
+  const interference = t * ASSEMBLY_MECHANICS.interferenceFit.coefficient;
+  const inside = { width: config.width + 2 * gap, height: config.height + 2 * gap };
+  return {
+    thickness: t,
+    gap,
+    tray: {
+      base: { width: config.width - t, depth: config.depth - t },
+      wall: config.height - t / 2,     // The base's middle sits half a thickness above the bottom
+      inside: { width: config.width - 2 * t, depth: config.depth - 2 * t, height: config.height - t },
+    },
+    sleeve: {
+      inside,
+      panel: { width: inside.width + t, height: inside.height + t },
+      outside: { width: inside.width + 2 * t, height: inside.height + 2 * t },
+      length: config.depth,
+    },
+    divider: {
+      width: config.width - 2 * t + 2 * interference,
+      height: config.height - t,       // Flush with the rim
+    },
+    dividers: THREE.MathUtils.clamp(Math.round(config.dividers ?? 0), 0, MATCHBOX.maxDividers),
+  };
+}
+
+/**
+ * Flat card standing across the tray; a shade wider than the inside so it
+ * holds by friction
+ */
+function generateDividerPattern(width: number, height: number): FoldPattern {
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const corners = [v2(-width / 2, -height / 2), v2(width / 2, -height / 2), v2(width / 2, height / 2), v2(-width / 2, height / 2)];
+  (['bottom', 'right', 'top', 'left'] as const).forEach((side, k) => {
+    foldLines.push(fold(corners[k], corners[(k + 1) % 4], 'cut', { id: `divider-${side}-edge`, role: 'perimeter' }));
+  });
+  addFace(vertices, faces, { id: 'divider', role: 'divider' }, corners);
+
+  return { name: 'Matchbox Divider', vertices, foldLines, faces };
+}
+
+/**
+ * Generate a matchbox: an open tray, a sleeve it slides into and optional
+ * cross dividers. Tray and sleeve come from the frustum generator with
+ * straight walls; the sleeve's axis is its height, so it folds lying along
+ * the tray. The tray is placed half drawn out of the sleeve.
+ */
+export function generateMatchboxAssembly(config: PatternConfig): Assembly {
+  const sizes = matchboxSizes(config);
+  const { tray, sleeve, divider, thickness: t } = sizes;
+
+  const trayPattern = generateFrustumPattern({
+    ...config,
+    width: tray.base.width,
+    depth: tray.base.depth,
+    height: tray.wall,
+    topWidth: tray.base.width,
+    topDepth: tray.base.depth,
+    flange: 0,
+    openBottom: false,
+  });
+  const sleevePattern = generateFrustumPattern({
+    ...config,
+    width: sleeve.panel.width,
+    depth: sleeve.panel.height,
+    height: sleeve.length,
+    topWidth: sleeve.panel.width,
+    topDepth: sleeve.panel.height,
+    flange: 0,
+    openBottom: true,
+  });
+
+  // Both fold resting on the middle of their bottom panel; the sleeve's sits a gap and a thickness lower
+  const parts = [
+    createPart('tray', { ...trayPattern, name: 'Matchbox Tray (Glue-Free)' }),
+    createPart(
+      'sleeve',
+      { ...sleevePattern, name: 'Matchbox Sleeve (Glue-Free)' },
+      new THREE.Vector3(0, -(t + sizes.gap), sleeve.length * MATCHBOX.drawnOut)
+    ),
+  ];
+
+  // Stood up from the sheet, spaced evenly along the tray
+  const dividerPattern = generateDividerPattern(divider.width, divider.height);
+  for (let k = 1; k <= sizes.dividers; k++) {
+    parts.push(createPart(
+      `divider-${k}`,
+      dividerPattern,
+      new THREE.Vector3(0, t / 2 + divider.height / 2, -tray.inside.depth / 2 + (k * tray.inside.depth) / (sizes.dividers + 1)),
+      new THREE.Euler(-Math.PI / 2, 0, 0)
+    ));
+  }
+
+  return { name: 'Matchbox (Glue-Free)', parts };
+}
+
+// =============================================================================
+// TELESCOPE - Lid and Base Box with Optional Double Walls
+// =============================================================================
+
+export const TELESCOPE = {
+  defaultLidRatio: 0.4,   // Lid height, of the base height, when not given
+  minLid: 0.5,            // Shortest lid wall (cm)
+  tabRatio: 0.2,          // Corner tab depth, of the shorter side (at most the tab's length)
+  minTurnIn: 1,           // Thicknesses of inner wall width and tab length a double wall needs, or it stays single
+  minOpening: 0.5,        // Base inside, of its shorter side, the material must leave open (limits thickness)
+  liftedOff: 0.75,        // Lid height raised off the base in the assembled view, so both show
+} as const;
+
+/**
+ * Base and lid sizes of a telescoping box, in cm. The config gives the
+ * base's outside; the lid's inside is that plus the interference fit
+ * tolerance on every side.
+ *
+ * Stack-up: each corner tab tucks inside the neighbouring wall, one
+ * thickness in from it, so a single wall is two layers deep at its corner
+ * and a double wall (outer wall, tab, inner wall) three. A part's inside is
+ * its outside less those layers on both sides; folds are drawn on the
+ * material's mid-plane, half a thickness in from the outside.
+ */
+export function telescopeSizes(config: PatternConfig) {
+  const t = config.thickness / SHEET.mmPerUnit;
+  const tolerance = t * ASSEMBLY_MECHANICS.interferenceFit.coefficient;
+  const walls = config.doubleWall ?? 'none';
+  const layers = (double: boolean) => (double ? 3 : 2);
+
+  const part = (outside: { width: number; depth: number }, height: number, double: boolean) => ({
+    outside: { ...outside, height },
+    inside: {
+      width: outside.width - 2 * layers(double) * t,
+      depth: outside.depth - 2 * layers(double) * t,
+      height: height - t,
+    },
+    panel: { width: outside.width - t, depth: outside.depth - t },
+    double,
+  });
+
+  // A double wall needs room for its rim and inner wall, which end 2.5 thicknesses
+  // in from each corner, and for a corner tab under the rim; otherwise it stays single
+  const fitsDouble = (outside: { width: number; depth: number }, height: number) =>
+    Math.min(outside.width, outside.depth) - t - 5 * t >= TELESCOPE.minTurnIn * t &&
+    height - 2 * t >= TELESCOPE.minTurnIn * t;
+  const lidInside = { width: config.width + 2 * tolerance, depth: config.depth + 2 * tolerance };
+  const lidOutside = (double: boolean) => ({
+    width: lidInside.width + 2 * layers(double) * t,
+    depth: lidInside.depth + 2 * layers(double) * t,
+  });
+  // A full telescope covers the base down to the table
+  const lidHeight = THREE.MathUtils.clamp(config.lidHeight ?? config.height * TELESCOPE.defaultLidRatio, TELESCOPE.minLid, config.height + t);
+
+  const baseDouble = (walls === 'base' || walls === 'both') && fitsDouble(config, config.height);
+  const lidDouble = (walls === 'lid' || walls === 'both') && fitsDouble(lidOutside(true), lidHeight);
+
+  return {
+    thickness: t,
+    tolerance,
+    base: part({ width: config.width, depth: config.depth }, config.height, baseDouble),
+    lid: part(lidOutside(lidDouble), lidHeight, lidDouble),
+  };
+}
+
+/**
+ * One part of a telescoping box: a panel with four walls, each carrying a
+ * corner tab that tucks inside its neighbour. A double wall folds over a
+ * rim two thicknesses wide into an inner wall that pins the tab against the
+ * outer wall and stands on the panel.
+ */
+function generateTelescopePart(
+  name: string,
+  role: 'base' | 'top',
+  part: ReturnType<typeof telescopeSizes>['base'],
+  t: number
+): FoldPattern {
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const halfW = part.panel.width / 2;
+  const halfD = part.panel.depth / 2;
+  const rim = 2 * t;
+  // Mid-plane heights: a single wall ends free at the top, a double wall in the rim's middle
+  const wallHeight = part.double ? part.outside.height - t : part.outside.height - t / 2;
+  const innerHeight = wallHeight - t / 2;
+  // No deeper than the tab is long, or on a low wall its tapered side runs along the neighbour's edge
+  const tabLength = part.double ? wallHeight - t : wallHeight;
+  const tabDepth = Math.min(Math.min(part.panel.width, part.panel.depth) * TELESCOPE.tabRatio, tabLength);
+
+  addFace(vertices, faces, { id: role, role }, [v2(-halfW, -halfD), v2(halfW, -halfD), v2(halfW, halfD), v2(-halfW, halfD)]);
+
+  const walls = [
+    { id: 'front', a: v2(-halfW, halfD), b: v2(halfW, halfD) },
+    { id: 'right', a: v2(halfW, halfD), b: v2(halfW, -halfD) },
+    { id: 'back', a: v2(halfW, -halfD), b: v2(-halfW, -halfD) },
+    { id: 'left', a: v2(-halfW, -halfD), b: v2(-halfW, halfD) },
+  ] as const;
+
+  walls.forEach(({ id, a, b }) => {
+    const u = b.clone().sub(a).normalize();
+    const n = new THREE.Vector3(-u.z, 0, u.x);
+    const at = (along: number, out: number) => a.clone().addScaledVector(u, along).addScaledVector(n, out);
+    const length = a.distanceTo(b);
+
+    // Stop one thickness short of the tab corner, so the tab lies inside the neighbour
+    const wall = [at(t, 0), b.clone(), at(length, wallHeight), at(t, wallHeight)];
+    addFace(vertices, faces, { id, role: id }, wall);
+    foldLines.push(fold(a, wall[0], 'cut', { id: `${role}-${id}-notch`, role: 'perimeter' }));
+    foldLines.push(fold(wall[0], b, 'mountain', { id: `${role}-${id}-fold`, role: 'panel-fold' }));
+    foldLines.push(fold(b, wall[2], 'cut', { id: `${id}-side-edge`, role: 'perimeter' }));
+
+    // A double wall's rim covers the tab's top
+    const tabTop = part.double ? at(t, wallHeight - t) : wall[3];
+    const tab = generateLockingTab(`${id}-corner-tab`, wall[0], tabTop, tabDepth, true, Math.PI / 2);
+    foldLines.push(...tab.foldLines);
+    addFace(vertices, faces, { id: `${id}-corner-tab`, role: 'locking-tab' }, tab.vertices);
+
+    if (!part.double) {
+      foldLines.push(fold(wall[2], wall[3], 'cut', { id: `${id}-top-edge`, role: 'perimeter' }));
+      return;
+    }
+    foldLines.push(fold(tabTop, wall[3], 'cut', { id: `${id}-tab-edge`, role: 'perimeter' }));
+
+    // Rim and inner wall end half a thickness clear of the neighbouring inner walls
+    const start = rim + t / 2;
+    const end = length - rim - t / 2;
+    const rimStrip = [wall[3], wall[2], at(end, wallHeight + rim), at(start, wallHeight + rim)];
+    const inner = [rimStrip[3], rimStrip[2], at(end, wallHeight + rim + innerHeight), at(start, wallHeight + rim + innerHeight)];
+    addFace(vertices, faces, { id: `${id}-rim`, role: 'rim' }, rimStrip);
+    addFace(vertices, faces, { id: `${id}-inner-wall`, role: 'inner-wall' }, inner);
+
+    foldLines.push(fold(wall[3], wall[2], 'mountain', { id: `${id}-rim-fold`, role: 'panel-fold' }));
+    foldLines.push(fold(wall[2], rimStrip[2], 'cut', { id: `${id}-rim-end-b`, role: 'perimeter' }));
+    foldLines.push(fold(rimStrip[3], wall[3], 'cut', { id: `${id}-rim-end-a`, role: 'perimeter' }));
+    foldLines.push(fold(rimStrip[3], rimStrip[2], 'mountain', { id: `${id}-inner-fold`, role: 'panel-fold' }));
+    foldLines.push(fold(inner[1], inner[2], 'cut', { id: `${id}-inner-side-b`, role: 'perimeter' }));
+    foldLines.push(fold(inner[2], inner[3], 'cut', { id: `${id}-inner-edge`, role: 'perimeter' }));
+    foldLines.push(fold(inner[3], inner[0], 'cut', { id: `${id}-inner-side-a`, role: 'perimeter' }));
+  });
+
+  return { name, vertices, foldLines, faces };
+}
+
+/**
+ * Generate a telescoping box: a base and a lid that slides down over it,
+ * either with single or double walls. The lid folds like the base and is
+ * turned over onto it, raised partway off so both show.
+ */
+export function generateTelescopeAssembly(config: PatternConfig): Assembly {
+  const sizes = telescopeSizes(config);
+  const { base, lid, thickness: t } = sizes;
+
+  // The lid's top rests on the base's rim when closed: its middle is at the base's outside height
+  return {
+    name: 'Telescoping Lid Box (Glue-Free)',
+    parts: [
+      createPart('base', generateTelescopePart('Telescoping Box Base (Glue-Free)', 'base', base, t)),
+      createPart(
+        'lid',
+        generateTelescopePart('Telescoping Box Lid (Glue-Free)', 'top', lid, t),
+        new THREE.Vector3(0, base.outside.height + lid.outside.height * TELESCOPE.liftedOff, 0),
+        new THREE.Euler(Math.PI, 0, 0)
+      ),
+    ],
+  };
+}
+
 // =============================================================================
 // ENVELOPE PATTERN - Classic Fold-Lock Design
 // =============================================================================
@@ -394,9 +1001,9 @@ export function generateEnvelopePattern(config: PatternConfig): FoldPattern {
   const topFlapDepth = depth * 0.35;
   const bottomFlapDepth = depth * 0.3;
 
-  const vertices: THREE.Vector3[] = [];
+  const vertices: PatternVertex[] = [];
   const foldLines: FoldLine[] = [];
-  const faces: number[][] = [];
+  const faces: PatternFace[] = [];
 
   const hw = bodyWidth / 2;
   const hd = bodyDepth / 2;
@@ -419,48 +1026,42 @@ export function generateEnvelopePattern(config: PatternConfig): FoldPattern {
   // Right flap (triangular)
   const rightApex = v2(hw + flapDepth, 0);
 
-  vertices.push(
-    bodyBL, bodyBR, bodyTR, bodyTL,  // 0-3
-    bottomApex, topApex, leftApex, rightApex,  // 4-7
-  );
-
-  faces.push(
-    [0, 1, 2, 3],  // main body
-    [0, 1, 4],     // bottom flap
-    [3, 2, 5],     // top flap
-    [0, 3, 6],     // left flap
-    [2, 1, 7],     // right flap
-  );
+  addFace(vertices, faces, { id: 'body', role: 'body' }, [bodyBL, bodyBR, bodyTR, bodyTL]);
+  addFace(vertices, faces, { id: 'bottom-flap', role: 'flap' }, [bodyBL, bodyBR, bottomApex]);
+  addFace(vertices, faces, { id: 'top-flap', role: 'flap' }, [bodyTL, bodyTR, topApex]);
+  addFace(vertices, faces, { id: 'left-flap', role: 'flap' }, [bodyBL, bodyTL, leftApex]);
+  addFace(vertices, faces, { id: 'right-flap', role: 'flap' }, [bodyTR, bodyBR, rightApex]);
 
   // ==========================================================================
   // CUT LINES (Outer perimeter)
   // ==========================================================================
 
   // Bottom flap edges
-  foldLines.push(fold(bodyBL, bottomApex, 'cut'));
-  foldLines.push(fold(bottomApex, bodyBR, 'cut'));
+  foldLines.push(fold(bodyBL, bottomApex, 'cut', { id: 'bottom-flap-left-edge', role: 'perimeter' }));
+  foldLines.push(fold(bottomApex, bodyBR, 'cut', { id: 'bottom-flap-right-edge', role: 'perimeter' }));
 
   // Top flap edges
-  foldLines.push(fold(bodyTL, topApex, 'cut'));
-  foldLines.push(fold(topApex, bodyTR, 'cut'));
+  foldLines.push(fold(bodyTL, topApex, 'cut', { id: 'top-flap-left-edge', role: 'perimeter' }));
+  foldLines.push(fold(topApex, bodyTR, 'cut', { id: 'top-flap-right-edge', role: 'perimeter' }));
 
   // Left flap edges
-  foldLines.push(fold(bodyBL, leftApex, 'cut'));
-  foldLines.push(fold(leftApex, bodyTL, 'cut'));
+  foldLines.push(fold(bodyBL, leftApex, 'cut', { id: 'left-flap-bottom-edge', role: 'perimeter' }));
+  foldLines.push(fold(leftApex, bodyTL, 'cut', { id: 'left-flap-top-edge', role: 'perimeter' }));
 
   // Right flap edges
-  foldLines.push(fold(bodyBR, rightApex, 'cut'));
-  foldLines.push(fold(rightApex, bodyTR, 'cut'));
+  foldLines.push(fold(bodyBR, rightApex, 'cut', { id: 'right-flap-bottom-edge', role: 'perimeter' }));
+  foldLines.push(fold(rightApex, bodyTR, 'cut', { id: 'right-flap-top-edge', role: 'perimeter' }));
 
   // ==========================================================================
   // FOLD LINES
   // ==========================================================================
 
-  // All body edges are valley folds (flaps fold inward/upward)
-  foldLines.push(fold(bodyBL, bodyBR, 'valley'));  // bottom edge
-  foldLines.push(fold(bodyTL, bodyTR, 'valley'));  // top edge
-  foldLines.push(fold(bodyBL, bodyTL, 'valley'));  // left edge
-  foldLines.push(fold(bodyBR, bodyTR, 'valley'));  // right edge
+  // All body edges are valley folds (flaps fold inward/upward).
+  // Flaps close almost flat, staggered slightly so they stack in fold order.
+  foldLines.push(fold(bodyBL, bodyBR, 'valley', { id: 'bottom-flap-fold', role: 'panel-fold', angle: Math.PI - 0.02 }));
+  foldLines.push(fold(bodyTL, bodyTR, 'valley', { id: 'top-flap-fold', role: 'panel-fold', angle: Math.PI - 0.06 }));
+  foldLines.push(fold(bodyBL, bodyTL, 'valley', { id: 'left-flap-fold', role: 'panel-fold', angle: Math.PI - 0.04 }));
+  foldLines.push(fold(bodyBR, bodyTR, 'valley', { id: 'right-flap-fold', role: 'panel-fold', angle: Math.PI - 0.04 }));
 
   // ==========================================================================
   // TUCK-IN SLIT (on top flap for locking)
@@ -472,7 +1073,8 @@ export function generateEnvelopePattern(config: PatternConfig): FoldPattern {
   foldLines.push(fold(
     v2(-slitWidth / 2, slitPos.z),
     v2(slitWidth / 2, slitPos.z),
-    'cut'
+    'cut',
+    { id: 'top-flap-slit', role: 'slit' }
   ));
 
   return {
@@ -484,82 +1086,211 @@ export function generateEnvelopePattern(config: PatternConfig): FoldPattern {
 }
 
 // =============================================================================
-// PRISM PATTERN - Hexagonal with Alternating Tabs
+// CAPS - Regular polygons hinged to a sleeve
 // =============================================================================
 
 /**
- * Generate a hexagonal prism pattern with alternating tabs.
- * Uses Kawasaki-Justin principle: alternating tabs ensure flat assembly.
+ * Regular polygon standing on a horizontal edge, on the side `outward`
+ * (+1 or -1 along Z) points to. Starts with the edge's two ends.
  */
-export function generatePrismPattern(config: PatternConfig): FoldPattern {
-  const { width, height } = config;
-  const radius = width / 2;
-  const tabDepth = radius * 0.15;
-
-  const vertices: THREE.Vector3[] = [];
-  const foldLines: FoldLine[] = [];
-  const faces: number[][] = [];
-
-  // Generate hexagon vertices
-  const hexPoints: THREE.Vector3[] = [];
-  for (let i = 0; i < 6; i++) {
-    const angle = (i * Math.PI) / 3 - Math.PI / 6;
-    hexPoints.push(v2(
-      Math.cos(angle) * radius,
-      Math.sin(angle) * radius
-    ));
+function regularPolygonOnEdge(
+  start: THREE.Vector3,
+  end: THREE.Vector3,
+  sides: number,
+  outward: number
+): THREE.Vector3[] {
+  const side = start.distanceTo(end);
+  const radius = side / (2 * Math.sin(Math.PI / sides));
+  const apothem = radius * Math.cos(Math.PI / sides);
+  const center = v2((start.x + end.x) / 2, start.z + outward * apothem);
+  const startAngle = Math.atan2(start.z - center.z, start.x - center.x);
+  const endAngle = Math.atan2(end.z - center.z, end.x - center.x);
+  const step = Math.sign(Math.sin(endAngle - startAngle)) * ((2 * Math.PI) / sides);
+
+  const polygon: THREE.Vector3[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = startAngle + i * step;
+    polygon.push(v2(center.x + radius * Math.cos(angle), center.z + radius * Math.sin(angle)));
   }
+  polygon[0] = start.clone();
+  polygon[1] = end.clone();
+  return polygon;
+}
+
+/**
+ * Whether side i of a cap (side 0 is the hinge) carries a tuck tab. Tabs
+ * sit on alternate sides; beside the hinge only while the cap's corners are
+ * blunt enough (six sides or fewer) to keep the tab off the sleeve.
+ */
+function isCapTabSide(i: number, sides: number): boolean {
+  if (i % 2 === 0) return false;
+  return sides <= 6 || (i !== 1 && i !== sides - 1);
+}
+
+/**
+ * Add a round cap: a regular polygon hinged on its first side, with plain
+ * sides cut as arcs of the circle through its corners and tuck tabs on the
+ * rest. The face follows the arcs' samples so it meets the cut outline.
+ */
+function addRoundCap(
+  vertices: PatternVertex[],
+  faces: PatternFace[],
+  foldLines: FoldLine[],
+  id: string,
+  polygon: THREE.Vector3[],
+  tabDepth: number,
+  foldAngle?: number
+): void {
+  const sides = polygon.length;
+  const center = polygonCentroid(polygon);
+  const radius = center.distanceTo(polygon[0]);
+
+  const capArc = (i: number): FoldLine => {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % sides];
+    const through = a.clone().add(b).multiplyScalar(0.5).sub(center).setLength(radius).add(center);
+    return arc(a, through, b, 'cut', { id: `${id}-edge-${i}`, role: 'perimeter' });
+  };
+
+  const outline = polygon.flatMap((p, i) =>
+    i === 0 || isCapTabSide(i, sides) ? [p] : curvePoints(capArc(i)).slice(0, -1)
+  );
+  addFace(vertices, faces, { id, role: 'cap' }, outline);
+
+  foldLines.push(fold(polygon[0], polygon[1], 'mountain', { id: `${id}-fold`, role: 'cap-fold', angle: foldAngle }));
 
-  // Base hexagon
-  vertices.push(...hexPoints);
-  faces.push([0, 1, 2, 3, 4, 5]);
+  for (let i = 1; i < sides; i++) {
+    if (!isCapTabSide(i, sides)) {
+      foldLines.push(capArc(i));
+      continue;
+    }
 
-  // Hex perimeter is the base
-  for (let i = 0; i < 6; i++) {
-    const next = (i + 1) % 6;
-    foldLines.push(fold(hexPoints[i], hexPoints[next], 'mountain'));
+    const a = polygon[i];
+    const b = polygon[(i + 1) % sides];
+    const dir = b.clone().sub(a);
+    const mid = a.clone().add(b).multiplyScalar(0.5);
+    const pointsOut = new THREE.Vector3(-dir.z, 0, dir.x).dot(mid.sub(center)) > 0;
+    const tab = generateLockingTab(`${id}-tab-${i}`, a, b, tabDepth, pointsOut, foldAngle);
+    foldLines.push(...tab.foldLines);
+    addFace(vertices, faces, { id: `${id}-tab-${i}`, role: 'locking-tab' }, tab.vertices);
   }
+}
+
+// =============================================================================
+// PRISM PATTERN - N-gon Sleeve with Tabbed Caps
+// =============================================================================
+
+export const PRISM = {
+  minSides: 3,
+  maxSides: 12,
+  defaultSides: 6,
+  tabRatio: 0.15,     // Tab depth, of the side length
+} as const;
+
+/**
+ * Cross-section of a prism: side count, side length and corner radius.
+ * Point-to-point sizing takes the width across the corners (the circumscribed
+ * circle), flat-to-flat across the flats (the inscribed circle); for odd
+ * side counts these are the circles' diameters.
+ */
+export function prismSection(config: PatternConfig): { sides: number; side: number; radius: number } {
+  const sides = THREE.MathUtils.clamp(Math.round(config.sides ?? PRISM.defaultSides), PRISM.minSides, PRISM.maxSides);
+  const radius = config.sizing === 'flat-to-flat'
+    ? config.width / 2 / Math.cos(Math.PI / sides)
+    : config.width / 2;
+  return { sides, side: 2 * radius * Math.sin(Math.PI / sides), radius };
+}
+
+/**
+ * Generate an N-sided prism as a sleeve of side panels with a tuck tab
+ * closing the seam. Base and lid hang off the same panel; their tab count
+ * follows the side count.
+ *
+ * Layout:
+ *              ┌──┐
+ *              │  │  ← Lid (hinged to one side panel)
+ *    ┌──┬──┬──┬┴──┴┬──┐
+ *    │  │  │  │    │  │▷  ← Side panels, closing tab
+ *    └──┴──┴──┴┬──┬┴──┘
+ *              │  │  ← Base (hinged to the same panel)
+ *              └──┘
+ */
+export function generatePrismPattern(config: PatternConfig): FoldPattern {
+  const { height } = config;
+  const { sides, side } = prismSection(config);
+  const exterior = (2 * Math.PI) / sides;
+  const tabDepth = side * PRISM.tabRatio;
+  const sleeveWidth = sides * side;
 
-  // Generate 6 rectangular side faces unfolded outward
-  for (let i = 0; i < 6; i++) {
-    const next = (i + 1) % 6;
-    const p1 = hexPoints[i];
-    const p2 = hexPoints[next];
-
-    // Direction outward from center
-    const mid = p1.clone().add(p2).multiplyScalar(0.5);
-    const outDir = mid.clone().normalize();
-
-    // Side face vertices
-    const s1 = p1.clone().add(outDir.clone().multiplyScalar(height));
-    const s2 = p2.clone().add(outDir.clone().multiplyScalar(height));
-
-    const vIdx = vertices.length;
-    vertices.push(s1, s2);
-    faces.push([i, next, vIdx + 1, vIdx]);
-
-    // Outer edge cut
-    foldLines.push(fold(s1, s2, 'cut'));
-
-    // Side edges - alternating: cut on even, tab on odd
-    if (i % 2 === 0) {
-      // Cut edges (will receive tabs from adjacent faces)
-      foldLines.push(fold(p1, s1, 'cut'));
-      if (i === 4) {
-        foldLines.push(fold(p2, s2, 'cut'));
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  // Both caps hang off the panel opposite the seam
+  const capPanel = Math.floor(sides / 2);
+  const capX0 = capPanel * side;
+  const capX1 = capX0 + side;
+
+  /**
+   * Add a cap with its hinge, perimeter cuts and tuck tabs
+   */
+  const addCap = (id: string, role: FaceRole, polygon: THREE.Vector3[]) => {
+    const center = polygonCentroid(polygon);
+    addFace(vertices, faces, { id, role }, polygon);
+    foldLines.push(fold(polygon[0], polygon[1], 'mountain', { id: `${id}-fold`, role: 'cap-fold' }));
+
+    for (let i = 1; i < sides; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % sides];
+      if (!isCapTabSide(i, sides)) {
+        foldLines.push(fold(a, b, 'cut', { id: `${id}-edge-${i}`, role: 'perimeter' }));
+        continue;
       }
-    } else {
-      // Tab edges
-      const tab = generateLockingTab(p1, s1, tabDepth, true);
+
+      const dir = b.clone().sub(a);
+      const mid = a.clone().add(b).multiplyScalar(0.5);
+      const pointsOut = new THREE.Vector3(-dir.z, 0, dir.x).dot(mid.sub(center)) > 0;
+      const tab = generateLockingTab(`${id}-tab-${i}`, a, b, tabDepth, pointsOut);
       foldLines.push(...tab.foldLines);
+      addFace(vertices, faces, { id: `${id}-tab-${i}`, role: 'locking-tab' }, tab.vertices);
+    }
+  };
+
+  // The base is the root face, so the folded prism stands on it
+  addCap('base', 'base', regularPolygonOnEdge(v2(capX0, 0), v2(capX1, 0), sides, -1));
+
+  // ==========================================================================
+  // SIDE PANELS
+  // ==========================================================================
+
+  for (let i = 0; i < sides; i++) {
+    const x0 = i * side;
+    const x1 = x0 + side;
+    addFace(vertices, faces, { id: `side-${i}`, role: 'side' }, [v2(x0, 0), v2(x1, 0), v2(x1, height), v2(x0, height)]);
+
+    if (i > 0) {
+      foldLines.push(fold(v2(x0, 0), v2(x0, height), 'mountain', { id: `side-${i}-fold`, role: 'panel-fold', angle: exterior }));
+    }
+    if (i !== capPanel) {
+      foldLines.push(fold(v2(x0, 0), v2(x1, 0), 'cut', { id: `side-${i}-bottom-edge`, role: 'perimeter' }));
+      foldLines.push(fold(v2(x0, height), v2(x1, height), 'cut', { id: `side-${i}-top-edge`, role: 'perimeter' }));
     }
   }
 
-  // Top hexagon (optional, as flap that tucks in)
-  // This would be connected to one of the sides
+  addCap('lid', 'top', regularPolygonOnEdge(v2(capX0, height), v2(capX1, height), sides, 1));
+
+  // ==========================================================================
+  // SEAM (tab on the last panel tucks inside the first)
+  // ==========================================================================
+
+  foldLines.push(fold(v2(0, 0), v2(0, height), 'cut', { id: 'side-0-left-edge', role: 'perimeter' }));
+
+  const seam = generateLockingTab('seam-tab', v2(sleeveWidth, 0), v2(sleeveWidth, height), tabDepth, false, exterior);
+  foldLines.push(...seam.foldLines);
+  addFace(vertices, faces, { id: 'seam-tab', role: 'locking-tab' }, seam.vertices);
 
   return {
-    name: 'Hexagonal Prism (Glue-Free)',
+    name: `${sides}-Sided Prism (Glue-Free)`,
     vertices,
     foldLines,
     faces,
@@ -571,19 +1302,20 @@ export function generatePrismPattern(config: PatternConfig): FoldPattern {
 // =============================================================================
 
 /**
- * Generate a true cylinder pattern (not polygonal approximation).
- * Uses a wrapped rectangle with vertical tab/slit for glue-free closure.
+ * Generate a cylinder pattern from a wrapped rectangle.
+ * Uses a vertical tab/slit for glue-free closure and hinged caps whose
+ * alternate edges carry tabs that tuck inside the body.
  *
  * Layout:
- *    ┌──────────────────┐
- *    │   TOP CIRCLE     │  ← Top cap with tabs
- *    ├──────────────────┤
+ *              ┌──┐
+ *              │  │  ← Top cap (hinged to one strip)
+ *    ┌─────────┴──┴─────┐
  *    │                  │
  *    │   BODY (rect)    │  ← Main cylinder body
  *    │                  │
- *    ├──────────────────┤
- *    │  BOTTOM CIRCLE   │  ← Bottom cap with tabs
- *    └──────────────────┘
+ *    └─────────┬──┬─────┘
+ *              │  │  ← Bottom cap (hinged to the same strip)
+ *              └──┘
  */
 export function generateCylinderPattern(config: PatternConfig): FoldPattern {
   const { width, height } = config;
@@ -591,9 +1323,14 @@ export function generateCylinderPattern(config: PatternConfig): FoldPattern {
   const circumference = 2 * Math.PI * radius;
   const tabDepth = radius * 0.15;
 
-  const vertices: THREE.Vector3[] = [];
+  const vertices: PatternVertex[] = [];
   const foldLines: FoldLine[] = [];
-  const faces: number[][] = [];
+  const bendLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  // The body curls as 12 strips; the caps are round between their hinge and tabs
+  const numSegments = 12;
+  const segmentAngle = (2 * Math.PI) / numSegments;
 
   // ==========================================================================
   // MAIN BODY (Rectangle that wraps around)
@@ -601,6 +1338,7 @@ export function generateCylinderPattern(config: PatternConfig): FoldPattern {
 
   const bodyWidth = circumference;
   const bodyHeight = height;
+  const stripWidth = bodyWidth / numSegments;
 
   // Body rectangle corners
   const bodyBL = v2(0, 0);
@@ -608,8 +1346,36 @@ export function generateCylinderPattern(config: PatternConfig): FoldPattern {
   const bodyTR = v2(bodyWidth, bodyHeight);
   const bodyTL = v2(0, bodyHeight);
 
-  vertices.push(bodyBL, bodyBR, bodyTR, bodyTL);
-  faces.push([0, 1, 2, 3]);
+  // Both caps hang off the same strip, away from the closure seam
+  const capStrip = numSegments / 2;
+  const capX0 = capStrip * stripWidth;
+  const capX1 = capX0 + stripWidth;
+
+  // ==========================================================================
+  // CAPS (round 12-gons whose sides match the body strips)
+  // ==========================================================================
+
+  // A cap side equals a strip width so the curled body closes around it
+  const bottomCap = regularPolygonOnEdge(v2(capX0, 0), v2(capX1, 0), numSegments, -1);
+  const topCap = regularPolygonOnEdge(v2(capX0, bodyHeight), v2(capX1, bodyHeight), numSegments, 1);
+
+  // The bottom cap is the root face, so the folded cylinder stands on it
+  addRoundCap(vertices, faces, foldLines, 'bottom-cap', bottomCap, tabDepth);
+
+  // The body is one unscored sheet; for 3D it curls as strips that match
+  // the cap sides, joined by bend lines rather than printed folds
+  for (let i = 0; i < numSegments; i++) {
+    const x0 = i * stripWidth;
+    const x1 = x0 + stripWidth;
+    addFace(vertices, faces, { id: `body-${i}`, role: 'body' },
+      [v2(x0, 0), v2(x1, 0), v2(x1, bodyHeight), v2(x0, bodyHeight)]);
+    if (i > 0) {
+      bendLines.push(fold(v2(x0, 0), v2(x0, bodyHeight), 'mountain',
+        { id: `body-bend-${i}`, role: 'bend', angle: segmentAngle }));
+    }
+  }
+
+  addRoundCap(vertices, faces, foldLines, 'top-cap', topCap, tabDepth);
 
   // ==========================================================================
   // CLOSURE TAB/SLIT (Vertical edge for wrapping)
@@ -631,126 +1397,1043 @@ export function generateCylinderPattern(config: PatternConfig): FoldPattern {
   const tabTipTL = v2(bodyWidth + tabDepth, tabEnd - taperInset);
 
   // Tab fold line (mountain - folds outward for insertion)
-  foldLines.push(fold(tabBL, tabTL, 'mountain'));
+  foldLines.push(fold(tabBL, tabTL, 'mountain', { id: 'closure-tab-fold', role: 'tab-fold', angle: segmentAngle }));
+  addFace(vertices, faces, { id: 'closure-tab', role: 'closure-tab' }, [tabBL, tabTL, tabTipTL, tabTipBL]);
 
   // Tab cut lines
-  foldLines.push(fold(tabBL, tabTipBL, 'cut'));
-  foldLines.push(fold(tabTipBL, tabTipTL, 'cut'));
-  foldLines.push(fold(tabTipTL, tabTL, 'cut'));
+  foldLines.push(fold(tabBL, tabTipBL, 'cut', { id: 'closure-tab-side-a', role: 'tab-outline' }));
+  foldLines.push(fold(tabTipBL, tabTipTL, 'cut', { id: 'closure-tab-tip', role: 'tab-outline' }));
+  foldLines.push(fold(tabTipTL, tabTL, 'cut', { id: 'closure-tab-side-b', role: 'tab-outline' }));
 
   // Slit on left edge (receives tab)
   const slitStart = v2(0, tabStart + taperInset);
   const slitEnd = v2(0, tabEnd - taperInset);
-  foldLines.push(fold(slitStart, slitEnd, 'cut'));
+  foldLines.push(fold(slitStart, slitEnd, 'cut', { id: 'closure-slit', role: 'slit' }));
 
   // ==========================================================================
-  // TOP CIRCLE (with radial tabs for attachment)
+  // OUTER PERIMETER CUTS
   // ==========================================================================
 
-  const topCenterX = bodyWidth / 2;
-  const topCenterY = bodyHeight + radius + tabDepth;
-
-  // Approximate circle with 12-sided polygon for foldability
-  const numSegments = 12;
-  const topCircleVertices: THREE.Vector3[] = [];
+  // Body top and bottom, either side of the cap hinges
+  foldLines.push(fold(bodyBL, v2(capX0, 0), 'cut', { id: 'body-bottom-edge-start', role: 'perimeter' }));
+  foldLines.push(fold(v2(capX1, 0), bodyBR, 'cut', { id: 'body-bottom-edge-end', role: 'perimeter' }));
+  foldLines.push(fold(bodyTL, v2(capX0, bodyHeight), 'cut', { id: 'body-top-edge-start', role: 'perimeter' }));
+  foldLines.push(fold(v2(capX1, bodyHeight), bodyTR, 'cut', { id: 'body-top-edge-end', role: 'perimeter' }));
 
-  for (let i = 0; i < numSegments; i++) {
-    const angle = (i * 2 * Math.PI) / numSegments;
-    const x = topCenterX + radius * Math.cos(angle);
-    const y = topCenterY + radius * Math.sin(angle);
-    topCircleVertices.push(v2(x, y));
-  }
+  // Left edge (has slit already defined above)
+  const leftTopOfSlit = v2(0, tabEnd - taperInset);
+  const leftBottomOfSlit = v2(0, tabStart + taperInset);
 
-  // Circle perimeter cuts
-  for (let i = 0; i < numSegments; i++) {
-    const next = (i + 1) % numSegments;
-    foldLines.push(fold(topCircleVertices[i], topCircleVertices[next], 'cut'));
-  }
+  foldLines.push(fold(bodyBL, leftBottomOfSlit, 'cut', { id: 'body-left-edge-lower', role: 'perimeter' }));
+  foldLines.push(fold(leftTopOfSlit, bodyTL, 'cut', { id: 'body-left-edge-upper', role: 'perimeter' }));
 
-  // Radial tabs from circle to body
-  const topAttachY = bodyHeight;
-  for (let i = 0; i < numSegments; i++) {
-    const segmentX = (i * bodyWidth) / numSegments;
-    const attachPoint = v2(segmentX, topAttachY);
+  // Right edge (except tab area)
+  foldLines.push(fold(bodyBR, v2(bodyWidth, tabStart), 'cut', { id: 'body-right-edge-lower', role: 'perimeter' }));
+  foldLines.push(fold(v2(bodyWidth, tabEnd), bodyTR, 'cut', { id: 'body-right-edge-upper', role: 'perimeter' }));
 
-    // Mountain fold at attachment line
-    foldLines.push(
-      fold(
-        v2(segmentX, topAttachY),
-        v2(segmentX + bodyWidth / numSegments, topAttachY),
-        'mountain'
-      )
-    );
+  return {
+    name: 'Cylinder (Glue-Free)',
+    vertices,
+    foldLines,
+    faces,
+    bendLines,
+  };
+}
 
-    // Valley fold from body to circle
-    const circlePoint = topCircleVertices[i];
-    foldLines.push(fold(attachPoint, circlePoint, 'valley'));
-  }
+// =============================================================================
+// CONE PATTERN - Annular Sector with Tab/Slit Closure
+// =============================================================================
 
-  // ==========================================================================
-  // BOTTOM CIRCLE (similar to top)
-  // ==========================================================================
+export const CONE = {
+  segments: 12,       // Strips the body curls as, and sides of the caps
+  tabRatio: 0.15,     // Tab depth, of the radius
+  minTaper: 0.05,     // Smallest difference in radius; closer is a cylinder
+  maxHoleCap: 0.8,    // Largest cap in the sector's hole, of the hole's radius
+} as const;
 
-  const bottomCenterX = bodyWidth / 2;
-  const bottomCenterY = -(radius + tabDepth);
+/**
+ * Bottom and top radius of a cone. The top defaults to a point; a top too
+ * close to the bottom is narrowed so the sector keeps a finite radius.
+ */
+export function coneSection(config: PatternConfig): { bottom: number; top: number } {
+  const bottom = config.width / 2;
+  const top = Math.max(0, (config.topWidth ?? 0) / 2);
+  if (Math.abs(bottom - top) >= CONE.minTaper) return { bottom, top };
+  return { bottom, top: Math.max(0, bottom - CONE.minTaper) };
+}
 
-  const bottomCircleVertices: THREE.Vector3[] = [];
+/**
+ * Which ends of a cone get round caps. The inner rim's cap sits in the
+ * sector's hole, and its radius is the hole's times sector / 2π; on a squat
+ * cone that nears the whole hole, so the cap would run along the rim's arc
+ * and is left off.
+ */
+export function coneCaps(config: PatternConfig): { bottom: boolean; top: boolean } {
+  if (!config.caps) return { bottom: false, top: false };
 
-  for (let i = 0; i < numSegments; i++) {
-    const angle = (i * 2 * Math.PI) / numSegments;
-    const x = bottomCenterX + radius * Math.cos(angle);
-    const y = bottomCenterY + radius * Math.sin(angle);
-    bottomCircleVertices.push(v2(x, y));
-  }
+  const { bottom, top } = coneSection(config);
+  const fitsHole = Math.abs(bottom - top) / Math.hypot(config.height, bottom - top) <= CONE.maxHoleCap;
+  return {
+    bottom: bottom > top || fitsHole,
+    top: top > 0 && (top > bottom || fitsHole),
+  };
+}
 
-  // Circle perimeter cuts
-  for (let i = 0; i < numSegments; i++) {
-    const next = (i + 1) % numSegments;
-    foldLines.push(fold(bottomCircleVertices[i], bottomCircleVertices[next], 'cut'));
+/**
+ * Generate a cone or truncated cone from its true development: an annular
+ * sector about the apex, closed by a tab/slit along its straight edges. The
+ * width is the bottom diameter and topWidth the top one (none for a point),
+ * so a sleeve may also flare upward. Round caps on both ends are optional
+ * (see coneCaps).
+ *
+ * Layout (apex up; a flared sleeve opens the other way):
+ *
+ *             ·  ← Apex
+ *           ╱ ◯ ╲  ← Top cap (in the sector's hole)
+ *         ╱ ╭───╮ ╲
+ *       ╱   BODY    ╲▷  ← Sector, closing tab
+ *       ╲_____   ___╱
+ *             │ │  ← Bottom cap (hinged to the same strip)
+ *             ╰─╯
+ */
+export function generateConePattern(config: PatternConfig): FoldPattern {
+  const { height } = config;
+  const { bottom: R1, top: R2 } = coneSection(config);
+  const N = CONE.segments;
+  const caps = coneCaps(config);
+
+  // Distance from the apex to each rim along the sheet, and the sector angle
+  const slant = Math.hypot(height, R1 - R2);
+  const L1 = (R1 * slant) / Math.abs(R1 - R2);
+  const L2 = (R2 * slant) / Math.abs(R1 - R2);
+  const sector = (2 * Math.PI * Math.abs(R1 - R2)) / slant;
+  const slice = sector / N;
+  const inner = Math.min(L1, L2);
+  const outer = Math.max(L1, L2);
+
+  // Turns at the strip bends (a regular pyramid's dihedral) and at the cap
+  // hinges, where the body leans in over the bottom (out for a flare)
+  const bend = Math.PI - 2 * Math.asin(Math.min(1, Math.cos(Math.PI / N) / Math.cos(slice / 2)));
+  const lean = Math.acos(Math.sign(L1 - L2) * Math.tan(slice / 2) / Math.tan(Math.PI / N));
+  const bottomTurn = Math.PI - lean;
+  const topTurn = lean;
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const bendLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  // Apex at the origin; the sector runs away from it toward the bottom rim
+  // (down when the cone narrows upward), strips left to right. The strip
+  // the caps hang off is centred on the axis so their hinges lie level.
+  const axis = R1 > R2 ? -1 : 1;
+  const capSlice = N / 2;
+  const along = (angle: number, distance: number) =>
+    v2(distance * Math.sin(angle), axis * distance * Math.cos(angle));
+  const edgeAngle = (i: number) => (i - capSlice - 0.5) * slice;
+
+  // ==========================================================================
+  // CAPS (round N-gons whose sides match the strips' chords)
+  // ==========================================================================
+
+  // A cap on the inner rim sits in the sector's hole; its tabs are kept
+  // short enough to stay inside it
+  const capTabDepth = (polygon: THREE.Vector3[], distance: number): number => {
+    const center = polygonCentroid(polygon);
+    const nominal = center.distanceTo(polygon[0]) * CONE.tabRatio;
+    if (distance > inner) return nominal;
+
+    let room = nominal;
+    for (let i = 1; i < N; i++) {
+      if (!isCapTabSide(i, N)) continue;
+      const a = polygon[i];
+      const b = polygon[(i + 1) % N];
+      const normal = a.clone().add(b).multiplyScalar(0.5).sub(center).normalize();
+      // Tab tips are inset 15% along the side; find where they reach the hole's rim
+      [a.clone().lerp(b, 0.15), b.clone().lerp(a, 0.15)].forEach(p => {
+        const pn = p.dot(normal);
+        room = Math.min(room, 0.9 * (-pn + Math.sqrt(pn * pn - p.lengthSq() + inner * inner)));
+      });
+    }
+    return room;
+  };
+
+  const addCap = (id: string, distance: number, turn: number) => {
+    const left = along(edgeAngle(capSlice), distance);
+    const right = along(edgeAngle(capSlice + 1), distance);
+    const outward = distance > inner ? axis : -axis;
+    const polygon = regularPolygonOnEdge(left, right, N, outward);
+    addRoundCap(vertices, faces, foldLines, id, polygon, capTabDepth(polygon, distance), turn);
+  };
+
+  // The bottom cap is the root face, so the folded cone stands on it
+  if (caps.bottom) addCap('bottom-cap', L1, bottomTurn);
+
+  // ==========================================================================
+  // BODY (sector strips with arc rims)
+  // ==========================================================================
+
+  /**
+   * A strip's rim between its two edges: the cap hinge's chord, or a cut arc
+   */
+  const rim = (i: number, distance: number, id: 'bottom' | 'top'): THREE.Vector3[] => {
+    const a = along(edgeAngle(i), distance);
+    const b = along(edgeAngle(i + 1), distance);
+    if (caps[id] && i === capSlice) return [a, b];
+
+    const line = arc(a, along((edgeAngle(i) + edgeAngle(i + 1)) / 2, distance), b, 'cut',
+      { id: `body-${i}-${id}-edge`, role: 'perimeter' });
+    foldLines.push(line);
+    return curvePoints(line);
+  };
+
+  // Without a base the open cone rests on the middle strip, first in line
+  const order = Array.from({ length: N }, (_, k) => caps.bottom ? k : (capSlice + k) % N);
+  order.forEach(i => {
+    const bottomRim = rim(i, L1, 'bottom');
+    const topRim = R2 > 0 ? rim(i, L2, 'top').reverse() : [v2(0, 0)];
+    // Faces fan from their first corner, which must be on the convex outer rim
+    const outline = L1 > L2 ? [...bottomRim, ...topRim] : [...topRim, ...bottomRim];
+    addFace(vertices, faces, { id: `body-${i}`, role: 'body' }, outline);
+
+    if (i > 0) {
+      bendLines.push(fold(along(edgeAngle(i), L1), along(edgeAngle(i), L2), 'mountain',
+        { id: `body-bend-${i}`, role: 'bend', angle: bend }));
+    }
+  });
+
+  if (caps.top) addCap('top-cap', L2, topTurn);
+
+  // ==========================================================================
+  // CLOSURE TAB/SLIT (straight edges of the sector)
+  // ==========================================================================
+
+  // Tab on the last strip's edge, kept inside the gap the sector leaves
+  const gap = 2 * Math.PI - sector;
+  const seamBottom = along(edgeAngle(N), L1);
+  const seamTop = along(edgeAngle(N), L2);
+  const tabStart = seamBottom.clone().lerp(seamTop, 0.1);
+  const tabEnd = seamBottom.clone().lerp(seamTop, 0.9);
+  const tipReach = inner + (outer - inner) * (0.1 + 0.8 * 0.15);
+  const tabDepth = gap < Math.PI / 2
+    ? Math.min(Math.max(R1, R2) * CONE.tabRatio, tipReach * Math.tan(gap * 0.8))
+    : Math.max(R1, R2) * CONE.tabRatio;
+
+  const tab = generateLockingTab('closure-tab', tabStart, tabEnd, tabDepth, false, bend);
+  foldLines.push(...tab.foldLines);
+  addFace(vertices, faces, { id: 'closure-tab', role: 'closure-tab' }, tab.vertices);
+
+  foldLines.push(fold(seamBottom, tabStart, 'cut', { id: 'body-right-edge-lower', role: 'perimeter' }));
+  foldLines.push(fold(tabEnd, seamTop, 'cut', { id: 'body-right-edge-upper', role: 'perimeter' }));
+
+  // Slit on the first strip's edge (receives the tab)
+  const edgeBottom = along(edgeAngle(0), L1);
+  const edgeTop = along(edgeAngle(0), L2);
+  const [slit] = generateSlit('closure-slit', edgeBottom, edgeTop, 0.8 * 0.7);
+  foldLines.push(slit);
+  foldLines.push(fold(edgeBottom, slit.start, 'cut', { id: 'body-left-edge-lower', role: 'perimeter' }));
+  foldLines.push(fold(slit.end, edgeTop, 'cut', { id: 'body-left-edge-upper', role: 'perimeter' }));
+
+  return {
+    name: R2 > 0 ? 'Truncated Cone (Glue-Free)' : 'Cone (Glue-Free)',
+    vertices,
+    foldLines,
+    faces,
+    bendLines,
+  };
+}
+
+// =============================================================================
+// POLYHEDRON PATTERN - Unfolded Solid with Edge Tabs
+// =============================================================================
+
+/**
+ * Lay out a solid's unfolded net (see polyhedra.ts) as a pattern. Hinges
+ * fold mountain where the solid is convex and valley where it is concave.
+ * Every edge the net cuts appears twice on the sheet; one of the two carries
+ * a locking tab, on whichever side it fits without overlapping the net, and
+ * the face across the other gets a slit just inside its edge for the tab to
+ * tuck through. Open edges of an imported mesh stay plain cuts.
+ */
+function polyhedronNetPattern(net: PolyhedronNet, name: string): FoldPattern {
+  const { solid, edges, parent, hinge, polygons } = net;
+  const lengthOf = (e: number) => solid.vertices[edges[e].a].distanceTo(solid.vertices[edges[e].b]);
+  const meanLength = edges.reduce((sum, _, e) => sum + lengthOf(e), 0) / edges.length;
+  const tolerance = POLYHEDRA.overlapTolerance * meanLength * meanLength;
+  const foldType = (turn: number): 'mountain' | 'valley' => turn >= 0 ? 'mountain' : 'valley';
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  // Face 0 is the net's root, so the folded solid rests on it
+  polygons.forEach((polygon, f) => {
+    addFace(vertices, faces, { id: `face-${f}`, role: f === 0 ? 'base' : 'side' }, polygon);
+  });
+
+  /**
+   * Where edge e lies on face f's copy: its corner index and flat ends
+   */
+  const onFace = (e: number, f: number) => {
+    const face = solid.faces[f];
+    const { a, b } = edges[e];
+    const k = face.indexOf(a) === (face.indexOf(b) + 1) % face.length ? face.indexOf(b) : face.indexOf(a);
+    return { k, start: polygons[f][k], end: polygons[f][(k + 1) % face.length] };
+  };
+
+  // ==========================================================================
+  // HINGES (the net's spanning tree)
+  // ==========================================================================
+
+  hinge.forEach((e, f) => {
+    if (e < 0) return;
+    const { start, end } = onFace(e, f);
+    const { turn } = edges[e];
+    foldLines.push(fold(start, end, foldType(turn), { id: `face-${parent[f]}-${f}-fold`, role: 'panel-fold', angle: Math.abs(turn) }));
+  });
+
+  // ==========================================================================
+  // CUT EDGES (a tab on one copy, a plain cut and a slit on the other)
+  // ==========================================================================
+
+  const tabs: THREE.Vector3[][] = [];
+  const clearsNet = (tab: THREE.Vector3[]) => [...polygons, ...tabs].every(polygon =>
+    polygonIntersection(tab, polygon).area <= tolerance
+  );
+
+  /**
+   * Whether a tab on face f's copy of edge e, folded in, lies within the
+   * face g it tucks under (a sharp corner of g would leave it poking out)
+   */
+  const liesUnder = (tab: THREE.Vector3[], e: number, f: number, g: number) => {
+    const from = onFace(e, f);
+    const onto = onFace(e, g);
+    const heading = (p: THREE.Vector3, q: THREE.Vector3) => Math.atan2(q.z - p.z, q.x - p.x);
+    const angle = heading(from.start, from.end) - heading(onto.end, onto.start);
+    const turn = new THREE.Matrix4().makeRotationY(angle);
+    const shift = onto.end.clone().sub(from.start.clone().applyMatrix4(turn));
+    const folded = tab.map(p => p.clone().applyMatrix4(turn).add(shift));
+    return polygonIntersection(folded, polygons[g]).area >= Math.abs(polygonArea(tab)) - tolerance;
+  };
+
+  edges.forEach((edge, e) => {
+    if (hinge.includes(e)) return;
+
+    // Full depth on either copy, then half depth; a cut with no room stays plain
+    const copies = edge.faces.map(f => ({ f, ...onFace(e, f) }));
+    const tabDepth = Math.min(lengthOf(e), meanLength) * POLYHEDRA.tabRatio;
+    let tabbed: { f: number; depth: number; tab: { vertices: THREE.Vector3[]; foldLines: FoldLine[] } } | null = null;
+    for (const depth of copies.length === 2 ? [tabDepth, tabDepth / 2] : []) {
+      for (const { f, k, start, end } of copies) {
+        if (tabbed) break;
+        const center = polygonCentroid(polygons[f]);
+        const dir = end.clone().sub(start);
+        const mid = start.clone().add(end).multiplyScalar(0.5);
+        const pointsOut = new THREE.Vector3(-dir.z, 0, dir.x).dot(mid.sub(center)) > 0;
+        const tab = generateLockingTab(`face-${f}-tab-${k}`, start, end, depth, pointsOut, Math.abs(edge.turn));
+        const probe = generateLockingTab('probe', start, end, depth * POLYHEDRA.tabClearance, pointsOut);
+        const g = edge.faces.find(other => other !== f)!;
+        if (clearsNet(probe.vertices) && liesUnder(tab.vertices, e, f, g)) tabbed = { f, depth, tab };
+      }
+    }
+
+    copies.forEach(({ f, k, start, end }) => {
+      if (tabbed?.f === f) {
+        tabs.push(tabbed.tab.vertices);
+        foldLines.push(...tabbed.tab.foldLines.map(line =>
+          line.role === 'tab-fold' ? { ...line, type: foldType(edge.turn) } : line
+        ));
+        addFace(vertices, faces, { id: `face-${f}-tab-${k}`, role: 'locking-tab' }, tabbed.tab.vertices);
+        return;
+      }
+
+      foldLines.push(fold(start, end, 'cut', { id: `face-${f}-edge-${k}`, role: 'perimeter' }));
+      if (!tabbed) return;
+
+      // Slit parallel to the edge, wider than the tab's tip and narrower than its base
+      const inward = polygonCentroid(polygons[f]).sub(start);
+      const along = end.clone().sub(start).normalize();
+      const inset = inward.sub(along.clone().multiplyScalar(inward.dot(along))).setLength(tabbed.depth * POLYHEDRA.slitInset);
+      const [slit] = generateSlit(`face-${f}-slit-${k}`, start.clone().add(inset), end.clone().add(inset), POLYHEDRA.slitRatio);
+      if (pointInPolygon(slit.start, polygons[f]) && pointInPolygon(slit.end, polygons[f])) foldLines.push(slit);
+    });
+  });
+
+  return { name, vertices, foldLines, faces };
+}
+
+/**
+ * Generate a Platonic or Archimedean solid from its unfolded net. The
+ * width is the diameter of the sphere through the corners.
+ */
+export function generatePolyhedronPattern(config: PatternConfig): FoldPattern {
+  const type = config.solid ?? POLYHEDRA.defaultSolid;
+  return polyhedronNetPattern(unfoldPolyhedron(buildPolyhedron(type, config.width / 2)), `${POLYHEDRON_NAMES[type]} (Glue-Free)`);
+}
+
+/**
+ * Generate an imported mesh (see src/import) from its unfolded net, scaled
+ * so its largest extent is the width. Until a mesh is loaded the default
+ * solid stands in.
+ */
+export function generateMeshPattern(config: PatternConfig): FoldPattern {
+  if (!config.mesh) return generatePolyhedronPattern(config);
+  return polyhedronNetPattern(unfoldMesh(config.mesh, config.width), `${config.mesh.name} (Glue-Free)`);
+}
+
+// =============================================================================
+// CARTON PARTS - Shared by the folding cartons
+// =============================================================================
+
+interface CartonPanel {
+  id: 'front' | 'right' | 'back' | 'left';
+  role: FaceRole;
+  x0: number;
+  x1: number;
+}
+
+/**
+ * Flap sizes for a carton of width W and depth D
+ */
+function cartonFlapSizes(W: number, D: number) {
+  const tuckDepth = Math.min(W, D) * 0.35;
+  const dustDepth = Math.min(W * 0.4, D * 1.2);       // Stays under half the width so opposing flaps clear
+  return {
+    closureDepth: D,
+    tuckDepth,
+    tuckChamfer: Math.min(tuckDepth * 0.5, W * 0.2),
+    lockLength: Math.min(W * 0.08, 0.4),              // Friction-lock slit at each end of a tuck fold
+    dustDepth,
+    dustChamfer: Math.min(dustDepth * 0.3, D * 0.25),
+  };
+}
+
+type CartonFlapSizes = ReturnType<typeof cartonFlapSizes>;
+
+/**
+ * The tube of a carton: front, right, back and left panels side by side,
+ * z from 0 to H, with a glue flap on the left panel that is bonded inside
+ * the front panel. Panel ends are left to the closures.
+ */
+function cartonTube(W: number, H: number, D: number): { panels: CartonPanel[]; glue: THREE.Vector3[]; foldLines: FoldLine[] } {
+  const panels: CartonPanel[] = [
+    { id: 'front', role: 'front', x0: 0, x1: W },
+    { id: 'right', role: 'right', x0: W, x1: W + D },
+    { id: 'back', role: 'back', x0: W + D, x1: 2 * W + D },
+    { id: 'left', role: 'left', x0: 2 * W + D, x1: 2 * W + 2 * D },
+  ];
+  const [, right, back, left] = panels;
+
+  const glueX = left.x1;
+  const glueWidth = Math.min(D * 0.8, 1.5);
+  const glueChamfer = Math.min(glueWidth, H * 0.2);
+  const glue = [v2(glueX, 0), v2(glueX + glueWidth, glueChamfer), v2(glueX + glueWidth, H - glueChamfer), v2(glueX, H)];
+
+  const foldLines = [
+    // Panel to panel, then the glue flap
+    fold(v2(right.x0, 0), v2(right.x0, H), 'mountain', { id: 'front-right-fold', role: 'panel-fold' }),
+    fold(v2(back.x0, 0), v2(back.x0, H), 'mountain', { id: 'right-back-fold', role: 'panel-fold' }),
+    fold(v2(left.x0, 0), v2(left.x0, H), 'mountain', { id: 'back-left-fold', role: 'panel-fold' }),
+    fold(v2(glueX, 0), v2(glueX, H), 'mountain', { id: 'glue-flap-fold', role: 'tab-fold' }),
+
+    // Glue flap outline and the free edge of the front panel it meets
+    fold(glue[0], glue[1], 'cut', { id: 'glue-flap-top-edge', role: 'perimeter' }),
+    fold(glue[1], glue[2], 'cut', { id: 'glue-flap-outer-edge', role: 'perimeter' }),
+    fold(glue[2], glue[3], 'cut', { id: 'glue-flap-bottom-edge', role: 'perimeter' }),
+    fold(v2(0, 0), v2(0, H), 'cut', { id: 'front-free-edge', role: 'perimeter' }),
+  ];
+
+  return { panels, glue, foldLines };
+}
+
+/**
+ * Closure panel and its tuck flap, hanging off one end of a panel.
+ * `dir` is -1 above the panels (top) and +1 below them (bottom).
+ */
+function tuckClosure(
+  id: 'top' | 'bottom',
+  panel: CartonPanel,
+  edgeZ: number,
+  dir: number,
+  sizes: CartonFlapSizes
+): { polygon: THREE.Vector3[]; tuck: THREE.Vector3[]; foldLines: FoldLine[] } {
+  const { x0, x1 } = panel;
+  const { closureDepth, tuckDepth, tuckChamfer, lockLength } = sizes;
+  const hingeZ = edgeZ + dir * closureDepth;
+  const tipZ = hingeZ + dir * tuckDepth;
+
+  const polygon = [v2(x0, edgeZ), v2(x1, edgeZ), v2(x1, hingeZ), v2(x0, hingeZ)];
+  const tuck = [v2(x0, hingeZ), v2(x1, hingeZ), v2(x1 - tuckChamfer, tipZ), v2(x0 + tuckChamfer, tipZ)];
+
+  return {
+    polygon,
+    tuck,
+    foldLines: [
+      fold(v2(x0, edgeZ), v2(x1, edgeZ), 'mountain', { id: `${id}-fold`, role: 'panel-fold' }),
+      fold(v2(x0 + lockLength, hingeZ), v2(x1 - lockLength, hingeZ), 'mountain', { id: `${id}-tuck-fold`, role: 'tab-fold' }),
+      fold(v2(x0, hingeZ), v2(x0 + lockLength, hingeZ), 'cut', { id: `${id}-tuck-lock-a`, role: 'slit' }),
+      fold(v2(x1 - lockLength, hingeZ), v2(x1, hingeZ), 'cut', { id: `${id}-tuck-lock-b`, role: 'slit' }),
+      fold(v2(x0, edgeZ), v2(x0, hingeZ), 'cut', { id: `${id}-side-a`, role: 'perimeter' }),
+      fold(v2(x1, edgeZ), v2(x1, hingeZ), 'cut', { id: `${id}-side-b`, role: 'perimeter' }),
+      fold(tuck[0], tuck[3], 'cut', { id: `${id}-tuck-side-a`, role: 'perimeter' }),
+      fold(tuck[3], tuck[2], 'cut', { id: `${id}-tuck-tip`, role: 'perimeter' }),
+      fold(tuck[2], tuck[1], 'cut', { id: `${id}-tuck-side-b`, role: 'perimeter' }),
+    ],
+  };
+}
+
+/**
+ * Dust flap on one end of a side panel, chamfered on both sides
+ */
+function dustFlap(
+  id: string,
+  panel: CartonPanel,
+  edgeZ: number,
+  dir: number,
+  sizes: CartonFlapSizes
+): { polygon: THREE.Vector3[]; foldLines: FoldLine[] } {
+  const { x0, x1 } = panel;
+  const { dustDepth, dustChamfer } = sizes;
+  const tipZ = edgeZ + dir * dustDepth;
+  const polygon = [v2(x0, edgeZ), v2(x1, edgeZ), v2(x1 - dustChamfer, tipZ), v2(x0 + dustChamfer, tipZ)];
+
+  return {
+    polygon,
+    foldLines: [
+      fold(polygon[0], polygon[1], 'mountain', { id: `${id}-fold`, role: 'tab-fold' }),
+      fold(polygon[0], polygon[3], 'cut', { id: `${id}-side-a`, role: 'perimeter' }),
+      fold(polygon[3], polygon[2], 'cut', { id: `${id}-tip`, role: 'perimeter' }),
+      fold(polygon[2], polygon[1], 'cut', { id: `${id}-side-b`, role: 'perimeter' }),
+    ],
+  };
+}
+
+// =============================================================================
+// TUCK END CARTONS - Reverse (RTE) and Straight (STE)
+// =============================================================================
+
+/**
+ * Generate a folding carton with tuck-end closures.
+ *
+ * Layout (panels in a row, height running down the page):
+ *
+ *                    [TUCK]
+ *          [DUST]   [CLOSE]   [DUST]
+ *   [FRONT] [RIGHT]  [BACK]  [LEFT] [GLUE]
+ *          [DUST]            [DUST]
+ *   [CLOSE]
+ *   [TUCK]
+ *
+ * Reverse tuck end: the top closes from the back and the bottom from the
+ * front, so the tucks enter from opposite faces. Straight tuck end: both
+ * closures hang off the back panel. Short friction-lock slits at the ends
+ * of each tuck fold catch on the dust flaps and hold the tuck shut. The
+ * glue flap is bonded inside the front panel to close the tube.
+ */
+export function generateTuckEndCartonPattern(
+  config: PatternConfig,
+  style: 'reverse' | 'straight'
+): FoldPattern {
+  const { width: W, height: H, depth: D } = config;
+  const sizes = cartonFlapSizes(W, D);
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const tube = cartonTube(W, H, D);
+  const [front, right, back, left] = tube.panels;
+  const topPanel = back;
+  const bottomPanel = style === 'reverse' ? front : back;
+
+  const top = tuckClosure('top', topPanel, 0, -1, sizes);
+  const bottom = tuckClosure('bottom', bottomPanel, H, 1, sizes);
+  const dust = [
+    { id: 'top-right-dust-flap', ...dustFlap('top-right-dust-flap', right, 0, -1, sizes) },
+    { id: 'top-left-dust-flap', ...dustFlap('top-left-dust-flap', left, 0, -1, sizes) },
+    { id: 'bottom-right-dust-flap', ...dustFlap('bottom-right-dust-flap', right, H, 1, sizes) },
+    { id: 'bottom-left-dust-flap', ...dustFlap('bottom-left-dust-flap', left, H, 1, sizes) },
+  ];
+
+  // Faces; the bottom closure comes first so the carton stands on it
+  addFace(vertices, faces, { id: 'bottom', role: 'bottom' }, bottom.polygon);
+  tube.panels.forEach(panel => {
+    addFace(vertices, faces, { id: panel.id, role: panel.role }, [
+      v2(panel.x0, 0), v2(panel.x1, 0), v2(panel.x1, H), v2(panel.x0, H),
+    ]);
+  });
+  addFace(vertices, faces, { id: 'top', role: 'top' }, top.polygon);
+  addFace(vertices, faces, { id: 'top-tuck', role: 'tuck-flap' }, top.tuck);
+  addFace(vertices, faces, { id: 'bottom-tuck', role: 'tuck-flap' }, bottom.tuck);
+  dust.forEach(flap => addFace(vertices, faces, { id: flap.id, role: 'dust-flap' }, flap.polygon));
+  addFace(vertices, faces, { id: 'glue-flap', role: 'glue-flap' }, tube.glue);
+
+  // ==========================================================================
+  // FOLD LINES
+  // ==========================================================================
+
+  foldLines.push(...tube.foldLines, ...top.foldLines, ...bottom.foldLines);
+  dust.forEach(flap => foldLines.push(...flap.foldLines));
+
+  // ==========================================================================
+  // CUT LINES (Perimeter)
+  // ==========================================================================
+
+  // Front and back ends not carrying a closure
+  [front, back].forEach(panel => {
+    if (panel !== topPanel) {
+      foldLines.push(fold(v2(panel.x0, 0), v2(panel.x1, 0), 'cut', { id: `${panel.id}-top-edge`, role: 'perimeter' }));
+    }
+    if (panel !== bottomPanel) {
+      foldLines.push(fold(v2(panel.x0, H), v2(panel.x1, H), 'cut', { id: `${panel.id}-bottom-edge`, role: 'perimeter' }));
+    }
+  });
+
+  return {
+    name: style === 'reverse' ? 'Reverse Tuck End Carton' : 'Straight Tuck End Carton',
+    vertices,
+    foldLines,
+    faces,
+  };
+}
+
+// =============================================================================
+// CRASH LOCK CARTON - Auto-bottom with a tuck top
+// =============================================================================
+
+/**
+ * Generate a carton whose bottom forms by itself when the tube is squared up.
+ *
+ * Layout (panels in a row, height running down the page):
+ *
+ *                    [TUCK]
+ *          [DUST]    [TOP]    [DUST]
+ *   [FRONT] [RIGHT]  [BACK]  [LEFT] [GLUE]
+ *      \  |web|  /    \  |web|  /
+ *
+ * Each bottom flap is the triangle between its panel's edge and the box
+ * diagonal, so the four meet edge to edge. At the front-right and back-left
+ * corners the paper between two flaps is kept as a web instead of being cut
+ * away. The web pleats flat under the side flap when the carton stands up
+ * and folds along its diagonals when the tube is flattened, pulling the
+ * bottom up inside, so the bottom needs no glue and no hand folding. Lock
+ * tabs on the front and back flaps tuck flat across the diagonal.
+ *
+ * Each web corner vertex has crease angles 90-45-45-45-45-90 and the
+ * sequence M M V M V M, so it satisfies Kawasaki-Justin and Maekawa and
+ * crimps flat when the carton is knocked down.
+ */
+export function generateCrashLockCartonPattern(config: PatternConfig): FoldPattern {
+  const { width: W, height: H, depth: D } = config;
+  const sizes = cartonFlapSizes(W, D);
+  const reach = (W * D) / (W + D);                   // How far the web folds run into the bottom
+  const lockDepth = Math.min(W, D) * 0.15;
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const tube = cartonTube(W, H, D);
+  const [front, right, back, left] = tube.panels;
+
+  /**
+   * Bottom flaps of a front/back panel and the side panel to its right,
+   * joined by a web at their shared corner
+   */
+  const webbedPair = (major: CartonPanel, minor: CartonPanel) => {
+    const c = major.x1;
+    const corner = v2(c, H);
+    const majorTip = v2(c - reach, H + reach);
+    const webTip = v2(c, H + reach);
+    const minorTip = v2(c + reach, H + reach);
+    const web = `${major.id}-${minor.id}-web`;
+
+    // Lock tab on the middle of the free edge, clear of the corner folds
+    const free = majorTip.clone().sub(v2(major.x0, H));
+    const lockStart = v2(major.x0, H).addScaledVector(free, 0.2);
+    const lockEnd = v2(major.x0, H).addScaledVector(free, 0.8);
+    const lock = generateLockingTab(`${major.id}-lock-tab`, lockStart, lockEnd, lockDepth, true, 0);
+
+    return {
+      major,
+      minor,
+      majorFlap: [v2(major.x0, H), corner, majorTip],
+      minorFlap: [corner, v2(minor.x1, H), minorTip],
+      webA: [corner, majorTip, webTip],
+      webB: [corner, webTip, minorTip],
+      lock,
+      web,
+      foldLines: [
+        fold(v2(major.x0, H), corner, 'mountain', { id: `${major.id}-bottom-fold`, role: 'panel-fold' }),
+        fold(corner, v2(minor.x1, H), 'mountain', { id: `${minor.id}-bottom-fold`, role: 'panel-fold' }),
+
+        // Web: pleated under the side flap when erected, all three folded when knocked down
+        fold(corner, majorTip, 'valley', { id: `${web}-major-fold`, role: 'web-fold', angle: 0 }),
+        fold(corner, webTip, 'mountain', { id: `${web}-center-fold`, role: 'web-fold', angle: Math.PI }),
+        fold(corner, minorTip, 'valley', { id: `${web}-minor-fold`, role: 'web-fold', angle: Math.PI }),
+
+        ...lock.foldLines,
+        fold(v2(major.x0, H), lockStart, 'cut', { id: `${major.id}-bottom-edge-a`, role: 'perimeter' }),
+        fold(lockEnd, majorTip, 'cut', { id: `${major.id}-bottom-edge-b`, role: 'perimeter' }),
+        fold(majorTip, webTip, 'cut', { id: `${web}-edge-a`, role: 'perimeter' }),
+        fold(webTip, minorTip, 'cut', { id: `${web}-edge-b`, role: 'perimeter' }),
+        fold(minorTip, v2(minor.x1, H), 'cut', { id: `${minor.id}-bottom-edge`, role: 'perimeter' }),
+      ],
+    };
+  };
+
+  const pairs = [webbedPair(front, right), webbedPair(back, left)];
+  const top = tuckClosure('top', back, 0, -1, sizes);
+  const dust = [
+    { id: 'top-right-dust-flap', ...dustFlap('top-right-dust-flap', right, 0, -1, sizes) },
+    { id: 'top-left-dust-flap', ...dustFlap('top-left-dust-flap', left, 0, -1, sizes) },
+  ];
+
+  // Faces; the front bottom flap comes first so the carton stands on it
+  pairs.forEach(pair => {
+    addFace(vertices, faces, { id: `${pair.major.id}-bottom`, role: 'bottom' }, pair.majorFlap);
+    addFace(vertices, faces, { id: `${pair.minor.id}-bottom`, role: 'bottom' }, pair.minorFlap);
+    addFace(vertices, faces, { id: `${pair.web}-a`, role: 'flap' }, pair.webA);
+    addFace(vertices, faces, { id: `${pair.web}-b`, role: 'flap' }, pair.webB);
+    addFace(vertices, faces, { id: `${pair.major.id}-lock-tab`, role: 'locking-tab' }, pair.lock.vertices);
+  });
+  tube.panels.forEach(panel => {
+    addFace(vertices, faces, { id: panel.id, role: panel.role }, [
+      v2(panel.x0, 0), v2(panel.x1, 0), v2(panel.x1, H), v2(panel.x0, H),
+    ]);
+  });
+  addFace(vertices, faces, { id: 'top', role: 'top' }, top.polygon);
+  addFace(vertices, faces, { id: 'top-tuck', role: 'tuck-flap' }, top.tuck);
+  dust.forEach(flap => addFace(vertices, faces, { id: flap.id, role: 'dust-flap' }, flap.polygon));
+  addFace(vertices, faces, { id: 'glue-flap', role: 'glue-flap' }, tube.glue);
+
+  // ==========================================================================
+  // FOLD LINES
+  // ==========================================================================
+
+  foldLines.push(...tube.foldLines, ...top.foldLines);
+  pairs.forEach(pair => foldLines.push(...pair.foldLines));
+  dust.forEach(flap => foldLines.push(...flap.foldLines));
+
+  // ==========================================================================
+  // CUT LINES (Perimeter)
+  // ==========================================================================
+
+  foldLines.push(fold(v2(front.x0, 0), v2(front.x1, 0), 'cut', { id: 'front-top-edge', role: 'perimeter' }));
+
+  return {
+    name: 'Crash Lock Bottom Carton',
+    vertices,
+    foldLines,
+    faces,
+  };
+}
+
+// =============================================================================
+// PILLOW BOX - Curved score ends
+// =============================================================================
+
+/**
+ * Generate a pillow box: a flat tube whose ends close along curved scores.
+ *
+ * Layout (height running down the page):
+ *
+ *    (  flap  )(  flap  )
+ *   [  FRONT  ][  BACK  ][GLUE]
+ *    (  flap  )(  flap  )
+ *
+ * Each panel end is a score arc with a lens-shaped flap beyond it, cut on
+ * a deeper arc. Pressing the ends in bows the panels apart and the flaps
+ * fold over each other along the curve, so the ends close without glue or
+ * tabs. The glue flap is bonded inside the front panel.
+ *
+ * A curved score does not fold as a rigid hinge. For the 3D preview each
+ * panel curls as strips joined by bend lines and each flap folds in as one
+ * piece per strip along the score's chord.
+ */
+export function generatePillowBoxPattern(config: PatternConfig): FoldPattern {
+  const { width: W, height: H } = config;
+  const D = Math.min(config.depth, W * 0.45);   // Deeper lenses would overlap their neighbours
+  const scoreRise = D / 2;
+  const flapRise = D;
+  const strips = 7;
+  const stripWidth = W / strips;
+
+  // Each panel bows into an arc of length W standing D/2 off its chord:
+  // (1 - cos a) / a = D / W for the half-angle a, rising over (0, 2.3)
+  let lo = 1e-6;
+  let hi = 2.3;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if ((1 - Math.cos(mid)) / mid < D / W) lo = mid;
+    else hi = mid;
   }
+  const halfAngle = lo;
+  const bendAngle = (2 * halfAngle) / strips;
+  const seamAngle = Math.PI - bendAngle * (strips - 1);
 
-  // Radial tabs
-  const bottomAttachY = 0;
-  for (let i = 0; i < numSegments; i++) {
-    const segmentX = (i * bodyWidth) / numSegments;
-    const attachPoint = v2(segmentX, bottomAttachY);
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const bendLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const panels = [
+    { id: 'back', role: 'back' as const, x0: W },
+    { id: 'front', role: 'front' as const, x0: 0 },
+  ];
+  const stripX = (x0: number, i: number) => (i === strips ? x0 + W : x0 + i * stripWidth);
+
+  // ==========================================================================
+  // PANELS (curled as strips for 3D; the middle back strip lies on the ground)
+  // ==========================================================================
+
+  const middle = Math.floor(strips / 2);
+  panels.forEach(panel => {
+    for (let k = 0; k < strips; k++) {
+      const i = (k + middle) % strips;
+      const [x0, x1] = [stripX(panel.x0, i), stripX(panel.x0, i + 1)];
+      addFace(vertices, faces, { id: `${panel.id}-${i}`, role: panel.role }, [v2(x0, 0), v2(x1, 0), v2(x1, H), v2(x0, H)]);
+    }
+    for (let i = 1; i < strips; i++) {
+      const x = stripX(panel.x0, i);
+      bendLines.push(fold(v2(x, 0), v2(x, H), 'mountain', { id: `${panel.id}-bend-${i}`, role: 'bend', angle: bendAngle }));
+    }
+  });
+
+  // ==========================================================================
+  // END FLAPS (score arc, then a lens cut on a deeper arc)
+  // ==========================================================================
+
+  const half = W / 2;
+  const flapRadius = (half * half + flapRise * flapRise) / (2 * flapRise);
+
+  panels.forEach(panel => {
+    ([['top', 0, -1], ['bottom', H, 1]] as const).forEach(([end, edgeZ, dir]) => {
+      const id = `${end}-${panel.id}-flap`;
+      const xm = panel.x0 + half;
+      const centerZ = edgeZ + dir * (flapRise - flapRadius);
+      const rim = (i: number) => {
+        const x = stripX(panel.x0, i);
+        if (i === 0 || i === strips) return v2(x, edgeZ);
+        return v2(x, centerZ + dir * Math.sqrt(flapRadius * flapRadius - (x - xm) ** 2));
+      };
+
+      foldLines.push(arc(v2(panel.x0, edgeZ), v2(xm, edgeZ + dir * scoreRise), v2(panel.x0 + W, edgeZ), 'mountain',
+        { id: `${end}-${panel.id}-score`, role: 'cap-fold' }));
+
+      for (let i = 0; i < strips; i++) {
+        const [x0, x1] = [stripX(panel.x0, i), stripX(panel.x0, i + 1)];
+        const through = (x0 + x1) / 2;
+        const edge = arc(rim(i), v2(through, centerZ + dir * Math.sqrt(flapRadius * flapRadius - (through - xm) ** 2)), rim(i + 1),
+          'cut', { id: `${id}-edge-${i}`, role: 'perimeter' });
+        foldLines.push(edge);
+
+        // Chord, then back along the rim; the end pieces share a corner with it
+        const polygon = [v2(x0, edgeZ), v2(x1, edgeZ), ...curvePoints(edge).slice().reverse()]
+          .filter((p, k, all) => p.distanceTo(all[(k + all.length - 1) % all.length]) > 1e-9);
+        addFace(vertices, faces, { id: `${id}-${i}`, role: 'cap' }, polygon);
+        bendLines.push(fold(v2(x0, edgeZ), v2(x1, edgeZ), 'mountain', { id: `${id}-bend-${i}`, role: 'bend', angle: Math.PI / 2 }));
+      }
+    });
+  });
+
+  // ==========================================================================
+  // SEAM, GLUE FLAP AND FREE EDGE
+  // ==========================================================================
+
+  const glueX = 2 * W;
+  const glueWidth = Math.min(W * 0.15, 1.5);
+  const glueChamfer = Math.min(glueWidth, H * 0.2);
+  const glue = [v2(glueX, 0), v2(glueX + glueWidth, glueChamfer), v2(glueX + glueWidth, H - glueChamfer), v2(glueX, H)];
+  addFace(vertices, faces, { id: 'glue-flap', role: 'glue-flap' }, glue);
+
+  foldLines.push(
+    fold(v2(W, 0), v2(W, H), 'mountain', { id: 'front-back-fold', role: 'panel-fold', angle: seamAngle }),
+    fold(v2(glueX, 0), v2(glueX, H), 'mountain', { id: 'glue-flap-fold', role: 'tab-fold', angle: seamAngle }),
+    fold(glue[0], glue[1], 'cut', { id: 'glue-flap-top-edge', role: 'perimeter' }),
+    fold(glue[1], glue[2], 'cut', { id: 'glue-flap-outer-edge', role: 'perimeter' }),
+    fold(glue[2], glue[3], 'cut', { id: 'glue-flap-bottom-edge', role: 'perimeter' }),
+    fold(v2(0, 0), v2(0, H), 'cut', { id: 'front-free-edge', role: 'perimeter' }),
+  );
+
+  return {
+    name: 'Pillow Box',
+    vertices,
+    foldLines,
+    faces,
+    bendLines,
+  };
+}
+
+// =============================================================================
+// GABLE BOX - Carry handle on a pitched top
+// =============================================================================
+
+/**
+ * Generate a gable box: a carton whose front and back roofs lean together
+ * into a ridge and rise into a pair of handle plates.
+ *
+ * Layout (panels in a row, height running down the page):
+ *
+ *   [HANDLE]        [HANDLE]
+ *   [ ROOF ]   /\   [ ROOF ]   /\
+ *   [FRONT] [RIGHT] [BACK]  [LEFT] [GLUE]
+ *          [DUST]          [DUST]
+ *   [CLOSE]
+ *   [TUCK]
+ *
+ * The roofs meet at 45°, so the ridge stands D/2 above the body. The side
+ * panels rise into gable triangles whose tabs tuck under the roofs, and the
+ * handle plates stand back to back above the ridge with the hand hole
+ * punched through both. The bottom is a tuck closure off the front panel.
+ */
+export function generateGableBoxPattern(config: PatternConfig): FoldPattern {
+  const { width: W, height: H, depth: D } = config;
+  const sizes = cartonFlapSizes(W, D);
+  const rise = D / 2;                                  // Ridge height above the body
+  const roof = Math.SQRT2 * rise;                      // Roof panel length at 45°
+  const plate = Math.max(D * 0.6, 2.5);                // Handle plate height
+  const holeLength = Math.min(W * 0.5, 9);             // Hand hole, a slot with round ends
+  const holeRadius = Math.min(plate * 0.2, holeLength * 0.3, 1.25);
+  const gableTabDepth = roof * 0.25;
+
+  const vertices: PatternVertex[] = [];
+  const foldLines: FoldLine[] = [];
+  const bendLines: FoldLine[] = [];
+  const faces: PatternFace[] = [];
+
+  const tube = cartonTube(W, H, D);
+  const [front, right, back, left] = tube.panels;
+  const bottom = tuckClosure('bottom', front, H, 1, sizes);
+  const dust = [
+    { id: 'bottom-right-dust-flap', ...dustFlap('bottom-right-dust-flap', right, H, 1, sizes) },
+    { id: 'bottom-left-dust-flap', ...dustFlap('bottom-left-dust-flap', left, H, 1, sizes) },
+  ];
+
+  // Faces; the bottom closure comes first so the box stands on it
+  addFace(vertices, faces, { id: 'bottom', role: 'bottom' }, bottom.polygon);
+  tube.panels.forEach(panel => {
+    const gable = panel === right || panel === left ? [v2((panel.x0 + panel.x1) / 2, -rise)] : [];
+    addFace(vertices, faces, { id: panel.id, role: panel.role }, [
+      v2(panel.x0, 0), ...gable, v2(panel.x1, 0), v2(panel.x1, H), v2(panel.x0, H),
+    ]);
+  });
 
+  // ==========================================================================
+  // ROOFS AND HANDLE PLATES
+  // ==========================================================================
+
+  [front, back].forEach(panel => {
+    const { x0, x1 } = panel;
+    const id = panel.id;
+    const base = -roof;                       // Roof to handle plate
+    const top = -roof - plate;
+    const cx = (x0 + x1) / 2;
+    const cz = (base + top) / 2;
+    const q = holeRadius;
+    const xl = cx - holeLength / 2;
+    const xr = cx + holeLength / 2;
+
+    addFace(vertices, faces, { id: `${id}-roof`, role: 'top' }, [v2(x0, 0), v2(x1, 0), v2(x1, base), v2(x0, base)]);
     foldLines.push(
-      fold(
-        v2(segmentX, bottomAttachY),
-        v2(segmentX + bodyWidth / numSegments, bottomAttachY),
-        'mountain'
-      )
+      fold(v2(x0, 0), v2(x1, 0), 'mountain', { id: `${id}-roof-fold`, role: 'panel-fold', angle: Math.PI / 4 }),
+      fold(v2(x0, base), v2(x1, base), 'valley', { id: `${id}-handle-fold`, role: 'panel-fold', angle: Math.PI / 4 }),
+      fold(v2(x0, 0), v2(x0, base), 'cut', { id: `${id}-roof-side-a`, role: 'perimeter' }),
+      fold(v2(x1, 0), v2(x1, base), 'cut', { id: `${id}-roof-side-b`, role: 'perimeter' }),
+      fold(v2(x0, base), v2(x0, top), 'cut', { id: `${id}-handle-side-a`, role: 'perimeter' }),
+      fold(v2(x0, top), v2(x1, top), 'cut', { id: `${id}-handle-top-edge`, role: 'perimeter' }),
+      fold(v2(x1, top), v2(x1, base), 'cut', { id: `${id}-handle-side-b`, role: 'perimeter' }),
     );
 
-    const circlePoint = bottomCircleVertices[i];
-    foldLines.push(fold(attachPoint, circlePoint, 'valley'));
-  }
+    // Hand hole: a slot with round ends, each end drawn as two quarter arcs
+    const quarter = (center: THREE.Vector3, from: THREE.Vector3, to: THREE.Vector3, lineId: string) => {
+      const through = from.clone().sub(center).add(to.clone().sub(center)).setLength(q).add(center);
+      return arc(from, through, to, 'cut', { id: lineId, role: 'cut-out' });
+    };
+    const leftCenter = v2(xl + q, cz);
+    const rightCenter = v2(xr - q, cz);
+    const leftUpper = quarter(leftCenter, v2(xl + q, cz - q), v2(xl, cz), `${id}-hole-left-a`);
+    const leftLower = quarter(leftCenter, v2(xl, cz), v2(xl + q, cz + q), `${id}-hole-left-b`);
+    const rightLower = quarter(rightCenter, v2(xr - q, cz + q), v2(xr, cz), `${id}-hole-right-a`);
+    const rightUpper = quarter(rightCenter, v2(xr, cz), v2(xr - q, cz - q), `${id}-hole-right-b`);
+    foldLines.push(
+      fold(v2(xr - q, cz - q), v2(xl + q, cz - q), 'cut', { id: `${id}-hole-top`, role: 'cut-out' }),
+      leftUpper,
+      leftLower,
+      fold(v2(xl + q, cz + q), v2(xr - q, cz + q), 'cut', { id: `${id}-hole-bottom`, role: 'cut-out' }),
+      rightLower,
+      rightUpper,
+    );
+
+    // The plate is cut into convex pieces around the hole, held flat by bend
+    // lines. Each corner piece starts at its outer corner, which sees the
+    // whole quarter arc, so it triangulates as a fan.
+    const handle = { id: `${id}-handle`, role: 'handle' as const };
+    addFace(vertices, faces, handle, [v2(x0, cz + q), v2(x1, cz + q), v2(x1, base), v2(x0, base)]);
+    addFace(vertices, faces, { ...handle, id: `${id}-handle-top` }, [v2(x0, top), v2(x1, top), v2(x1, cz - q), v2(x0, cz - q)]);
+    addFace(vertices, faces, { ...handle, id: `${id}-handle-left-a` }, [v2(x0, cz - q), ...curvePoints(leftUpper), v2(x0, cz)]);
+    addFace(vertices, faces, { ...handle, id: `${id}-handle-left-b` }, [v2(x0, cz + q), v2(x0, cz), ...curvePoints(leftLower)]);
+    addFace(vertices, faces, { ...handle, id: `${id}-handle-right-a` }, [v2(x1, cz + q), ...curvePoints(rightLower), v2(x1, cz)]);
+    addFace(vertices, faces, { ...handle, id: `${id}-handle-right-b` }, [v2(x1, cz - q), v2(x1, cz), ...curvePoints(rightUpper)]);
+
+    const flat = (start: THREE.Vector3, end: THREE.Vector3, suffix: string) =>
+      fold(start, end, 'mountain', { id: `${id}-handle-bend-${suffix}`, role: 'bend', angle: 0 });
+    bendLines.push(
+      flat(v2(x0, cz + q), v2(xl + q, cz + q), 'left-b'),
+      flat(v2(xr - q, cz + q), v2(x1, cz + q), 'right-a'),
+      flat(v2(x0, cz), v2(xl, cz), 'left'),
+      flat(v2(xr, cz), v2(x1, cz), 'right'),
+      flat(v2(x0, cz - q), v2(xl + q, cz - q), 'left-a'),
+      flat(v2(xr - q, cz - q), v2(x1, cz - q), 'right-b'),
+    );
+  });
 
   // ==========================================================================
-  // OUTER PERIMETER CUTS
+  // GABLES (tabs on the sloping edges tuck under the roofs)
   // ==========================================================================
 
-  // Body sides
-  foldLines.push(fold(bodyBL, bodyBR, 'cut'));
-  foldLines.push(fold(bodyTL, bodyTR, 'cut'));
+  [right, left].forEach(panel => {
+    const eaveA = v2(panel.x0, 0);
+    const eaveB = v2(panel.x1, 0);
+    const apex = v2((panel.x0 + panel.x1) / 2, -rise);
+    const along = (from: THREE.Vector3, to: THREE.Vector3, t: number) => from.clone().lerp(to, t);
+
+    const tabs = [
+      { id: `${panel.id}-gable-tab-a`, start: along(eaveA, apex, 0.25), end: along(eaveA, apex, 0.85) },
+      { id: `${panel.id}-gable-tab-b`, start: along(apex, eaveB, 0.15), end: along(apex, eaveB, 0.75) },
+    ];
+    tabs.forEach(({ id, start, end }) => {
+      const tab = generateLockingTab(id, start, end, gableTabDepth, false, Math.PI / 2);
+      foldLines.push(...tab.foldLines);
+      addFace(vertices, faces, { id, role: 'locking-tab' }, tab.vertices);
+    });
 
-  // Left edge (has slit already defined above)
-  const leftTopOfSlit = v2(0, tabEnd - taperInset);
-  const leftBottomOfSlit = v2(0, tabStart + taperInset);
+    foldLines.push(
+      fold(eaveA, tabs[0].start, 'cut', { id: `${panel.id}-gable-edge-a`, role: 'perimeter' }),
+      fold(tabs[0].end, apex, 'cut', { id: `${panel.id}-gable-edge-b`, role: 'perimeter' }),
+      fold(apex, tabs[1].start, 'cut', { id: `${panel.id}-gable-edge-c`, role: 'perimeter' }),
+      fold(tabs[1].end, eaveB, 'cut', { id: `${panel.id}-gable-edge-d`, role: 'perimeter' }),
+    );
+  });
 
-  foldLines.push(fold(bodyBL, leftBottomOfSlit, 'cut'));
-  foldLines.push(fold(leftTopOfSlit, bodyTL, 'cut'));
+  addFace(vertices, faces, { id: 'bottom-tuck', role: 'tuck-flap' }, bottom.tuck);
+  dust.forEach(flap => addFace(vertices, faces, { id: flap.id, role: 'dust-flap' }, flap.polygon));
+  addFace(vertices, faces, { id: 'glue-flap', role: 'glue-flap' }, tube.glue);
 
-  // Right edge (except tab area)
-  foldLines.push(fold(bodyBR, v2(bodyWidth, tabStart), 'cut'));
-  foldLines.push(fold(v2(bodyWidth, tabEnd), bodyTR, 'cut'));
+  // ==========================================================================
+  // FOLD AND CUT LINES (body)
+  // ==========================================================================
+
+  foldLines.push(...tube.foldLines, ...bottom.foldLines);
+  dust.forEach(flap => foldLines.push(...flap.foldLines));
+  foldLines.push(fold(v2(back.x0, H), v2(back.x1, H), 'cut', { id: 'back-bottom-edge', role: 'perimeter' }));
 
   return {
-    name: 'Cylinder (Glue-Free)',
+    name: 'Gable Box',
     vertices,
     foldLines,
     faces,
+    bendLines,
   };
 }
 
@@ -759,7 +2442,8 @@ export function generateCylinderPattern(config: PatternConfig): FoldPattern {
 // =============================================================================
 
 /**
- * Generate the appropriate pattern based on shape type
+ * Generate the appropriate pattern based on shape type. A product made of
+ * several nets returns its first here; see generateAssembly.
  */
 export function generatePattern(config: PatternConfig): FoldPattern {
   switch (config.shapeType) {
@@ -773,11 +2457,44 @@ export function generatePattern(config: PatternConfig): FoldPattern {
       return generatePrismPattern(config);
     case 'cylinder':
       return generateCylinderPattern(config);
+    case 'cone':
+      return generateConePattern(config);
+    case 'polyhedron':
+      return generatePolyhedronPattern(config);
+    case 'mesh':
+      return generateMeshPattern(config);
+    case 'reverse-tuck-end':
+      return generateTuckEndCartonPattern(config, 'reverse');
+    case 'straight-tuck-end':
+      return generateTuckEndCartonPattern(config, 'straight');
+    case 'crash-lock':
+      return generateCrashLockCartonPattern(config);
+    case 'pillow':
+      return generatePillowBoxPattern(config);
+    case 'gable':
+      return generateGableBoxPattern(config);
+    case 'frustum':
+      return generateFrustumPattern(config);
+    case 'matchbox':
+      return generateMatchboxAssembly(config).parts[0].pattern;
+    case 'telescope':
+      return generateTelescopeAssembly(config).parts[0].pattern;
     default:
       return generateBoxPattern(config);
   }
 }
 
+/**
+ * Every net of the product with its place in the assembled product (the
+ * matchbox has a tray, a sleeve and dividers, the telescoping box a base
+ * and a lid; other shapes have one net)
+ */
+export function generateAssembly(config: PatternConfig): Assembly {
+  if (config.shapeType === 'matchbox') return generateMatchboxAssembly(config);
+  if (config.shapeType === 'telescope') return generateTelescopeAssembly(config);
+  return singlePartAssembly(generatePattern(config));
+}
+
 // =============================================================================
 // MESH GENERATION (for 3D preview)
 // =============================================================================
@@ -794,14 +2511,14 @@ export function patternToMesh(
   const positions: number[] = [];
   const indices: number[] = [];
 
-  pattern.vertices.forEach((v) => {
-    positions.push(v.x, v.y, v.z);
+  pattern.vertices.forEach(({ position }) => {
+    positions.push(position.x, position.y, position.z);
   });
 
-  pattern.faces.forEach((face) => {
+  pattern.faces.forEach(({ vertices }) => {
     // Triangulate polygon faces
-    for (let i = 1; i < face.length - 1; i++) {
-      indices.push(face[0], face[i], face[i + 1]);
+    for (let i = 1; i < vertices.length - 1; i++) {
+      indices.push(vertices[0], vertices[i], vertices[i + 1]);
     }
   });
 
@@ -877,10 +2594,7 @@ export function verifyKawasakiJustin(
 
   // Calculate angles between consecutive lines
   const angles: number[] = [];
-  const directions: THREE.Vector3[] = connectedLines.map(line => {
-    const other = line.start.equals(vertex) ? line.end : line.start;
-    return other.clone().sub(vertex).normalize();
-  });
+  const directions: THREE.Vector3[] = connectedLines.map(line => directionFrom(line, vertex));
 
   // Sort by angle from positive x-axis
   directions.sort((a, b) => {
@@ -0,0 +1,311 @@
+/**
+ * Cut Outline
+ *
+ * Chains the cut lines of a FoldPattern into closed loops and checks them
+ * against the boundary of the net's faces. The outer loop is the sheet's
+ * outline, reused by exporters and layout checks.
+ *
+ * Slits (role 'slit') are open cuts by design: they are only part of the
+ * outline where they run along the edge of the net. Curved cuts are traced
+ * along their sampled path; the outline's area is measured along the true
+ * curves.
+ */
+
+import * as THREE from 'three';
+import type { FoldPattern, FoldLine } from '@/types';
+import { pointInPolygon } from './creaseGraph';
+import { curvePoints, lineAreaTerm } from './curve';
+import { polygonArea } from './polygon';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const OUTLINE = {
+  tolerance: 0.001,  // Distance below which two points are the same node
+} as const;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A piece of the net boundary that no cut line covers
+ */
+export interface OutlineGap {
+  face: string;              // Face whose edge is left uncut
+  start: THREE.Vector3;
+  end: THREE.Vector3;
+}
+
+/**
+ * A point where two cut lines cross each other
+ */
+export interface OutlineCrossing {
+  lines: [string, string];
+  point: THREE.Vector3;
+}
+
+export interface CutOutline {
+  outer: THREE.Vector3[] | null;    // Outer loop, counter-clockwise seen from +Y
+  area: number;                     // Sheet inside the outer loop less its holes (0 without one)
+  holes: THREE.Vector3[][];         // Closed loops inside the outer loop (cut-outs)
+  pieces: THREE.Vector3[][];        // Further closed loops outside the outer loop
+  gaps: OutlineGap[];               // Net boundary left uncut
+  danglingEnds: THREE.Vector3[];    // Cut ends that meet no other cut
+  branches: THREE.Vector3[];        // Points where more than two cuts meet
+  crossings: OutlineCrossing[];     // Cuts crossing each other
+  strayCuts: FoldLine[];            // Cuts inside the net that are neither slits nor cut-outs
+}
+
+/**
+ * A cut line split at every point where another line or corner touches it
+ */
+interface CutPiece {
+  line: FoldLine;
+  a: number;                        // Node indices
+  b: number;
+  ta: number;                       // Line parameters at a and b
+  tb: number;
+  onBoundary: boolean;
+}
+
+// =============================================================================
+// NODES AND PIECES
+// =============================================================================
+
+/**
+ * Index of the node at a point, adding it if new
+ */
+function nodeAt(nodes: THREE.Vector3[], point: THREE.Vector3): number {
+  const existing = nodes.findIndex(n => n.distanceTo(point) < OUTLINE.tolerance);
+  if (existing >= 0) return existing;
+  nodes.push(point.clone());
+  return nodes.length - 1;
+}
+
+/**
+ * Split segment a-b at the given nodes lying strictly inside it
+ */
+function splitAt(nodes: THREE.Vector3[], a: number, b: number): [number, number][] {
+  const start = nodes[a];
+  const dir = nodes[b].clone().sub(start);
+  const len = dir.length();
+  if (len < OUTLINE.tolerance) return [];
+  dir.divideScalar(len);
+
+  const line = new THREE.Line3(start, nodes[b]);
+  const closest = new THREE.Vector3();
+  const inner = nodes
+    .map((node, index) => ({ index, t: node.clone().sub(start).dot(dir) }))
+    .filter(({ index, t }) => {
+      if (index === a || index === b) return false;
+      if (t < OUTLINE.tolerance || t > len - OUTLINE.tolerance) return false;
+      line.closestPointToPoint(nodes[index], true, closest);
+      return closest.distanceTo(nodes[index]) < OUTLINE.tolerance;
+    })
+    .sort((p, q) => p.t - q.t)
+    .map(({ index }) => index);
+
+  const chain = [a, ...inner, b];
+  return chain.slice(0, -1).map((n, i) => [n, chain[i + 1]]);
+}
+
+const pieceKey = (a: number, b: number): string => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+/**
+ * Point where segments p1-p2 and q1-q2 cross away from their ends, if any
+ */
+function crossingPoint(
+  p1: THREE.Vector3,
+  p2: THREE.Vector3,
+  q1: THREE.Vector3,
+  q2: THREE.Vector3
+): THREE.Vector3 | null {
+  const r = p2.clone().sub(p1);
+  const s = q2.clone().sub(q1);
+  const denom = r.x * s.z - r.z * s.x;
+  if (Math.abs(denom) < 1e-12) return null;
+
+  const qp = q1.clone().sub(p1);
+  const t = (qp.x * s.z - qp.z * s.x) / denom;
+  const u = (qp.x * r.z - qp.z * r.x) / denom;
+  const margin = OUTLINE.tolerance / Math.max(r.length(), s.length());
+  if (t <= margin || t >= 1 - margin || u <= margin || u >= 1 - margin) return null;
+
+  return p1.clone().addScaledVector(r, t);
+}
+
+// =============================================================================
+// OUTLINE TRACING
+// =============================================================================
+
+/**
+ * Chain the cut lines of a pattern into loops.
+ *
+ * Face edges that belong to exactly one face form the net boundary; every
+ * piece of it must be cut. Cuts off the boundary must be slits or form
+ * closed cut-outs; anything else is reported as stray.
+ */
+export function traceCutOutline(pattern: FoldPattern): CutOutline {
+  const nodes: THREE.Vector3[] = [];
+  const polygons = pattern.faces.map(face => face.vertices.map(i => pattern.vertices[i].position));
+  const cuts = pattern.foldLines.filter(line => line.type === 'cut');
+
+  // Every corner and line end is a node, so boundaries and cuts split alike
+  polygons.forEach(polygon => polygon.forEach(p => nodeAt(nodes, p)));
+  pattern.foldLines.forEach(line => curvePoints(line).forEach(p => nodeAt(nodes, p)));
+
+  // Net boundary: face edge pieces used by exactly one face
+  const edgeUse = new Map<string, { face: number; a: number; b: number; count: number }>();
+  polygons.forEach((polygon, face) => {
+    polygon.forEach((p, k) => {
+      const q = polygon[(k + 1) % polygon.length];
+      splitAt(nodes, nodeAt(nodes, p), nodeAt(nodes, q)).forEach(([a, b]) => {
+        const key = pieceKey(a, b);
+        const use = edgeUse.get(key);
+        if (use) use.count++;
+        else edgeUse.set(key, { face, a, b, count: 1 });
+      });
+    });
+  });
+  const boundary = new Map([...edgeUse].filter(([, use]) => use.count === 1));
+
+  // Split the cuts the same way; a piece cut twice counts once
+  const pieces = new Map<string, CutPiece>();
+  cuts.forEach(line => {
+    const path = curvePoints(line);
+    const steps = path.length - 1;
+    path.slice(0, -1).forEach((p, k) => {
+      // Parameter of a node on this sample segment (samples are evenly spaced in t)
+      const q = path[k + 1];
+      const span = p.distanceTo(q);
+      const paramAt = (n: number) => (k + (span > 0 ? nodes[n].distanceTo(p) / span : 0)) / steps;
+
+      splitAt(nodes, nodeAt(nodes, p), nodeAt(nodes, q)).forEach(([a, b]) => {
+        const key = pieceKey(a, b);
+        if (pieces.has(key)) return;
+        pieces.set(key, { line, a, b, ta: paramAt(a), tb: paramAt(b), onBoundary: boundary.has(key) });
+      });
+    });
+  });
+
+  const gaps: OutlineGap[] = [...boundary]
+    .filter(([key]) => !pieces.has(key))
+    .map(([, use]) => ({
+      face: pattern.faces[use.face].id,
+      start: nodes[use.a].clone(),
+      end: nodes[use.b].clone(),
+    }));
+
+  // Loops run through boundary pieces and interior non-slit pieces
+  const traced = [...pieces.values()].filter(piece => piece.onBoundary || piece.line.role !== 'slit');
+  const adjacency = new Map<number, CutPiece[]>();
+  traced.forEach(piece => {
+    [piece.a, piece.b].forEach(n => {
+      if (!adjacency.has(n)) adjacency.set(n, []);
+      adjacency.get(n)!.push(piece);
+    });
+  });
+
+  const danglingEnds: THREE.Vector3[] = [];
+  const branches: THREE.Vector3[] = [];
+  adjacency.forEach((list, n) => {
+    if (list.length === 1) danglingEnds.push(nodes[n].clone());
+    else if (list.length > 2) branches.push(nodes[n].clone());
+  });
+
+  // Walk chains of unused pieces; a chain that returns to its start is a loop
+  const used = new Set<CutPiece>();
+  const loops: { nodes: number[]; pieces: CutPiece[] }[] = [];
+  const openPieces: CutPiece[] = [];
+
+  traced.forEach(first => {
+    if (used.has(first)) return;
+    used.add(first);
+
+    const chain = [first.a, first.b];
+    const chainPieces = [first];
+    let current = first.b;
+
+    while (current !== first.a) {
+      const next = (adjacency.get(current) ?? []).find(p => !used.has(p));
+      if (!next) break;
+      used.add(next);
+      chainPieces.push(next);
+      current = next.a === current ? next.b : next.a;
+      chain.push(current);
+    }
+
+    if (current === first.a && chainPieces.length >= 3) {
+      loops.push({ nodes: chain.slice(0, -1), pieces: chainPieces });
+    } else {
+      openPieces.push(...chainPieces);
+    }
+  });
+
+  // The loop enclosing the most area is the sheet's outline
+  const polygonsOf = loops.map(loop => loop.nodes.map(n => nodes[n].clone()));
+  const areas = polygonsOf.map(polygon => Math.abs(polygonArea(polygon)));
+  const outerIndex = areas.length > 0 ? areas.indexOf(Math.max(...areas)) : -1;
+
+  // Exact areas follow each piece's line in the direction the loop walks it
+  const loopArea = (loop: { nodes: number[]; pieces: CutPiece[] }) => Math.abs(
+    loop.pieces.reduce((sum, piece, i) => {
+      const forward = piece.a === loop.nodes[i];
+      return sum + lineAreaTerm(piece.line, forward ? piece.ta : piece.tb, forward ? piece.tb : piece.ta);
+    }, 0)
+  );
+
+  let outer: THREE.Vector3[] | null = null;
+  let area = 0;
+  const holes: THREE.Vector3[][] = [];
+  const separate: THREE.Vector3[][] = [];
+
+  if (outerIndex >= 0) {
+    const polygon = polygonsOf[outerIndex];
+    outer = polygonArea(polygon) < 0 ? polygon.reverse() : polygon;
+    area = loopArea(loops[outerIndex]);
+
+    polygonsOf.forEach((loop, i) => {
+      if (i === outerIndex) return;
+      const inside = loop.every(p => pointInPolygon(p, outer!));
+      (inside ? holes : separate).push(loop);
+      if (inside) area -= loopArea(loops[i]);
+    });
+  }
+
+  // Interior cuts that close no loop have no reason to be there
+  const strayCuts = [...new Set(openPieces.filter(p => !p.onBoundary).map(p => p.line))];
+
+  // Crossing cuts (pieces already meet only at shared nodes)
+  const crossings: OutlineCrossing[] = [];
+  const allPieces = [...pieces.values()];
+  for (let i = 0; i < allPieces.length; i++) {
+    for (let j = i + 1; j < allPieces.length; j++) {
+      const p = allPieces[i];
+      const q = allPieces[j];
+      const point = crossingPoint(nodes[p.a], nodes[p.b], nodes[q.a], nodes[q.b]);
+      if (point) crossings.push({ lines: [p.line.id, q.line.id], point });
+    }
+  }
+
+  return {
+    outer,
+    area,
+    holes,
+    pieces: separate,
+    gaps,
+    danglingEnds,
+    branches,
+    crossings,
+    strayCuts,
+  };
+}
+
+/**
+ * The outer cut outline of a pattern, or null if the cuts do not close
+ */
+export function getOuterOutline(pattern: FoldPattern): THREE.Vector3[] | null {
+  return traceCutOutline(pattern).outer;
+}
@@ -6,7 +6,9 @@
  */
 
 import type { PatternConfig, FoldPattern, ShapeType } from '@/types';
-import { generatePattern } from './geometry';
+import { TELESCOPE, generatePattern } from './geometry';
+import { SHEET } from './sheet';
+import { pointOnLine } from './curve';
 
 // =============================================================================
 // PARAMETER USAGE DEFINITIONS
@@ -42,7 +44,7 @@ export const PARAMETER_USAGE: Record<ShapeType, {
     height: true,
     depth: false,  // Depth is ignored!
     thickness: false,
-    notes: 'Hexagonal prism defined by width (diameter) and height only',
+    notes: 'N-sided prism (3-12 sides) sized by width across its flats or corners, and height',
   },
   cylinder: {
     width: true,
@@ -58,6 +60,83 @@ export const PARAMETER_USAGE: Record<ShapeType, {
     thickness: false,
     notes: 'Envelopes are 2D: width × depth, height ignored',
   },
+  'reverse-tuck-end': {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Front × height × depth; tuck and dust flaps scale with width and depth',
+  },
+  'straight-tuck-end': {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Front × height × depth; tuck and dust flaps scale with width and depth',
+  },
+  'crash-lock': {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Front × height × depth; the bottom flaps meet on the width × depth diagonal',
+  },
+  pillow: {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Panel width × length × opening; depth is capped at 45% of the width so the end flaps clear',
+  },
+  gable: {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Front × body height × depth; the ridge rises D/2 above the body and the handle plates above that',
+  },
+  frustum: {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: false,
+    notes: 'Base width × depth and vertical height; the top opening defaults to 1.25× the base',
+  },
+  cone: {
+    width: true,
+    height: true,
+    depth: false,  // Round like the cylinder: diameters and height
+    thickness: false,
+    notes: 'Bottom diameter and vertical height; topWidth truncates it, pointed by default',
+  },
+  polyhedron: {
+    width: true,
+    height: false,  // The solid fixes its own proportions
+    depth: false,
+    thickness: false,
+    notes: 'Width across the corners (the circumscribed sphere); the solid sets the rest',
+  },
+  mesh: {
+    width: true,
+    height: false,  // The imported mesh fixes its own proportions
+    depth: false,
+    thickness: false,
+    notes: 'Largest extent of the imported mesh; the file sets the rest',
+  },
+  matchbox: {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: true,  // Sets the stack-up and the sliding gap
+    notes: 'Tray outside width × length × height; the sleeve and dividers are sized around it from the thickness',
+  },
+  telescope: {
+    width: true,
+    height: true,
+    depth: true,
+    thickness: true,  // Sets the stack-up and the lid's fit over the base
+    notes: 'Base outside width × depth × height; the lid is sized over it from the thickness',
+  },
 };
 
 // =============================================================================
@@ -95,8 +174,8 @@ function patternsAreEqual(p1: FoldPattern, p2: FoldPattern): boolean {
   // Check vertices (tolerance for floating point)
   const tolerance = 0.0001;
   for (let i = 0; i < p1.vertices.length; i++) {
-    const v1 = p1.vertices[i];
-    const v2 = p2.vertices[i];
+    const v1 = p1.vertices[i].position;
+    const v2 = p2.vertices[i].position;
     if (v1.distanceTo(v2) > tolerance) {
       return false;
     }
@@ -110,6 +189,9 @@ function patternsAreEqual(p1: FoldPattern, p2: FoldPattern): boolean {
     if (l1.type !== l2.type) return false;
     if (l1.start.distanceTo(l2.start) > tolerance) return false;
     if (l1.end.distanceTo(l2.end) > tolerance) return false;
+
+    // Curves with the same ends can still bow differently
+    if (pointOnLine(l1, 0.5).distanceTo(pointOnLine(l2, 0.5)) > tolerance) return false;
   }
 
   return true;
@@ -203,7 +285,13 @@ export function validateParameterBehavior(config: PatternConfig): BehaviorValida
     shouldBeShown: true,  // Always show thickness for validation purposes
   };
 
-  if (!thicknessTest.used && !thicknessTest.actuallyAffectsPattern) {
+  if (thicknessTest.used && !thicknessTest.actuallyAffectsPattern) {
+    thicknessTest.issue = 'Parameter marked as used but changing it has no effect';
+    warnings.push(`Thickness has no effect on the pattern but is marked as used`);
+  } else if (!thicknessTest.used && thicknessTest.actuallyAffectsPattern) {
+    thicknessTest.issue = 'Parameter marked as unused but actually affects pattern';
+    warnings.push(`Thickness affects pattern but is marked as unused`);
+  } else if (!thicknessTest.used) {
     recommendations.push(`Thickness only used in validation, not pattern generation`);
   }
   tests.push(thicknessTest);
@@ -235,7 +323,7 @@ export function validateParameterBehavior(config: PatternConfig): BehaviorValida
  * Validate all standard shapes with default configs
  */
 export function validateAllShapes(): Record<ShapeType, BehaviorValidation> {
-  const shapes: ShapeType[] = ['box', 'pyramid', 'prism', 'cylinder', 'envelope'];
+  const shapes: ShapeType[] = ['box', 'pyramid', 'prism', 'cylinder', 'envelope', 'reverse-tuck-end', 'straight-tuck-end', 'crash-lock', 'pillow', 'gable', 'frustum', 'cone', 'polyhedron', 'mesh', 'matchbox', 'telescope'];
 
   const results: Record<string, BehaviorValidation> = {};
 
@@ -344,10 +432,32 @@ export function detectPyramidEdgeCase(config: PatternConfig): {
     baseSize,
     limitingDimension,
     message: `Base size limited by ${limitingDimension} (${baseSize}cm). ` +
-             `Changing ${unusedDimension} has no effect unless it becomes < ${baseSize}cm.`,
+             `Changing ${unusedDimension} has no effect unless it becomes < ${baseSize}cm. ` +
+             'The tapered tray takes a rectangular base.',
   };
 }
 
+/**
+ * Limits of the configuration sliders, the same for every shape
+ */
+export const SLIDER_LIMITS = {
+  size: { min: 1, max: 20, step: 0.5 },        // Width, height and depth (cm)
+  thickness: { min: 0.1, max: 5, step: 0.1 },  // mm
+} as const;
+
+/**
+ * Thickest material (mm) a config can be built from. A telescoping box's
+ * single walls stack four thicknesses across its base, which must leave
+ * TELESCOPE.minOpening of the shorter side open.
+ */
+export function getMaxThickness(config: PatternConfig): number {
+  const { max, step } = SLIDER_LIMITS.thickness;
+  if (config.shapeType !== 'telescope') return max;
+
+  const room = (Math.min(config.width, config.depth) * (1 - TELESCOPE.minOpening) / 4) * SHEET.mmPerUnit;
+  return Math.min(max, Number((Math.floor(room / step + 1e-9) * step).toFixed(2)));
+}
+
 /**
  * Get recommended parameter ranges for a shape
  */
@@ -383,6 +493,72 @@ export function getRecommendedRanges(shapeType: ShapeType): Record<string, { min
       depth: { min: 5, max: 20, step: 0.5, default: 11 },
       thickness: { min: 0.1, max: 1, step: 0.05, default: 0.3 },
     },
+    'reverse-tuck-end': {
+      width: { min: 2, max: 20, step: 0.5, default: 6 },
+      height: { min: 2, max: 30, step: 0.5, default: 10 },
+      depth: { min: 1, max: 15, step: 0.5, default: 3 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    'straight-tuck-end': {
+      width: { min: 2, max: 20, step: 0.5, default: 6 },
+      height: { min: 2, max: 30, step: 0.5, default: 10 },
+      depth: { min: 1, max: 15, step: 0.5, default: 3 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    'crash-lock': {
+      width: { min: 3, max: 25, step: 0.5, default: 8 },
+      height: { min: 2, max: 30, step: 0.5, default: 10 },
+      depth: { min: 2, max: 20, step: 0.5, default: 5 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    pillow: {
+      width: { min: 4, max: 25, step: 0.5, default: 10 },
+      height: { min: 4, max: 30, step: 0.5, default: 14 },
+      depth: { min: 1, max: 10, step: 0.5, default: 3 },
+      thickness: { min: 0.2, max: 0.6, step: 0.05, default: 0.3 },
+    },
+    gable: {
+      width: { min: 4, max: 25, step: 0.5, default: 10 },
+      height: { min: 3, max: 30, step: 0.5, default: 10 },
+      depth: { min: 3, max: 20, step: 0.5, default: 6 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    frustum: {
+      width: { min: 2, max: 30, step: 0.5, default: 10 },
+      height: { min: 1, max: 20, step: 0.5, default: 3 },
+      depth: { min: 2, max: 30, step: 0.5, default: 7 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    cone: {
+      width: { min: 2, max: 30, step: 0.5, default: 8 },
+      height: { min: 1, max: 30, step: 0.5, default: 10 },
+      depth: { min: 1, max: 20, step: 0.5, default: 5 },  // Not used
+      thickness: { min: 0.1, max: 1, step: 0.05, default: 0.3 },
+    },
+    polyhedron: {
+      width: { min: 3, max: 30, step: 0.5, default: 8 },
+      height: { min: 1, max: 20, step: 0.5, default: 8 },  // Not used
+      depth: { min: 1, max: 20, step: 0.5, default: 8 },   // Not used
+      thickness: { min: 0.1, max: 1, step: 0.05, default: 0.3 },
+    },
+    mesh: {
+      width: { min: 3, max: 40, step: 0.5, default: 10 },
+      height: { min: 1, max: 20, step: 0.5, default: 10 },  // Not used
+      depth: { min: 1, max: 20, step: 0.5, default: 10 },   // Not used
+      thickness: { min: 0.1, max: 1, step: 0.05, default: 0.3 },
+    },
+    telescope: {
+      width: { min: 3, max: 30, step: 0.5, default: 10 },
+      height: { min: 1, max: 20, step: 0.5, default: 6 },
+      depth: { min: 3, max: 30, step: 0.5, default: 10 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
+    matchbox: {
+      width: { min: 2, max: 20, step: 0.1, default: 3.6 },
+      height: { min: 0.8, max: 10, step: 0.1, default: 1.5 },
+      depth: { min: 3, max: 25, step: 0.1, default: 5.3 },
+      thickness: { min: 0.2, max: 1, step: 0.05, default: 0.4 },
+    },
   };
 
   return ranges[shapeType] || ranges.box;
@@ -399,5 +575,6 @@ export default {
   formatBehaviorReport,
   formatAllShapesReport,
   detectPyramidEdgeCase,
+  getMaxThickness,
   getRecommendedRanges,
 };
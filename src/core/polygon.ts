@@ -0,0 +1,171 @@
+/**
+ * Polygon Utilities
+ *
+ * Planar polygon helpers for flat patterns on the XZ plane. Polygons are
+ * arrays of corners; positive area means counter-clockwise seen from +Y,
+ * the winding used for pattern faces.
+ */
+
+import * as THREE from 'three';
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+/**
+ * Signed area on the XZ plane; positive when the normal points +Y
+ */
+export function polygonArea(polygon: THREE.Vector3[]): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    area += a.z * b.x - a.x * b.z;
+  }
+  return area / 2;
+}
+
+/**
+ * Area-weighted centroid (falls back to the corner average for slivers)
+ */
+export function polygonCentroid(polygon: THREE.Vector3[]): THREE.Vector3 {
+  const area = polygonArea(polygon);
+  const centroid = new THREE.Vector3();
+
+  if (Math.abs(area) < 1e-12) {
+    polygon.forEach(p => centroid.add(p));
+    return centroid.divideScalar(Math.max(polygon.length, 1));
+  }
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = a.z * b.x - a.x * b.z;
+    centroid.x += (a.x + b.x) * cross;
+    centroid.z += (a.z + b.z) * cross;
+  }
+  return centroid.divideScalar(6 * area);
+}
+
+/**
+ * Axis-aligned bounds of a polygon
+ */
+export function polygonBounds(polygon: THREE.Vector3[]): THREE.Box3 {
+  return new THREE.Box3().setFromPoints(polygon);
+}
+
+/**
+ * Convex hull (monotone chain), positive winding
+ */
+export function convexHull(points: THREE.Vector3[]): THREE.Vector3[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.z - b.z);
+  if (sorted.length < 3) return sorted;
+
+  const half = (list: THREE.Vector3[]): THREE.Vector3[] => {
+    const chain: THREE.Vector3[] = [];
+    list.forEach(p => {
+      while (chain.length >= 2 && side(chain[chain.length - 2], chain[chain.length - 1], p) >= 0) {
+        chain.pop();
+      }
+      chain.push(p);
+    });
+    chain.pop();
+    return chain;
+  };
+
+  const hull = [...half(sorted), ...half([...sorted].reverse())];
+  return polygonArea(hull) < 0 ? hull.reverse() : hull;
+}
+
+// =============================================================================
+// CLIPPING
+// =============================================================================
+
+/**
+ * Which side of the directed edge a→b a point lies on (> 0 = left, seen from +Y)
+ */
+function side(a: THREE.Vector3, b: THREE.Vector3, p: THREE.Vector3): number {
+  return (b.z - a.z) * (p.x - a.x) - (b.x - a.x) * (p.z - a.z);
+}
+
+/**
+ * Intersection of segment p-q with the infinite line through a-b
+ */
+function intersect(
+  p: THREE.Vector3,
+  q: THREE.Vector3,
+  a: THREE.Vector3,
+  b: THREE.Vector3
+): THREE.Vector3 {
+  const sp = side(a, b, p);
+  const sq = side(a, b, q);
+  return p.clone().lerp(q, sp / (sp - sq));
+}
+
+/**
+ * Clip a polygon against a convex polygon (Sutherland-Hodgman)
+ */
+export function clipPolygon(subject: THREE.Vector3[], clip: THREE.Vector3[]): THREE.Vector3[] {
+  const convex = polygonArea(clip) < 0 ? [...clip].reverse() : clip;
+  let output = subject;
+
+  for (let i = 0; i < convex.length && output.length > 0; i++) {
+    const a = convex[i];
+    const b = convex[(i + 1) % convex.length];
+    const input = output;
+    output = [];
+
+    for (let j = 0; j < input.length; j++) {
+      const p = input[j];
+      const q = input[(j + 1) % input.length];
+      const pInside = side(a, b, p) >= 0;
+      const qInside = side(a, b, q) >= 0;
+
+      if (pInside) output.push(p);
+      if (pInside !== qInside) output.push(intersect(p, q, a, b));
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Split a polygon into a fan of triangles (faces are convex or star-shaped
+ * from their first corner, as in mesh generation)
+ */
+export function triangulate(polygon: THREE.Vector3[]): THREE.Vector3[][] {
+  const triangles: THREE.Vector3[][] = [];
+  for (let i = 1; i < polygon.length - 1; i++) {
+    triangles.push([polygon[0], polygon[i], polygon[i + 1]]);
+  }
+  return triangles;
+}
+
+/**
+ * The region two polygons share: the pieces of their intersection and its
+ * total area. Polygons that only touch along an edge share no area.
+ */
+export function polygonIntersection(
+  a: THREE.Vector3[],
+  b: THREE.Vector3[]
+): { pieces: THREE.Vector3[][]; area: number } {
+  const pieces: THREE.Vector3[][] = [];
+  let area = 0;
+
+  if (!polygonBounds(a).intersectsBox(polygonBounds(b))) {
+    return { pieces, area };
+  }
+
+  triangulate(a).forEach(ta => {
+    triangulate(b).forEach(tb => {
+      const piece = clipPolygon(ta, tb);
+      if (piece.length < 3) return;
+      const pieceArea = Math.abs(polygonArea(piece));
+      if (pieceArea <= 0) return;
+      pieces.push(piece);
+      area += pieceArea;
+    });
+  });
+
+  return { pieces, area };
+}
@@ -0,0 +1,488 @@
+/**
+ * Polyhedra
+ *
+ * Platonic and Archimedean solids as face/edge descriptions, meshes
+ * imported from files, and their unfolding into flat nets. A solid is a list
+ * of corners and faces, each face counter-clockwise seen from outside; edges
+ * follow from the faces.
+ *
+ * A net is a spanning tree of the faces: every face but the root is laid
+ * flat against its parent across the edge they share. Trees are tried in a
+ * fixed order (breadth-first, then seeded random growth) until one lays out
+ * without two faces overlapping, so a solid always unfolds the same way.
+ */
+
+import * as THREE from 'three';
+import type { ImportedMesh, PolyhedronType } from '@/types';
+import { polygonIntersection } from './polygon';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const POLYHEDRA = {
+  defaultSolid: 'icosahedron' as PolyhedronType,
+  randomTrees: 200,     // Spanning trees grown before repairing the best one
+  repairSteps: 600,     // Hinge moves tried on the best tree before settling for the least overlap
+  seed: 1,              // Random trees are seeded, so nets are stable
+  tabRatio: 0.2,        // Tab depth, of the edge length
+  tabClearance: 1.05,   // Tab depth tried against the rest of the net, so no cut just touches another
+  slitInset: 0.25,      // Slit distance from its edge, of the tab depth
+  slitRatio: 0.8,       // Slit length, of the edge length (tab tips are 0.7)
+  overlapTolerance: 1e-6,   // Shared area, of the squared edge length, below which faces only touch
+} as const;
+
+export const POLYHEDRON_NAMES: Record<PolyhedronType, string> = {
+  tetrahedron: 'Tetrahedron',
+  octahedron: 'Octahedron',
+  dodecahedron: 'Dodecahedron',
+  icosahedron: 'Icosahedron',
+  'truncated-icosahedron': 'Truncated Icosahedron',
+};
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Corners and faces of a convex solid; faces list corner indices
+ * counter-clockwise seen from outside
+ */
+export interface Polyhedron {
+  vertices: THREE.Vector3[];
+  faces: number[][];
+}
+
+/**
+ * An edge between corners a and b, with the faces on either side
+ */
+export interface PolyhedronEdge {
+  a: number;
+  b: number;
+  faces: number[];   // Both faces, or the one face of an open mesh edge
+  turn: number;      // Angle between the faces' normals: > 0 where the solid is convex, < 0 where concave
+}
+
+/**
+ * A solid unfolded flat on the XZ plane, printed side (outside) up
+ */
+export interface PolyhedronNet {
+  solid: Polyhedron;
+  edges: PolyhedronEdge[];
+  parent: number[];              // Parent face of each face; -1 for the root (face 0)
+  hinge: number[];               // Edge joining each face to its parent; -1 for the root
+  polygons: THREE.Vector3[][];   // Flat corners of each face, in the solid's order
+  overlap: number;               // Area two faces share (0 for a clean net)
+}
+
+// =============================================================================
+// CONSTRUCTION
+// =============================================================================
+
+/**
+ * Unit outward normal of a face (Newell's method, so corners lying in line
+ * along an edge are harmless)
+ */
+function faceNormal(solid: Polyhedron, face: number[]): THREE.Vector3 {
+  const normal = new THREE.Vector3();
+  face.forEach((i, k) => {
+    const a = solid.vertices[i];
+    const b = solid.vertices[face[(k + 1) % face.length]];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  });
+  return normal.normalize();
+}
+
+function faceCenter(vertices: THREE.Vector3[], face: number[]): THREE.Vector3 {
+  const center = new THREE.Vector3();
+  face.forEach(i => center.add(vertices[i]));
+  return center.divideScalar(face.length);
+}
+
+/**
+ * Order a face's corners counter-clockwise seen from outside (the solids
+ * are centred on the origin, so outside is away from it)
+ */
+function orderFace(vertices: THREE.Vector3[], face: number[]): number[] {
+  const center = faceCenter(vertices, face);
+  const normal = center.clone().normalize();
+  const u = vertices[face[0]].clone().sub(center).normalize();
+  const w = normal.clone().cross(u);
+  const angle = (i: number) => {
+    const d = vertices[i].clone().sub(center);
+    return Math.atan2(d.dot(w), d.dot(u));
+  };
+  return [...face].sort((a, b) => angle(a) - angle(b));
+}
+
+/**
+ * Solid whose faces are every triangle of corners at the shortest distance
+ * from one another (tetrahedron, octahedron, icosahedron)
+ */
+function deltahedron(vertices: THREE.Vector3[]): Polyhedron {
+  let edge = Infinity;
+  vertices.forEach((a, i) => vertices.forEach((b, j) => {
+    if (i < j) edge = Math.min(edge, a.distanceTo(b));
+  }));
+  const adjacent = (i: number, j: number) => Math.abs(vertices[i].distanceTo(vertices[j]) - edge) < edge * 1e-6;
+
+  const faces: number[][] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    for (let j = i + 1; j < vertices.length; j++) {
+      if (!adjacent(i, j)) continue;
+      for (let k = j + 1; k < vertices.length; k++) {
+        if (adjacent(i, k) && adjacent(j, k)) faces.push(orderFace(vertices, [i, j, k]));
+      }
+    }
+  }
+  return { vertices, faces };
+}
+
+/**
+ * Dual solid: a corner at each face centre, a face around each corner
+ */
+function dual(solid: Polyhedron): Polyhedron {
+  const vertices = solid.faces.map(face => faceCenter(solid.vertices, face));
+  const faces = solid.vertices.map((_, v) =>
+    orderFace(vertices, solid.faces.flatMap((face, f) => face.includes(v) ? [f] : []))
+  );
+  return { vertices, faces };
+}
+
+/**
+ * Cut every corner off a third of the way along its edges: each corner
+ * becomes a face, and each face gains a side per corner it had
+ */
+function truncate(solid: Polyhedron): Polyhedron {
+  const vertices: THREE.Vector3[] = [];
+  const near = new Map<string, number>();   // 'from>to' → corner a third of the way from 'from'
+
+  const pointNear = (from: number, to: number): number => {
+    const key = `${from}>${to}`;
+    if (!near.has(key)) {
+      near.set(key, vertices.length);
+      vertices.push(solid.vertices[from].clone().lerp(solid.vertices[to], 1 / 3));
+    }
+    return near.get(key)!;
+  };
+
+  const faces = solid.faces.map(face => face.flatMap((v, k) => {
+    const next = face[(k + 1) % face.length];
+    return [pointNear(v, next), pointNear(next, v)];
+  }));
+  solid.vertices.forEach((_, v) => {
+    const corners = solid.faces.flatMap(face => {
+      const k = face.indexOf(v);
+      return k < 0 ? [] : [pointNear(v, face[(k + 1) % face.length])];
+    });
+    faces.push(orderFace(vertices, corners));
+  });
+
+  return { vertices, faces: faces.map(face => orderFace(vertices, face)) };
+}
+
+function icosahedron(): Polyhedron {
+  const vertices: THREE.Vector3[] = [];
+  [-1, 1].forEach(s => [-PHI, PHI].forEach(t => {
+    vertices.push(new THREE.Vector3(0, s, t), new THREE.Vector3(s, t, 0), new THREE.Vector3(t, 0, s));
+  }));
+  return deltahedron(vertices);
+}
+
+/**
+ * A solid centred on the origin with the given circumradius
+ */
+export function buildPolyhedron(type: PolyhedronType, radius: number = 1): Polyhedron {
+  const solid = (() => {
+    switch (type) {
+      case 'tetrahedron':
+        return deltahedron([[1, 1, 1], [1, -1, -1], [-1, 1, -1], [-1, -1, 1]].map(p => new THREE.Vector3(...p)));
+      case 'octahedron':
+        return deltahedron([[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]].map(p => new THREE.Vector3(...p)));
+      case 'dodecahedron':
+        return dual(icosahedron());
+      case 'truncated-icosahedron':
+        return truncate(icosahedron());
+      case 'icosahedron':
+      default:
+        return icosahedron();
+    }
+  })();
+
+  const scale = radius / solid.vertices[0].length();
+  solid.vertices.forEach(v => v.multiplyScalar(scale));
+  return solid;
+}
+
+/**
+ * An imported mesh as a solid, centred on the origin and scaled so its
+ * largest extent is `size`
+ */
+export function polyhedronFromMesh(mesh: ImportedMesh, size: number): Polyhedron {
+  const vertices = mesh.vertices.map(([x, y, z]) => new THREE.Vector3(x, y, z));
+  const bounds = new THREE.Box3().setFromPoints(vertices);
+  const extent = bounds.getSize(new THREE.Vector3());
+  const center = bounds.getCenter(new THREE.Vector3());
+  const scale = size / Math.max(extent.x, extent.y, extent.z);
+  vertices.forEach(v => v.sub(center).multiplyScalar(scale));
+  return { vertices, faces: mesh.faces.map(face => [...face]) };
+}
+
+/**
+ * Edges of a solid, each with the faces it joins. Corner b follows corner a
+ * in the first face's order.
+ */
+export function polyhedronEdges(solid: Polyhedron): PolyhedronEdge[] {
+  const byKey = new Map<string, { a: number; b: number; faces: number[] }>();
+  solid.faces.forEach((face, f) => face.forEach((a, k) => {
+    const b = face[(k + 1) % face.length];
+    const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+    if (!byKey.has(key)) byKey.set(key, { a, b, faces: [] });
+    byKey.get(key)!.faces.push(f);
+  }));
+
+  // The normals turn about the edge one way over a ridge and the other way in a valley
+  const normals = solid.faces.map(face => faceNormal(solid, face));
+  return [...byKey.values()].map(({ a, b, faces }) => {
+    if (faces.length < 2) return { a, b, faces, turn: 0 };
+    const [f, g] = faces;
+    const along = solid.vertices[b].clone().sub(solid.vertices[a]);
+    const convex = normals[f].clone().cross(normals[g]).dot(along) >= 0;
+    return { a, b, faces, turn: convex ? normals[f].angleTo(normals[g]) : -normals[f].angleTo(normals[g]) };
+  });
+}
+
+// =============================================================================
+// UNFOLDING
+// =============================================================================
+
+/**
+ * Small seeded generator (mulberry32) returning values in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Spanning tree grown from face 0: breadth-first when `random` is omitted,
+ * otherwise across a random edge of the growing tree each step.
+ * Returns the edge joining each face to its parent.
+ */
+function spanningTree(faceCount: number, edges: PolyhedronEdge[], random?: () => number): number[] {
+  const hinge = new Array<number>(faceCount).fill(-1);
+  const reached = new Set<number>([0]);
+  const frontier = edges.flatMap((edge, e) => edge.faces.includes(0) ? [e] : []);
+
+  while (reached.size < faceCount && frontier.length > 0) {
+    const pick = random ? Math.floor(random() * frontier.length) : 0;
+    const e = frontier.splice(pick, 1)[0];
+    const [f, g] = edges[e].faces;
+    if (g === undefined) continue;
+    const face = reached.has(f) ? g : f;
+    if (reached.has(face)) continue;
+
+    reached.add(face);
+    hinge[face] = e;
+    edges.forEach((edge, next) => {
+      if (edge.faces.includes(face)) frontier.push(next);
+    });
+  }
+  return hinge;
+}
+
+/**
+ * Lay a face flat in its own frame: first edge along +X, outside up (+Y).
+ * For the root face this places the whole solid as its net is laid out.
+ */
+export function faceFrame(solid: Polyhedron, face: number[]): THREE.Matrix4 {
+  const origin = solid.vertices[face[0]];
+  const u = solid.vertices[face[1]].clone().sub(origin).normalize();
+  const n = faceNormal(solid, face);
+  const w = u.clone().cross(n);
+  return new THREE.Matrix4()
+    .makeBasis(u, n, w)
+    .transpose()
+    .multiply(new THREE.Matrix4().makeTranslation(-origin.x, -origin.y, -origin.z));
+}
+
+/**
+ * Lay out every face along a spanning tree, each turned about +Y to meet
+ * its parent on their shared edge
+ */
+function layOut(solid: Polyhedron, edges: PolyhedronEdge[], hinge: number[]): { parent: number[]; polygons: THREE.Vector3[][] } {
+  const parent = hinge.map((e, f) => e < 0 ? -1 : edges[e].faces.find(g => g !== f)!);
+  const polygons: THREE.Vector3[][] = new Array(solid.faces.length);
+
+  const place = (f: number) => {
+    const face = solid.faces[f];
+    // Flatten the frame's rounding noise so sheet bounds stay planar
+    const local = face.map(i => solid.vertices[i].clone().applyMatrix4(faceFrame(solid, face)).setY(0));
+    if (parent[f] < 0) {
+      polygons[f] = local;
+      return;
+    }
+
+    const { a, b } = edges[hinge[f]];
+    const from = [face.indexOf(a), face.indexOf(b)];
+    const into = [solid.faces[parent[f]].indexOf(a), solid.faces[parent[f]].indexOf(b)].map(k => polygons[parent[f]][k]);
+    const direction = (p: THREE.Vector3, q: THREE.Vector3) => Math.atan2(q.z - p.z, q.x - p.x);
+    const angle = direction(local[from[0]], local[from[1]]) - direction(into[0], into[1]);
+    const turn = new THREE.Matrix4().makeRotationY(angle);
+    const start = local[from[0]].clone().applyMatrix4(turn);
+    polygons[f] = local.map(p => p.applyMatrix4(turn).sub(start).add(into[0]));
+  };
+
+  // Parents before children
+  const placed = new Set<number>();
+  while (placed.size < solid.faces.length) {
+    solid.faces.forEach((_, f) => {
+      if (placed.has(f) || (parent[f] >= 0 && !placed.has(parent[f]))) return;
+      place(f);
+      placed.add(f);
+    });
+  }
+  return { parent, polygons };
+}
+
+/**
+ * Faces of a layout that share area, and the total they share, stopping once
+ * it passes `limit`. Faces are swept in order of their left edge so only
+ * neighbours in X are compared.
+ */
+function layoutOverlap(
+  polygons: THREE.Vector3[][],
+  tolerance: number,
+  limit: number = Infinity
+): { overlap: number; pairs: [number, number][] } {
+  const bounds = polygons.map(polygon => new THREE.Box3().setFromPoints(polygon));
+  const order = polygons.map((_, f) => f).sort((a, b) => bounds[a].min.x - bounds[b].min.x);
+  const pairs: [number, number][] = [];
+  let overlap = 0;
+
+  for (let i = 0; i < order.length && overlap <= limit; i++) {
+    const a = order[i];
+    for (let j = i + 1; j < order.length && bounds[order[j]].min.x < bounds[a].max.x && overlap <= limit; j++) {
+      const b = order[j];
+      if (bounds[a].min.z >= bounds[b].max.z || bounds[b].min.z >= bounds[a].max.z) continue;
+      const { area } = polygonIntersection(polygons[a], polygons[b]);
+      if (area > tolerance) {
+        overlap += area;
+        pairs.push([a, b]);
+      }
+    }
+  }
+  return { overlap, pairs };
+}
+
+/**
+ * Hinges of the tree made of the given edges, reached from face 0
+ */
+function treeHinges(faceCount: number, edges: PolyhedronEdge[], treeEdges: Set<number>): number[] {
+  const hinge = new Array<number>(faceCount).fill(-1);
+  const reached = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const f = queue.shift()!;
+    treeEdges.forEach(e => {
+      const [a, b] = edges[e].faces;
+      const next = a === f ? b : b === f ? a : -1;
+      if (next < 0 || reached.has(next)) return;
+      reached.add(next);
+      hinge[next] = e;
+      queue.push(next);
+    });
+  }
+  return hinge;
+}
+
+/**
+ * Move one hinge to relieve an overlap between faces a and b: cut a hinge on
+ * the tree path between them and reattach the part it cut off across
+ * another edge
+ */
+function rehinge(edges: PolyhedronEdge[], hinge: number[], parent: number[], [a, b]: [number, number], random: () => number): number[] {
+  const ancestors = (f: number) => {
+    const chain = [f];
+    while (parent[chain[chain.length - 1]] >= 0) chain.push(parent[chain[chain.length - 1]]);
+    return chain;
+  };
+  const fromA = ancestors(a);
+  const fromB = ancestors(b);
+  const common = fromA.find(f => fromB.includes(f))!;
+  const path = [...fromA.slice(0, fromA.indexOf(common)), ...fromB.slice(0, fromB.indexOf(common))];
+  if (path.length === 0) return hinge;
+
+  // Everything below the cut face moves with it
+  const cutFace = path[Math.floor(random() * path.length)];
+  const moved = new Set(hinge.flatMap((_, f) => ancestors(f).includes(cutFace) ? [f] : []));
+  const bridges = edges.flatMap((edge, e) => {
+    if (e === hinge[cutFace] || edge.faces.length < 2) return [];
+    return moved.has(edge.faces[0]) !== moved.has(edge.faces[1]) ? [e] : [];
+  });
+  if (bridges.length === 0) return hinge;
+
+  const treeEdges = new Set(hinge.filter(e => e >= 0 && e !== hinge[cutFace]));
+  treeEdges.add(bridges[Math.floor(random() * bridges.length)]);
+  return treeHinges(hinge.length, edges, treeEdges);
+}
+
+/**
+ * Unfold a solid into a net with no overlapping faces. Trees are grown
+ * breadth-first, then at random; if all of them overlap, the best is
+ * repaired one hinge at a time, keeping each change that does not add
+ * overlap. Should that fail too, the least overlapping net is returned and
+ * `overlap` says by how much. A known `tree` (hinge per face) skips the search.
+ */
+export function unfoldPolyhedron(solid: Polyhedron, tree?: number[]): PolyhedronNet {
+  const edges = polyhedronEdges(solid);
+  const edgeLength = edges.reduce((sum, { a, b }) => sum + solid.vertices[a].distanceTo(solid.vertices[b]), 0) / edges.length;
+  const tolerance = POLYHEDRA.overlapTolerance * edgeLength * edgeLength;
+  const random = seededRandom(POLYHEDRA.seed);
+
+  const evaluate = (hinge: number[], limit: number) => {
+    const layout = layOut(solid, edges, hinge);
+    return { hinge, ...layout, ...layoutOverlap(layout.polygons, tolerance, limit) };
+  };
+
+  let best = evaluate(tree ?? spanningTree(solid.faces.length, edges), Infinity);
+  if (tree) return { solid, edges, parent: best.parent, hinge: tree, polygons: best.polygons, overlap: best.overlap };
+
+  for (let attempt = 1; attempt < POLYHEDRA.randomTrees && best.overlap > 0; attempt++) {
+    const candidate = evaluate(spanningTree(solid.faces.length, edges, random), best.overlap);
+    if (candidate.overlap < best.overlap) best = candidate;
+  }
+  for (let step = 0; step < POLYHEDRA.repairSteps && best.overlap > 0; step++) {
+    const pair = best.pairs[Math.floor(random() * best.pairs.length)];
+    const candidate = evaluate(rehinge(edges, best.hinge, best.parent, pair, random), best.overlap);
+    if (candidate.overlap <= best.overlap) best = candidate;
+  }
+
+  const { hinge, parent, polygons, overlap } = best;
+  return { solid, edges, parent, hinge, polygons, overlap };
+}
+
+/**
+ * Trees found for imported meshes. A net's shape does not depend on its
+ * scale, so resizing a mesh reuses its tree instead of searching again.
+ */
+const meshTrees = new WeakMap<ImportedMesh, number[]>();
+
+/**
+ * Unfold an imported mesh scaled to `size` (see polyhedronFromMesh)
+ */
+export function unfoldMesh(mesh: ImportedMesh, size: number): PolyhedronNet {
+  const net = unfoldPolyhedron(polyhedronFromMesh(mesh, size), meshTrees.get(mesh));
+  meshTrees.set(mesh, net.hinge);
+  return net;
+}
@@ -0,0 +1,205 @@
+/**
+ * Sheet Fitting
+ *
+ * Paper and cutting-mat sizes with their printable areas, and the placement
+ * of a flat net on them. Nets are measured in pattern units (cm); sheets in
+ * millimetres. The net may be turned to any angle and the sheet used in
+ * portrait or landscape, whichever leaves the most room.
+ */
+
+import * as THREE from 'three';
+import type { FoldPattern, SheetSize, SheetSizeId } from '@/types';
+import { linePathPoints } from './curve';
+import { traceCutOutline } from './outline';
+import { convexHull } from './polygon';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const SHEET = {
+  mmPerUnit: 10,      // Pattern units are centimetres
+  sweepSteps: 180,    // Angles tried over a half turn, besides hull edge angles
+  minGain: 1,         // mm a turned placement must gain over an earlier, squarer one
+} as const;
+
+export const SHEET_SIZES: Record<SheetSizeId, SheetSize> = {
+  a4: { id: 'a4', name: 'A4', width: 210, height: 297, margin: 10 },
+  letter: { id: 'letter', name: 'US Letter', width: 215.9, height: 279.4, margin: 6.35 },
+  a3: { id: 'a3', name: 'A3', width: 297, height: 420, margin: 10 },
+  'mat-12': { id: 'mat-12', name: '12″ × 12″ mat', width: 304.8, height: 304.8, margin: 12.7 },
+};
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Axis-aligned size of a net turned by `angle` (radians, about +Y)
+ */
+export interface NetBox {
+  angle: number;
+  width: number;    // mm
+  height: number;   // mm
+}
+
+/**
+ * Best placement of a net on a sheet
+ */
+export interface SheetFit {
+  sheet: SheetSize;
+  landscape: boolean;
+  angle: number;                // Rotation applied to the net (radians, about +Y)
+  netWidth: number;             // mm, along the sheet's width as placed
+  netHeight: number;            // mm, along the sheet's height as placed
+  printableWidth: number;       // mm, in the chosen orientation
+  printableHeight: number;
+  spare: number;                // mm left on the tighter side; negative when it overflows
+  fits: boolean;
+  minimalBox: NetBox;           // Smallest-area box over all rotations
+  offset: { x: number; y: number };  // mm added after rotation to centre the net in the printable area
+}
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+/**
+ * Printable area of a sheet (mm) in portrait or landscape
+ */
+export function getPrintableArea(sheet: SheetSize, landscape: boolean = false): { width: number; height: number } {
+  const width = sheet.width - 2 * sheet.margin;
+  const height = sheet.height - 2 * sheet.margin;
+  return landscape ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Turn a pattern point onto the sheet plane (mm, Y down the page)
+ */
+export function projectToSheet(point: THREE.Vector3, angle: number): { x: number; y: number } {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: (point.x * cos - point.z * sin) * SHEET.mmPerUnit,
+    y: (point.x * sin + point.z * cos) * SHEET.mmPerUnit,
+  };
+}
+
+function boundsAt(points: THREE.Vector3[], angle: number) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  points.forEach(p => {
+    const { x, y } = projectToSheet(p, angle);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * The points a net must keep on the sheet: the convex hull of its outline
+ * and any separate pieces (nested parts), or of every line end when the
+ * cuts do not close
+ */
+function netHull(pattern: FoldPattern): THREE.Vector3[] {
+  const { outer, pieces } = traceCutOutline(pattern);
+  const points = outer ? [...outer, ...pieces.flat()] : linePathPoints(pattern.foldLines);
+  return convexHull(points);
+}
+
+/**
+ * Angles worth trying: every hull edge lying flat, plus an even sweep
+ */
+function candidateAngles(hull: THREE.Vector3[]): number[] {
+  // Upright first, so a turned net has to earn its place
+  const angles: number[] = [0, Math.PI / 2];
+  for (let i = 1; i < SHEET.sweepSteps; i++) {
+    angles.push((i * Math.PI) / SHEET.sweepSteps);
+  }
+  hull.forEach((a, i) => {
+    const b = hull[(i + 1) % hull.length];
+    angles.push(-Math.atan2(b.z - a.z, b.x - a.x));
+  });
+  return angles;
+}
+
+/**
+ * Smallest-area bounding box of a net over all rotations
+ */
+export function minimalBoundingBox(pattern: FoldPattern): NetBox {
+  const hull = netHull(pattern);
+  let best: NetBox = { angle: 0, width: Infinity, height: Infinity };
+
+  candidateAngles(hull).forEach(angle => {
+    const { width, height } = boundsAt(hull, angle);
+    if (width * height < best.width * best.height - 1e-9) {
+      best = { angle, width, height };
+    }
+  });
+
+  return best;
+}
+
+// =============================================================================
+// FITTING
+// =============================================================================
+
+/**
+ * Find the rotation and sheet orientation that leave the most spare room.
+ * A turned net replaces an upright one only when it gains `SHEET.minGain`.
+ */
+export function fitPatternToSheet(pattern: FoldPattern, sheet: SheetSize): SheetFit {
+  const hull = netHull(pattern);
+  let best: SheetFit | null = null;
+
+  candidateAngles(hull).forEach(angle => {
+    const bounds = boundsAt(hull, angle);
+
+    [false, true].forEach(landscape => {
+      const area = getPrintableArea(sheet, landscape);
+      const spare = Math.min(area.width - bounds.width, area.height - bounds.height);
+      if (best && spare <= best.spare + SHEET.minGain) return;
+
+      best = {
+        sheet,
+        landscape,
+        angle,
+        netWidth: bounds.width,
+        netHeight: bounds.height,
+        printableWidth: area.width,
+        printableHeight: area.height,
+        spare,
+        fits: spare >= 0,
+        minimalBox: { angle: 0, width: 0, height: 0 },
+        offset: {
+          x: sheet.margin + (area.width - bounds.width) / 2 - bounds.minX,
+          y: sheet.margin + (area.height - bounds.height) / 2 - bounds.minY,
+        },
+      };
+    });
+  });
+
+  return { ...best!, minimalBox: minimalBoundingBox(pattern) };
+}
+
+/**
+ * Map pattern points onto the sheet as placed by a fit (mm from the
+ * sheet's top-left corner)
+ */
+export function placeOnSheet(fit: SheetFit): (point: THREE.Vector3) => { x: number; y: number } {
+  return point => {
+    const { x, y } = projectToSheet(point, fit.angle);
+    return { x: x + fit.offset.x, y: y + fit.offset.y };
+  };
+}
+
+/**
+ * One-line summary, e.g. "Fits A4 (landscape) with 12.5 mm to spare"
+ */
+export function describeSheetFit(fit: SheetFit): string {
+  const orientation = fit.landscape ? 'landscape' : 'portrait';
+  return fit.fits
+    ? `Fits ${fit.sheet.name} (${orientation}) with ${fit.spare.toFixed(1)} mm to spare`
+    : `Doesn't fit ${fit.sheet.name} by ${(-fit.spare).toFixed(1)} mm`;
+}
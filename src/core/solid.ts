@@ -0,0 +1,320 @@
+/**
+ * Solid Model
+ *
+ * Gives a folded pattern real wall thickness for 3D printing. Every face
+ * becomes a slab: the printed surface stays where the pattern puts it and
+ * the material lies behind it (the sheet's back, -Y when flat). Wedges along
+ * the hinges fill the notch two slabs leave on the outside of a fold; a fold
+ * closed flat gets a square bridge around it instead.
+ *
+ * The flat living-hinge part keeps the net unfolded and thins the sheet
+ * along every hinge into a V-groove on the side that closes when folded.
+ *
+ * Each slab and wedge is a closed shell; slicers merge overlapping shells,
+ * so no boolean union is needed. Output is in millimetres.
+ */
+
+import * as THREE from 'three';
+import type { FoldPattern, LivingHingeOptions } from '@/types';
+import { buildCreaseGraph, findFaceAt, getFaceHinges, type GraphHinge } from './creaseGraph';
+import { foldPattern, type FoldedPattern } from './folding';
+import { clipPolygon, polygonArea, polygonCentroid } from './polygon';
+import { SHEET } from './sheet';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const SOLID = {
+  tolerance: 1e-4,      // Hinge ends further apart than this (pattern units) are not joined
+  minAngle: 1e-3,       // Radians between two slabs below which no wedge is needed
+} as const;
+
+export const LIVING_HINGE = {
+  defaults: { thickness: 1.2, web: 0.4, slitWidth: 0.4 } as LivingHingeOptions,
+  maxGrooveAngle: (2 * Math.PI) / 3,   // Wider folds keep this groove angle
+  reach: 1000,                          // Half-size (pattern units) of the half-planes cutting slits
+} as const;
+
+export type Triangle = [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+
+// =============================================================================
+// SHELLS
+// =============================================================================
+
+/**
+ * Signed volume enclosed by a triangle shell (positive when wound outward)
+ */
+function signedVolume(triangles: Triangle[]): number {
+  return triangles.reduce((sum, [a, b, c]) => sum + a.dot(b.clone().cross(c)) / 6, 0);
+}
+
+/**
+ * Wind a closed shell outward
+ */
+function orientShell(triangles: Triangle[]): Triangle[] {
+  return signedVolume(triangles) < 0
+    ? triangles.map(([a, b, c]) => [a, c, b] as Triangle)
+    : triangles;
+}
+
+/**
+ * Closed prism between a polygon and its copy moved by `offset`
+ */
+function extrude(polygon: THREE.Vector3[], offset: THREE.Vector3): Triangle[] {
+  const back = polygon.map(p => p.clone().add(offset));
+  const triangles: Triangle[] = [];
+
+  for (let i = 1; i < polygon.length - 1; i++) {
+    triangles.push([polygon[0], polygon[i + 1], polygon[i]]);
+    triangles.push([back[0], back[i], back[i + 1]]);
+  }
+
+  polygon.forEach((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    const a2 = back[i];
+    const b2 = back[(i + 1) % polygon.length];
+    triangles.push([a, b, b2], [a, b2, a2]);
+  });
+
+  return orientShell(triangles);
+}
+
+// =============================================================================
+// SOLID
+// =============================================================================
+
+/**
+ * Triangles of the thickened folded pattern (mm)
+ */
+export function foldedSolidTriangles(folded: FoldedPattern, thickness: number): Triangle[] {
+  const { pattern, transforms, tree } = folded;
+  const depth = thickness / SHEET.mmPerUnit;   // Thickness is in mm, patterns in cm
+  const triangles: Triangle[] = [];
+
+  // Back of the sheet, per face, in folded space
+  const backs = transforms.map(m =>
+    new THREE.Vector3(0, -1, 0).transformDirection(m).multiplyScalar(depth)
+  );
+
+  pattern.faces.forEach((face, i) => {
+    const polygon = face.vertices.map(vi => pattern.vertices[vi].position.clone().applyMatrix4(transforms[i]));
+    triangles.push(...extrude(polygon, backs[i]));
+  });
+
+  // Wedges close the notch on the outside of each fold
+  tree.graph.hinges.forEach(hinge => {
+    const [fa, fb] = hinge.faces;
+    const ends = [hinge.line.start, hinge.line.end];
+    const onA = ends.map(p => p.clone().applyMatrix4(transforms[fa]));
+    const onB = ends.map(p => p.clone().applyMatrix4(transforms[fb]));
+    if (onA.some((p, k) => p.distanceTo(onB[k]) > SOLID.tolerance)) return;
+    const angle = backs[fa].angleTo(backs[fb]);
+    if (angle < SOLID.minAngle) return;
+
+    const [p, q] = onA;
+    const backA = p.clone().add(backs[fa]);
+    const backB = p.clone().add(backs[fb]);
+    let section = [p, backA, backB];
+
+    // Folded flat the wedge has no area; a bridge 2 × depth wide wraps the fold instead
+    if (angle > Math.PI - SOLID.minAngle) {
+      const face = pattern.faces[fa].vertices.map(vi => pattern.vertices[vi].position);
+      const inward = polygonCentroid(face).applyMatrix4(transforms[fa]).sub(p);
+      const out = q.clone().sub(p).cross(backs[fa]).setLength(depth);
+      if (out.dot(inward) > 0) out.negate();
+      section = [backA, backA.clone().add(out), backB.clone().add(out), backB];
+    }
+
+    triangles.push(...extrude(section, q.clone().sub(p)));
+  });
+
+  const scale = SHEET.mmPerUnit;
+  return triangles.map(t => t.map(p => p.clone().multiplyScalar(scale)) as Triangle);
+}
+
+/**
+ * Fold a pattern and give it wall thickness (mm)
+ */
+export function createFoldedSolid(
+  pattern: FoldPattern,
+  thickness: number,
+  progress: number = 1
+): THREE.BufferGeometry {
+  const folded = foldPattern(pattern, progress);
+  const positions = foldedSolidTriangles(folded, thickness).flatMap(t => t.flatMap(p => [p.x, p.y, p.z]));
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// =============================================================================
+// LIVING HINGE
+// =============================================================================
+
+/**
+ * How far one polygon edge is set back at a given height (mm, Y up)
+ */
+type EdgeInset = (y: number) => number;
+
+const noInset: EdgeInset = () => 0;
+
+/**
+ * V-groove along a hinge. Valley folds close over the printed side (top),
+ * mountain folds over the back (bottom). The groove's included angle is the
+ * fold angle, so its walls meet when the part is folded.
+ */
+function grooveInset(hinge: GraphHinge, options: LivingHingeOptions): EdgeInset {
+  const { thickness, web } = options;
+  const depth = Math.max(thickness - web, 0);
+  const angle = Math.min(Math.abs(hinge.foldAngle), LIVING_HINGE.maxGrooveAngle);
+  const halfWidth = depth * Math.tan(angle / 2);
+  if (depth === 0) return noInset;
+
+  return hinge.foldAngle > 0
+    ? y => halfWidth * Math.max(0, (y - (thickness - depth)) / depth)
+    : y => halfWidth * Math.max(0, (depth - y) / depth);
+}
+
+/**
+ * Move each edge of a convex polygon inward by its own distance (mm)
+ */
+function insetPolygon(polygon: THREE.Vector3[], distances: number[]): THREE.Vector3[] {
+  const centroid = polygonCentroid(polygon);
+  const lines = polygon.map((a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    const dir = b.clone().sub(a).normalize();
+    const normal = new THREE.Vector3(-dir.z, 0, dir.x);
+    if (normal.dot(centroid.clone().sub(a)) < 0) normal.negate();
+    return { point: a.clone().addScaledVector(normal, distances[i]), dir };
+  });
+
+  return polygon.map((_, i) => {
+    const l1 = lines[(i + polygon.length - 1) % polygon.length];
+    const l2 = lines[i];
+    const denom = l1.dir.x * l2.dir.z - l1.dir.z * l2.dir.x;
+    if (Math.abs(denom) < 1e-9) return l2.point.clone();
+    const d = l2.point.clone().sub(l1.point);
+    const t = (d.x * l2.dir.z - d.z * l2.dir.x) / denom;
+    return l1.point.clone().addScaledVector(l1.dir, t);
+  });
+}
+
+/**
+ * Closed shell through rings of the same polygon at rising heights
+ */
+function loft(rings: THREE.Vector3[][]): Triangle[] {
+  const triangles: Triangle[] = [];
+  const first = rings[0];
+  const last = rings[rings.length - 1];
+
+  for (let i = 1; i < first.length - 1; i++) {
+    triangles.push([first[0], first[i + 1], first[i]]);
+    triangles.push([last[0], last[i], last[i + 1]]);
+  }
+
+  for (let r = 0; r + 1 < rings.length; r++) {
+    const lower = rings[r];
+    const upper = rings[r + 1];
+    lower.forEach((a, i) => {
+      const j = (i + 1) % lower.length;
+      triangles.push([a, lower[j], upper[j]], [a, upper[j], upper[i]]);
+    });
+  }
+
+  return orientShell(triangles);
+}
+
+/**
+ * Split a face around its slits, leaving a through-cut `width` wide
+ */
+function cutSlits(polygon: THREE.Vector3[], slits: [THREE.Vector3, THREE.Vector3][], width: number): THREE.Vector3[][] {
+  const r = LIVING_HINGE.reach;
+  let pieces = [polygon];
+
+  slits.forEach(([start, end]) => {
+    const u = end.clone().sub(start);
+    const length = u.length();
+    u.normalize();
+    const v = new THREE.Vector3(-u.z, 0, u.x);
+    const at = (s: number, t: number) => start.clone().addScaledVector(u, s).addScaledVector(v, t);
+    const half = width / 2;
+
+    // Everything but the slit: both long sides, then both ends
+    const keep = [
+      [at(-r, -r), at(r, -r), at(r, -half), at(-r, -half)],
+      [at(-r, half), at(r, half), at(r, r), at(-r, r)],
+      [at(-r, -half), at(0, -half), at(0, half), at(-r, half)],
+      [at(length, -half), at(r, -half), at(r, half), at(length, half)],
+    ];
+
+    pieces = pieces.flatMap(piece =>
+      keep
+        .map(region => clipPolygon(piece, region))
+        .filter(p => p.length >= 3 && Math.abs(polygonArea(p)) > 1e-9)
+    );
+  });
+
+  return pieces;
+}
+
+/**
+ * The flat net as a printable part with living-hinge grooves (mm).
+ * The back of the sheet rests on Y=0 and the printed side faces +Y.
+ */
+export function createLivingHingeSolid(
+  pattern: FoldPattern,
+  options: Partial<LivingHingeOptions> = {}
+): THREE.BufferGeometry {
+  const opts = { ...LIVING_HINGE.defaults, ...options };
+  const graph = buildCreaseGraph(pattern);
+  const mm = SHEET.mmPerUnit;
+  const levels = [...new Set([0, opts.web, opts.thickness - opts.web, opts.thickness])]
+    .filter(y => y >= 0 && y <= opts.thickness)
+    .sort((a, b) => a - b);
+
+  // Interior slits are cut through the face they lie in
+  const slits = pattern.foldLines
+    .filter(line => line.role === 'slit')
+    .map(line => ({ line, face: findFaceAt(graph, line.start.clone().add(line.end).multiplyScalar(0.5)) }))
+    .filter(({ face }) => face >= 0);
+
+  const triangles: Triangle[] = [];
+
+  graph.faces.forEach(face => {
+    const hinges = getFaceHinges(graph, face.index).map(hinge => ({ hinge, inset: grooveInset(hinge, opts) }));
+    const faceSlits = slits
+      .filter(s => s.face === face.index)
+      .map(s => [s.line.start, s.line.end] as [THREE.Vector3, THREE.Vector3]);
+
+    cutSlits(face.polygon, faceSlits, opts.slitWidth / mm).forEach(piece => {
+      const flat = piece.map(p => new THREE.Vector3(p.x * mm, 0, p.z * mm));
+
+      // Edges lying along a hinge take its groove, also where cuts run on past the hinge's ends
+      const insets = piece.map((a, i) => {
+        const b = piece[(i + 1) % piece.length];
+        const on = hinges.find(({ hinge }) => {
+          const segment = new THREE.Line3(hinge.line.start, hinge.line.end);
+          const closest = new THREE.Vector3();
+          const along = [a, b].every(p => segment.closestPointToPoint(p, false, closest).distanceTo(p) < SOLID.tolerance);
+          const [s, t] = [a, b].map(p => segment.closestPointToPointParameter(p, false)).sort((x, y) => x - y);
+          return along && s < 1 && t > 0;
+        });
+        return on ? on.inset : noInset;
+      });
+
+      const rings = levels.map(y =>
+        insetPolygon(flat, insets.map(inset => inset(y))).map(p => new THREE.Vector3(p.x, y, p.z))
+      );
+      triangles.push(...loft(rings));
+    });
+  });
+
+  const positions = triangles.flatMap(t => t.flatMap(p => [p.x, p.y, p.z]));
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
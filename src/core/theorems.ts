@@ -6,7 +6,12 @@
  */
 
 import * as THREE from 'three';
-import type { FoldPattern, FoldLine, PatternConfig } from '@/types';
+import type { FoldPattern, FoldLine, PatternConfig, SheetSize } from '@/types';
+import { buildCreaseGraph, getNeighbours } from './creaseGraph';
+import { directionFrom } from './curve';
+import { polygonArea, polygonBounds, polygonCentroid, polygonIntersection } from './polygon';
+import { traceCutOutline } from './outline';
+import { fitPatternToSheet, describeSheetFit } from './sheet';
 
 // =============================================================================
 // THEOREM DEFINITIONS (Machine-Readable)
@@ -35,6 +40,14 @@ export const MAEKAWA = {
   tolerance: 0.001,       // Vertex proximity tolerance
 } as const;
 
+/**
+ * Net overlap parameters (flat layout must cut from one sheet)
+ */
+export const NET_OVERLAP = {
+  id: 'net-overlap',
+  areaTolerance: 1e-4,  // Shared area (cm²) below which faces only touch
+} as const;
+
 // =============================================================================
 // VERTEX TYPE DEFINITIONS
 // =============================================================================
@@ -88,9 +101,20 @@ export const ASSEMBLY_MECHANICS = {
     depthCoefficient: {
       box: 0.15,
       pyramid: 0.12,
-      prism: 0.15,
+      prism: 0.15,                // Seam and cap tabs, of the side length
       cylinder: 0.15,
       envelope: 0.10,
+      'reverse-tuck-end': 0.35,   // Tuck flap, of min(width, depth)
+      'straight-tuck-end': 0.35,
+      'crash-lock': 0.15,         // Bottom lock tab; the top tuck matches the tuck-end cartons
+      pillow: 1.0,                // End flap rise, of the depth (no tabs)
+      gable: 0.18,                // Gable tabs; the bottom tuck matches the tuck-end cartons
+      frustum: 0.12,              // Corner tabs, narrowed to fit between steeply flared walls
+      cone: 0.15,                 // Closure and cap tabs, of the radius
+      polyhedron: 0.2,            // Edge tabs, of the edge length
+      matchbox: 0.12,             // Tray corner and sleeve seam tabs, as the frustum
+      telescope: 0.2,             // Corner tabs, pinned by the inner wall when double-walled
+      mesh: 0.2,                  // Edge tabs, of the shorter of the edge and the mean edge
     },
     depthRange: [0.08, 0.2] as const,  // Fraction of min dimension
   },
@@ -106,6 +130,11 @@ export const ASSEMBLY_MECHANICS = {
     range: [0.05, 0.1] as const,
   },
 
+  slidingFit: {
+    coefficient: 1.0,           // Gap per side between parts that slide, of material thickness
+    range: [0.5, 1.5] as const,
+  },
+
   minFeatureSizeMultiplier: 5,  // Features must be >= 5× thickness
 } as const;
 
@@ -164,6 +193,14 @@ function extractVertices(foldLines: FoldLine[]): THREE.Vector3[] {
   return vertices;
 }
 
+/**
+ * Name a vertex by its position and the lines meeting there
+ */
+function describeVertex(vertex: THREE.Vector3, lines: FoldLine[]): string {
+  const at = `(${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)})`;
+  return lines.length > 0 ? `${at} [${lines.map(line => line.id).join(', ')}]` : at;
+}
+
 /**
  * Verify Kawasaki-Justin theorem at a single vertex
  * Implementation from geometry.ts but with detailed error reporting
@@ -180,21 +217,20 @@ export function verifyKawasakiJustinAtVertex(
     details: {},
   };
 
+  const where = describeVertex(vertex, connectedLines);
+
   // Check minimum folds
   if (connectedLines.length < KAWASAKI_JUSTIN.minFolds) {
     // Perimeter vertices are exempt
     result.warnings.push(
-      `Vertex at (${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)}) has only ${connectedLines.length} folds (exempt from theorem)`
+      `Vertex at ${where} has only ${connectedLines.length} folds (exempt from theorem)`
     );
     result.details = { vertexType: 'perimeter', foldCount: connectedLines.length };
     return result;
   }
 
-  // Calculate direction vectors from vertex to endpoints
-  const directions: THREE.Vector3[] = connectedLines.map(line => {
-    const other = line.start.equals(vertex) ? line.end : line.start;
-    return other.clone().sub(vertex).normalize();
-  });
+  // Direction each line leaves the vertex in (its tangent, if curved)
+  const directions: THREE.Vector3[] = connectedLines.map(line => directionFrom(line, vertex));
 
   // Sort by angle from positive X-axis (in XZ plane)
   directions.sort((a, b) => {
@@ -224,7 +260,7 @@ export function verifyKawasakiJustinAtVertex(
   if (Math.abs(totalSum - KAWASAKI_JUSTIN.angleSumTotal) > KAWASAKI_JUSTIN.tolerance) {
     result.valid = false;
     result.errors.push(
-      `Total angle sum ${totalSum.toFixed(4)} ≠ 2π (${KAWASAKI_JUSTIN.angleSumTotal.toFixed(4)})`
+      `Vertex at ${where}: total angle sum ${totalSum.toFixed(4)} ≠ 2π (${KAWASAKI_JUSTIN.angleSumTotal.toFixed(4)})`
     );
   }
 
@@ -235,14 +271,14 @@ export function verifyKawasakiJustinAtVertex(
   if (errorEven > KAWASAKI_JUSTIN.tolerance) {
     result.valid = false;
     result.errors.push(
-      `Even angle sum ${sumEven.toFixed(4)} ≠ π (error: ${errorEven.toFixed(4)})`
+      `Vertex at ${where}: even angle sum ${sumEven.toFixed(4)} ≠ π (error: ${errorEven.toFixed(4)})`
     );
   }
 
   if (errorOdd > KAWASAKI_JUSTIN.tolerance) {
     result.valid = false;
     result.errors.push(
-      `Odd angle sum ${sumOdd.toFixed(4)} ≠ π (error: ${errorOdd.toFixed(4)})`
+      `Vertex at ${where}: odd angle sum ${sumOdd.toFixed(4)} ≠ π (error: ${errorOdd.toFixed(4)})`
     );
   }
 
@@ -310,8 +346,7 @@ export function getVertexType(
 ): VertexTypeInfo {
   // Compute direction vectors and pair with fold types
   const foldData = connectedLines.map(line => {
-    const other = line.start.distanceTo(vertex) < 0.001 ? line.end : line.start;
-    const dir = other.clone().sub(vertex).normalize();
+    const dir = directionFrom(line, vertex);
     const angle = Math.atan2(dir.z, dir.x);
     return { angle, type: line.type };
   });
@@ -380,7 +415,7 @@ export function validateMaekawa(pattern: FoldPattern): ValidationResult {
 
     if (!vertexType.isInterior) {
       result.warnings.push(
-        `Vertex (${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)}): perimeter vertex (${vertexType.degree} folds, exempt)`
+        `Vertex ${describeVertex(vertex, connected)}: perimeter vertex (${vertexType.degree} folds, exempt)`
       );
       return;
     }
@@ -388,7 +423,7 @@ export function validateMaekawa(pattern: FoldPattern): ValidationResult {
     if (!vertexType.maekawaSatisfied) {
       result.valid = false;
       result.errors.push(
-        `Vertex (${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)}) violates Maekawa: ` +
+        `Vertex ${describeVertex(vertex, connected)} violates Maekawa: ` +
         `M=${vertexType.mountains}, V=${vertexType.valleys}, ` +
         `|M-V|=${vertexType.maekawaDifference} (must be 2). ` +
         `Type: [${vertexType.sequence.join('')}]`
@@ -570,12 +605,12 @@ export function validateVertexValidity(pattern: FoldPattern): ValidationResult {
     if (!validity.valid) {
       result.valid = false;
       result.errors.push(
-        `Vertex (${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)}) ` +
+        `Vertex ${describeVertex(vertex, connected)} ` +
         `type [${vertexType.sequence.join('')}] is invalid: ${validity.failureReason}`
       );
     } else if (validity.crimpSteps.length > 0) {
       result.warnings.push(
-        `Vertex (${vertex.x.toFixed(2)}, ${vertex.z.toFixed(2)}) ` +
+        `Vertex ${describeVertex(vertex, connected)} ` +
         `type [${vertexType.sequence.join('')}] valid after ${validity.crimpSteps.length} crimp(s)`
       );
     }
@@ -888,31 +923,272 @@ export function validateTabSlitPairing(pattern: FoldPattern): ValidationResult {
     details: {},
   };
 
-  // Count tabs vs slits
-  const foldLinesWithTabs = new Set<string>();
-  const cutLinesSlits = new Set<string>();
+  // Count tabs vs slits by line role
+  const tabs = pattern.foldLines.filter(line => line.role === 'tab-fold').map(line => line.id);
+  const slits = pattern.foldLines.filter(line => line.role === 'slit').map(line => line.id);
+
+  result.details = {
+    tabs,
+    slits,
+    note: 'Tab-slit pairing requires geometric analysis beyond line roles',
+  };
+
+  result.warnings.push(
+    'Tab-slit pairing validation requires geometric context (not yet implemented)'
+  );
+
+  return result;
+}
+
+// =============================================================================
+// CREASE GRAPH VALIDATION
+// =============================================================================
+
+/**
+ * Validate the hinge topology of a pattern.
+ * Every mountain/valley line should join two faces, and every face should be
+ * reachable from the first face through hinges (one connected sheet).
+ */
+export function validateCreaseGraph(pattern: FoldPattern): ValidationResult {
+  const result: ValidationResult = {
+    valid: true,
+    theoremId: 'crease-graph',
+    errors: [],
+    warnings: [],
+    details: {},
+  };
 
-  pattern.foldLines.forEach(line => {
-    const key = `${line.start.x},${line.start.z}-${line.end.x},${line.end.z}`;
+  const graph = buildCreaseGraph(pattern);
 
-    if (line.type === 'mountain') {
-      // Mountain folds often indicate tab bases
-      foldLinesWithTabs.add(key);
-    } else if (line.type === 'cut') {
-      // Some cuts are slits (would need more context to distinguish)
-      cutLinesSlits.add(key);
+  graph.looseCreases.forEach(line => {
+    result.warnings.push(
+      `${line.type === 'mountain' ? 'Mountain' : 'Valley'} fold "${line.id}" ` +
+      `(${line.start.x.toFixed(2)}, ${line.start.z.toFixed(2)}) → ` +
+      `(${line.end.x.toFixed(2)}, ${line.end.z.toFixed(2)}) does not join two faces`
+    );
+  });
+
+  // Walk hinges from the first face to find faces outside the sheet
+  const reached = new Set<number>();
+  if (graph.faces.length > 0) {
+    const stack = [0];
+    reached.add(0);
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      getNeighbours(graph, face).forEach(next => {
+        if (!reached.has(next)) {
+          reached.add(next);
+          stack.push(next);
+        }
+      });
     }
+  }
+
+  const unreached = graph.faces.filter(f => !reached.has(f.index)).map(f => f.id);
+  if (unreached.length > 0) {
+    result.warnings.push(
+      `${unreached.length} face(s) not joined to the rest of the net by any hinge: ${unreached.join(', ')}`
+    );
+  }
+
+  result.details = {
+    faces: graph.faces.length,
+    hinges: graph.hinges.length,
+    bendHinges: graph.hinges.filter(h => h.kind === 'bend').length,
+    flaps: graph.flaps.map(i => graph.faces[i].id),
+    looseCreases: graph.looseCreases.map(line => line.id),
+    unreachedFaces: unreached,
+  };
+
+  return result;
+}
+
+// =============================================================================
+// NET OVERLAP VALIDATION
+// =============================================================================
+
+/**
+ * A region where two faces of the flat net cover the same paper
+ */
+export interface NetOverlap {
+  faces: [string, string];
+  area: number;
+  center: THREE.Vector3;
+  min: THREE.Vector3;
+  max: THREE.Vector3;
+}
+
+/**
+ * Find pairs of faces that overlap in the flat layout.
+ * Faces sharing an edge or a corner do not count.
+ */
+export function findNetOverlaps(pattern: FoldPattern): NetOverlap[] {
+  const polygons = pattern.faces.map(face => face.vertices.map(i => pattern.vertices[i].position));
+  const overlaps: NetOverlap[] = [];
+
+  for (let a = 0; a < polygons.length; a++) {
+    for (let b = a + 1; b < polygons.length; b++) {
+      const { pieces, area } = polygonIntersection(polygons[a], polygons[b]);
+      if (area <= NET_OVERLAP.areaTolerance) continue;
+
+      const center = new THREE.Vector3();
+      pieces.forEach(piece => {
+        const weight = Math.abs(polygonArea(piece));
+        center.addScaledVector(polygonCentroid(piece), weight / area);
+      });
+      const bounds = polygonBounds(pieces.flat());
+
+      overlaps.push({
+        faces: [pattern.faces[a].id, pattern.faces[b].id],
+        area,
+        center,
+        min: bounds.min,
+        max: bounds.max,
+      });
+    }
+  }
+
+  return overlaps;
+}
+
+/**
+ * Validate that no two faces of the net overlap, so it cuts from one sheet
+ */
+export function validateNetOverlap(pattern: FoldPattern): ValidationResult {
+  const result: ValidationResult = {
+    valid: true,
+    theoremId: NET_OVERLAP.id,
+    errors: [],
+    warnings: [],
+    details: {},
+  };
+
+  const overlaps = findNetOverlaps(pattern);
+
+  overlaps.forEach(overlap => {
+    result.valid = false;
+    result.errors.push(
+      `Faces "${overlap.faces[0]}" and "${overlap.faces[1]}" overlap by ${overlap.area.toFixed(3)} cm² ` +
+      `in (${overlap.min.x.toFixed(2)}, ${overlap.min.z.toFixed(2)}) – ` +
+      `(${overlap.max.x.toFixed(2)}, ${overlap.max.z.toFixed(2)})`
+    );
   });
 
   result.details = {
-    mountainFolds: foldLinesWithTabs.size,
-    cutLines: cutLinesSlits.size,
-    note: 'Tab-slit pairing requires geometric analysis beyond line type',
+    faces: pattern.faces.length,
+    overlaps: overlaps.map(overlap => ({
+      faces: overlap.faces,
+      area: overlap.area.toFixed(4),
+      center: `(${overlap.center.x.toFixed(2)}, ${overlap.center.z.toFixed(2)})`,
+    })),
   };
 
-  result.warnings.push(
-    'Tab-slit pairing validation requires geometric context (not yet implemented)'
-  );
+  return result;
+}
+
+// =============================================================================
+// CUT OUTLINE VALIDATION
+// =============================================================================
+
+/**
+ * Validate that the cut lines form one closed, non-self-intersecting outline
+ * around the net, with no stray cuts inside it
+ */
+export function validateCutOutline(pattern: FoldPattern): ValidationResult {
+  const result: ValidationResult = {
+    valid: true,
+    theoremId: 'cut-outline',
+    errors: [],
+    warnings: [],
+    details: {},
+  };
+
+  const outline = traceCutOutline(pattern);
+  const at = (p: THREE.Vector3) => `(${p.x.toFixed(2)}, ${p.z.toFixed(2)})`;
+
+  if (!outline.outer) {
+    result.errors.push('Cut lines do not close into an outline');
+  }
+
+  outline.gaps.forEach(gap => {
+    result.errors.push(`Edge of face "${gap.face}" from ${at(gap.start)} to ${at(gap.end)} is not cut`);
+  });
+
+  outline.danglingEnds.forEach(point => {
+    result.errors.push(`Cut ends at ${at(point)} without meeting another cut`);
+  });
+
+  outline.branches.forEach(point => {
+    result.errors.push(`More than two cuts meet at ${at(point)}`);
+  });
+
+  outline.crossings.forEach(crossing => {
+    result.errors.push(`Cuts "${crossing.lines[0]}" and "${crossing.lines[1]}" cross at ${at(crossing.point)}`);
+  });
+
+  outline.strayCuts.forEach(line => {
+    result.errors.push(`Cut "${line.id}" lies inside the net but is neither a slit nor a closed cut-out`);
+  });
+
+  if (outline.pieces.length > 0) {
+    result.errors.push(`${outline.pieces.length} closed cut loop(s) lie outside the main outline`);
+  }
+
+  result.valid = result.errors.length === 0;
+
+  result.details = {
+    outlineVertices: outline.outer?.length ?? 0,
+    outlineArea: outline.outer ? outline.area.toFixed(3) : null,
+    holes: outline.holes.length,
+    gaps: outline.gaps.length,
+    danglingEnds: outline.danglingEnds.length,
+    strayCuts: outline.strayCuts.map(line => line.id),
+  };
+
+  return result;
+}
+
+// =============================================================================
+// SHEET FIT VALIDATION
+// =============================================================================
+
+/**
+ * Validate that the net fits the printable area of a sheet in its best
+ * orientation
+ */
+export function validateSheetFit(pattern: FoldPattern, sheet: SheetSize): ValidationResult {
+  const result: ValidationResult = {
+    valid: true,
+    theoremId: 'sheet-fit',
+    errors: [],
+    warnings: [],
+    details: {},
+  };
+
+  const fit = fitPatternToSheet(pattern, sheet);
+
+  if (fit.fits) {
+    if (Math.abs(fit.angle) > 1e-6) {
+      result.warnings.push(`Net is turned ${(fit.angle * 180 / Math.PI).toFixed(1)}° to fit`);
+    }
+  } else {
+    result.valid = false;
+    result.errors.push(
+      `${describeSheetFit(fit)}: net is ${fit.netWidth.toFixed(1)} × ${fit.netHeight.toFixed(1)} mm, ` +
+      `printable area ${fit.printableWidth.toFixed(1)} × ${fit.printableHeight.toFixed(1)} mm`
+    );
+  }
+
+  result.details = {
+    sheet: sheet.name,
+    summary: describeSheetFit(fit),
+    orientation: fit.landscape ? 'landscape' : 'portrait',
+    rotationDegrees: (fit.angle * 180 / Math.PI).toFixed(1),
+    netSize: `${fit.netWidth.toFixed(1)} × ${fit.netHeight.toFixed(1)} mm`,
+    printableArea: `${fit.printableWidth.toFixed(1)} × ${fit.printableHeight.toFixed(1)} mm`,
+    minimalBox: `${fit.minimalBox.width.toFixed(1)} × ${fit.minimalBox.height.toFixed(1)} mm`,
+    spare: fit.spare.toFixed(1),
+  };
 
   return result;
 }
@@ -922,11 +1198,13 @@ export function validateTabSlitPairing(pattern: FoldPattern): ValidationResult {
 // =============================================================================
 
 /**
- * Validate a complete fold pattern against all theorems
+ * Validate a complete fold pattern against all theorems, and against the
+ * sheet it will be printed on when one is given
  */
 export function validatePattern(
   pattern: FoldPattern,
-  config: PatternConfig
+  config: PatternConfig,
+  sheet?: SheetSize
 ): PatternValidation {
   const theoremResults: ValidationResult[] = [
     validateKawasakiJustin(pattern),
@@ -935,8 +1213,15 @@ export function validatePattern(
     validateTabDesign(config),
     validateThickness(config),
     validateTabSlitPairing(pattern),
+    validateCreaseGraph(pattern),
+    validateNetOverlap(pattern),
+    validateCutOutline(pattern),
   ];
 
+  if (sheet) {
+    theoremResults.push(validateSheetFit(pattern, sheet));
+  }
+
   const overall = theoremResults.every(r => r.valid);
 
   return {
@@ -991,6 +1276,7 @@ export default {
   KAWASAKI_JUSTIN,
   MAEKAWA,
   ASSEMBLY_MECHANICS,
+  NET_OVERLAP,
 
   // Validation functions
   validatePattern,
@@ -1000,6 +1286,11 @@ export default {
   validateTabDesign,
   validateThickness,
   validateTabSlitPairing,
+  validateCreaseGraph,
+  validateNetOverlap,
+  findNetOverlaps,
+  validateCutOutline,
+  validateSheetFit,
 
   // Vertex type utilities
   getVertexType,
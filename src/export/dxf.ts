@@ -0,0 +1,178 @@
+import type * as THREE from 'three';
+import type { FoldPattern, FoldLine } from '@/types';
+import { projectToSheet } from '@/core/sheet';
+import { curveArcs, linePathPoints } from '@/core/curve';
+
+/**
+ * DXF Export
+ *
+ * Writes an AutoCAD R12 (AC1009) DXF in millimetres, the dialect every laser
+ * cutter, die-maker and CAD tool (LibreCAD, AutoCAD, Inkscape) reads. Cut,
+ * mountain and valley lines go on their own layers with a standard linetype
+ * each, so a machine can be set up per layer. Arcs are written as true ARC
+ * entities; R12 has no splines, so Béziers become a chain of fitted arcs.
+ *
+ * R12 has no header variable for units ($INSUNITS and $MEASUREMENT came
+ * later), so the file is unitless: one drawing unit is one millimetre, and
+ * importers should be set to mm.
+ */
+
+interface DXFLayer {
+  type: FoldLine['type'];
+  name: string;
+  color: number;       // AutoCAD Color Index
+  linetype: string;
+}
+
+const LAYERS: DXFLayer[] = [
+  { type: 'cut', name: 'CUT', color: 1, linetype: 'CONTINUOUS' },
+  { type: 'mountain', name: 'MOUNTAIN', color: 5, linetype: 'DASHDOT' },
+  { type: 'valley', name: 'VALLEY', color: 3, linetype: 'DASHED' },
+];
+
+/**
+ * Linetype dash patterns in mm (positive = dash, negative = gap, 0 = dot)
+ */
+const LINETYPES: { name: string; description: string; pattern: number[] }[] = [
+  { name: 'CONTINUOUS', description: 'Solid line', pattern: [] },
+  { name: 'DASHED', description: 'Dashed __ __ __', pattern: [3, -1.5] },
+  { name: 'DASHDOT', description: 'Dash dot __ . __ .', pattern: [3, -1.5, 0, -1.5] },
+];
+
+// =============================================================================
+// GROUP CODES
+// =============================================================================
+
+/**
+ * Serialize group code / value pairs, one per line
+ */
+function groups(pairs: [number, string | number][]): string[] {
+  return pairs.flatMap(([code, value]) => [
+    String(code),
+    typeof value === 'number' ? formatNumber(value) : value,
+  ]);
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
+
+function section(name: string, body: string[]): string[] {
+  return [...groups([[0, 'SECTION'], [2, name]]), ...body, ...groups([[0, 'ENDSEC']])];
+}
+
+function table(name: string, entries: string[][]): string[] {
+  return [
+    ...groups([[0, 'TABLE'], [2, name], [70, entries.length]]),
+    ...entries.flat(),
+    ...groups([[0, 'ENDTAB']]),
+  ];
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Export a pattern as DXF (mm, Y up, net as seen on the printed side)
+ */
+export function exportPatternToDXF(pattern: FoldPattern): string {
+  // DXF Y runs up the drawing, sheet Y down the page
+  const toDrawing = (p: THREE.Vector3) => {
+    const { x, y } = projectToSheet(p, 0);
+    return { x, y: -y };
+  };
+
+  const points = linePathPoints(pattern.foldLines).map(toDrawing);
+  const min = {
+    x: Math.min(...points.map(p => p.x)),
+    y: Math.min(...points.map(p => p.y)),
+  };
+  const max = {
+    x: Math.max(...points.map(p => p.x)),
+    y: Math.max(...points.map(p => p.y)),
+  };
+
+  const header = section('HEADER', groups([
+    [9, '$ACADVER'], [1, 'AC1009'],
+    [9, '$EXTMIN'], [10, min.x], [20, min.y], [30, 0],
+    [9, '$EXTMAX'], [10, max.x], [20, max.y], [30, 0],
+    [9, '$LTSCALE'], [40, 1],
+  ]));
+
+  const linetypes = LINETYPES.map(lt => {
+    const length = lt.pattern.reduce((sum, d) => sum + Math.abs(d), 0);
+    return groups([
+      [0, 'LTYPE'],
+      [2, lt.name],
+      [70, 0],
+      [3, lt.description],
+      [72, 65],
+      [73, lt.pattern.length],
+      [40, length],
+      ...lt.pattern.map((d): [number, number] => [49, d]),
+    ]);
+  });
+
+  const layers = [
+    groups([[0, 'LAYER'], [2, '0'], [70, 0], [62, 7], [6, 'CONTINUOUS']]),
+    ...LAYERS.map(layer => groups([
+      [0, 'LAYER'],
+      [2, layer.name],
+      [70, 0],
+      [62, layer.color],
+      [6, layer.linetype],
+    ])),
+  ];
+
+  const tables = section('TABLES', [
+    ...table('LTYPE', linetypes),
+    ...table('LAYER', layers),
+  ]);
+
+  // Lines take colour and linetype from their layer (BYLAYER)
+  const entities = section('ENTITIES', pattern.foldLines.flatMap(curveArcs).flatMap(line => {
+    const layer = LAYERS.find(l => l.type === line.type)!;
+    const a = toDrawing(line.start);
+    const b = toDrawing(line.end);
+
+    if (line.curve?.kind === 'arc') {
+      // Arcs run counter-clockwise in the drawing; the Y flip reverses the sweep
+      const c = toDrawing(line.curve.center);
+      const degrees = (p: { x: number; y: number }) => (Math.atan2(p.y - c.y, p.x - c.x) * 180) / Math.PI;
+      const [from, to] = line.curve.sweep < 0 ? [a, b] : [b, a];
+      return groups([
+        [0, 'ARC'],
+        [8, layer.name],
+        [10, c.x], [20, c.y], [30, 0],
+        [40, Math.hypot(a.x - c.x, a.y - c.y)],
+        [50, degrees(from)],
+        [51, degrees(to)],
+      ]);
+    }
+
+    return groups([
+      [0, 'LINE'],
+      [8, layer.name],
+      [10, a.x], [20, a.y], [30, 0],
+      [11, b.x], [21, b.y], [31, 0],
+    ]);
+  }));
+
+  return [...header, ...tables, ...entities, ...groups([[0, 'EOF']])].join('\n') + '\n';
+}
+
+/**
+ * Download DXF file
+ */
+export function downloadDXF(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'application/dxf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.dxf') ? filename : `${filename}.dxf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
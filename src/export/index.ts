@@ -1,2 +1,9 @@
-export { exportPatternToSVG, downloadSVG } from './svg';
-export { exportToSTL, exportSceneToSTL, validateMesh } from './stl';
+export { exportPatternToSVG, downloadSVG, SVG_LINE_STYLES } from './svg';
+export { exportPatternToPDF, downloadPDF } from './pdf';
+export { exportPatternToDXF, downloadDXF } from './dxf';
+export { exportToSTL, exportSceneToSTL, exportPatternToSTL, exportLivingHinge, validateMesh } from './stl';
+export { exportGeometryTo3MF, download3MF } from './threemf';
+export { tilePattern, tiledPatternToZip } from './tiled';
+export type { TiledPage, TiledPattern } from './tiled';
+export { createZip, downloadZip } from './zip';
+export { createFoldedModel, exportPatternToGLB, exportPatternToOBJ, exportPatternToOBJZip, downloadGLB } from './model';
@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import type { FoldPattern, FoldLine, ModelExportOptions } from '@/types';
+import { foldLineSegments, foldPattern } from '@/core/folding';
+import { SVG_LINE_STYLES } from './svg';
+import { createZip } from './zip';
+
+/**
+ * GLB and OBJ/MTL Export
+ *
+ * The folded model for renders and web viewers: one named mesh per panel
+ * (the pattern face id, e.g. "front" or "back-left-tab") and the fold lines
+ * as line primitives. Units are metres, as glTF expects, with Y up.
+ */
+
+const DEFAULT_OPTIONS: ModelExportOptions = {
+  progress: 1,
+  color: '#F5F0E6',
+  foldLines: true,
+};
+
+const METRES_PER_UNIT = 0.01;   // Pattern units are centimetres
+
+const LINE_GROUPS: { type: Exclude<FoldLine['type'], 'cut'>; name: string }[] = [
+  { type: 'mountain', name: 'mountain-folds' },
+  { type: 'valley', name: 'valley-folds' },
+];
+
+// =============================================================================
+// SCENE
+// =============================================================================
+
+/**
+ * Build the folded model as a group of named panel meshes and fold lines
+ */
+export function createFoldedModel(
+  pattern: FoldPattern,
+  options: Partial<ModelExportOptions> = {}
+): THREE.Group {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const folded = foldPattern(pattern, opts.progress);
+  const group = new THREE.Group();
+  group.name = pattern.name;
+
+  const material = new THREE.MeshStandardMaterial({
+    name: 'paper',
+    color: opts.color,
+    side: THREE.DoubleSide,
+  });
+
+  pattern.faces.forEach((face, i) => {
+    const points = face.vertices.map(vi =>
+      pattern.vertices[vi].position.clone().applyMatrix4(folded.transforms[i]).multiplyScalar(METRES_PER_UNIT)
+    );
+
+    const positions: number[] = [];
+    for (let k = 1; k < points.length - 1; k++) {
+      [points[0], points[k], points[k + 1]].forEach(p => positions.push(p.x, p.y, p.z));
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeVertexNormals();
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = face.id;
+    mesh.userData = { role: face.role };
+    group.add(mesh);
+  });
+
+  if (opts.foldLines) {
+    const segments = foldLineSegments(folded);
+
+    LINE_GROUPS.forEach(({ type, name }) => {
+      if (segments[type].length === 0) return;
+      const geometry = new THREE.BufferGeometry().setFromPoints(
+        segments[type].flat().map(p => p.clone().multiplyScalar(METRES_PER_UNIT))
+      );
+      const lines = new THREE.LineSegments(
+        geometry,
+        new THREE.LineBasicMaterial({ name, color: SVG_LINE_STYLES[type].stroke })
+      );
+      lines.name = name;
+      group.add(lines);
+    });
+  }
+
+  return group;
+}
+
+// =============================================================================
+// GLB
+// =============================================================================
+
+/**
+ * Export the folded model as binary glTF
+ */
+export async function exportPatternToGLB(
+  pattern: FoldPattern,
+  options: Partial<ModelExportOptions> = {}
+): Promise<ArrayBuffer> {
+  const model = createFoldedModel(pattern, options);
+  const result = await new GLTFExporter().parseAsync(model, { binary: true });
+  return result as ArrayBuffer;
+}
+
+// =============================================================================
+// OBJ / MTL
+// =============================================================================
+
+function mtlColor(color: THREE.Color): string {
+  const { r, g, b } = color.getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+  return `${r.toFixed(4)} ${g.toFixed(4)} ${b.toFixed(4)}`;
+}
+
+/**
+ * Export the folded model as OBJ with its MTL material library
+ */
+export function exportPatternToOBJ(
+  pattern: FoldPattern,
+  basename: string,
+  options: Partial<ModelExportOptions> = {}
+): { obj: string; mtl: string } {
+  const model = createFoldedModel(pattern, options);
+
+  const materials = new Map<string, THREE.Color>();
+  model.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      const material = object.material as THREE.MeshStandardMaterial | THREE.LineBasicMaterial;
+      materials.set(material.name, material.color);
+    }
+  });
+
+  const mtl = [...materials].map(([name, color]) => `newmtl ${name}\nKd ${mtlColor(color)}\nKa 0 0 0\nd 1\nillum 1\n`).join('\n');
+
+  // OBJExporter assigns materials to meshes only
+  let body = new OBJExporter().parse(model);
+  LINE_GROUPS.forEach(({ name }) => {
+    body = body.replace(`o ${name}\n`, `o ${name}\nusemtl ${name}\n`);
+  });
+  const obj = `# ${pattern.name}\n# Units: metres\nmtllib ${basename}.mtl\n${body}`;
+
+  return { obj, mtl };
+}
+
+/**
+ * OBJ and MTL bundled in one ZIP archive
+ */
+export function exportPatternToOBJZip(
+  pattern: FoldPattern,
+  basename: string,
+  options: Partial<ModelExportOptions> = {}
+): Uint8Array {
+  const { obj, mtl } = exportPatternToOBJ(pattern, basename, options);
+  return createZip([
+    { name: `${basename}.obj`, data: obj },
+    { name: `${basename}.mtl`, data: mtl },
+  ]);
+}
+
+/**
+ * Download GLB file
+ */
+export function downloadGLB(buffer: ArrayBuffer, filename: string): void {
+  const blob = new Blob([buffer], { type: 'model/gltf-binary' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.glb') ? filename : `${filename}.glb`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
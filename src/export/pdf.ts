@@ -0,0 +1,219 @@
+import type { FoldPattern, FoldLine, PatternConfig, PDFExportOptions } from '@/types';
+import { SHEET, projectToSheet } from '@/core/sheet';
+import { curveBeziers, linePathPoints } from '@/core/curve';
+import { SVG_LINE_STYLES } from './svg';
+
+/**
+ * PDF Dieline Export
+ *
+ * Writes a single-page PDF at 1:1 scale. The page is sized to the net plus a
+ * margin and a title block, so nothing is scaled to fit a paper size. Cut,
+ * mountain and valley lines sit on separate optional-content layers (OCGs)
+ * that can be toggled in Acrobat, Illustrator and prepress tools.
+ */
+
+const DEFAULT_OPTIONS: PDFExportOptions = {
+  margin: 10,
+};
+
+const PT_PER_MM = 72 / 25.4;
+
+const TITLE_BLOCK = {
+  width: 150,     // mm
+  height: 36,
+  text: 3,        // Font size, mm
+} as const;
+
+// Colours, widths and dashes come from SVG_LINE_STYLES, so both dielines match
+const LAYERS: { type: FoldLine['type']; name: string; label: string }[] = [
+  { type: 'cut', name: 'Cut', label: 'Cut line' },
+  { type: 'mountain', name: 'Mountain', label: 'Mountain fold' },
+  { type: 'valley', name: 'Valley', label: 'Valley fold' },
+];
+
+// =============================================================================
+// PDF PRIMITIVES
+// =============================================================================
+
+const num = (value: number): string => {
+  const fixed = value.toFixed(3);
+  return fixed.replace(/\.?0+$/, '') || '0';
+};
+
+/**
+ * PDF string literal; characters outside Latin-1 become '?'
+ */
+function pdfString(text: string): string {
+  const latin1 = [...text].map(ch => (ch.charCodeAt(0) < 256 ? ch : '?')).join('');
+  return `(${latin1.replace(/[\\()]/g, m => `\\${m}`)})`;
+}
+
+/**
+ * '#RRGGBB' as PDF RGB components (0–1)
+ */
+function pdfColor(hex: string): string {
+  return [1, 3, 5].map(i => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+function strokeStyle(layer: (typeof LAYERS)[number]): string {
+  const { stroke, strokeWidth, dashArray } = SVG_LINE_STYLES[layer.type];
+  return `${pdfColor(stroke)} RG ${num(strokeWidth)} w [${dashArray.map(num).join(' ')}] 0 d`;
+}
+
+function text(x: number, y: number, size: number, content: string, bold: boolean = false): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(content)} Tj ET`;
+}
+
+/**
+ * Assemble numbered objects into a file with a cross-reference table.
+ * Object bodies are Latin-1 strings, so one character is one byte.
+ */
+function buildPDF(objects: string[]): Uint8Array {
+  let body = '%PDF-1.5\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+
+  objects.forEach((object, i) => {
+    offsets.push(body.length);
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    body += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 2 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(body.length);
+  for (let i = 0; i < body.length; i++) {
+    bytes[i] = body.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Export a pattern as a true-scale PDF dieline
+ */
+export function exportPatternToPDF(
+  pattern: FoldPattern,
+  config: PatternConfig,
+  options: Partial<PDFExportOptions> = {}
+): Uint8Array {
+  const { margin } = { ...DEFAULT_OPTIONS, ...options };
+
+  // Net bounds in mm, upright as designed
+  const points = linePathPoints(pattern.foldLines).map(p => projectToSheet(p, 0));
+  const minX = Math.min(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const netWidth = Math.max(...points.map(p => p.x)) - minX;
+  const netHeight = Math.max(...points.map(p => p.y)) - minY;
+
+  // Page in mm: net above the title block
+  const pageWidth = Math.max(netWidth, TITLE_BLOCK.width) + 2 * margin;
+  const pageHeight = netHeight + TITLE_BLOCK.height + 3 * margin;
+
+  // Content is drawn in mm with Y up; pattern Z runs down the page
+  const toPage = (p: { x: number; y: number }) => ({
+    x: margin + (pageWidth - 2 * margin - netWidth) / 2 + (p.x - minX),
+    y: pageHeight - margin - (p.y - minY),
+  });
+
+  const scale = PT_PER_MM.toFixed(6);
+  const ops: string[] = [`${scale} 0 0 ${scale} 0 0 cm`, '1 J 1 j'];
+
+  LAYERS.forEach((layer, i) => {
+    const lines = pattern.foldLines.filter(line => line.type === layer.type);
+    ops.push(`/OC /L${i} BDC`, strokeStyle(layer));
+    lines.forEach(line => {
+      const a = toPage(projectToSheet(line.start, 0));
+      const b = toPage(projectToSheet(line.end, 0));
+      if (!line.curve) {
+        ops.push(`${num(a.x)} ${num(a.y)} m ${num(b.x)} ${num(b.y)} l S`);
+        return;
+      }
+
+      // Arcs as cubic Béziers, PDF's only curve; Béziers as they are
+      const curves = curveBeziers(line).map(segment =>
+        segment.map(p => toPage(projectToSheet(p, 0))).map(p => `${num(p.x)} ${num(p.y)}`).join(' ') + ' c'
+      );
+      ops.push(`${num(a.x)} ${num(a.y)} m ${curves.join(' ')} S`);
+    });
+    ops.push('EMC');
+  });
+
+  // Title block
+  const t = TITLE_BLOCK.text;
+  const bx = margin;
+  const by = margin;
+  const row = (n: number) => by + TITLE_BLOCK.height - 6 - n * (t + 2);
+  const dims = [config.width, config.height, config.depth].map(v => num(v * SHEET.mmPerUnit)).join(' \xD7 ');
+
+  ops.push(
+    '0 0 0 RG 0.25 w [] 0 d',
+    `${num(bx)} ${num(by)} ${TITLE_BLOCK.width} ${TITLE_BLOCK.height} re S`,
+    `${num(bx + 90)} ${num(by)} m ${num(bx + 90)} ${num(by + TITLE_BLOCK.height)} l S`,
+    '0 0 0 rg',
+    text(bx + 3, row(0), t + 1, pattern.name, true),
+    text(bx + 3, row(1), t, `Dimensions (W \xD7 H \xD7 D): ${dims} mm`),
+    text(bx + 3, row(2), t, `Net: ${netWidth.toFixed(1)} \xD7 ${netHeight.toFixed(1)} mm`),
+    text(bx + 3, row(3), t, `Material thickness: ${num(config.thickness)} mm`),
+    text(bx + 3, row(4), t, 'Scale 1:1 \x96 print at 100%, do not fit to page'),
+  );
+
+  // Legend
+  LAYERS.forEach((layer, i) => {
+    const y = row(i + 1) + t / 3;
+    ops.push(
+      strokeStyle(layer),
+      `${num(bx + 93)} ${num(y)} m ${num(bx + 108)} ${num(y)} l S`,
+      '0 0 0 rg',
+      text(bx + 111, row(i + 1), t, layer.label),
+    );
+  });
+
+  // 50 mm scale bar to check the print
+  const sy = row(4) + t / 3;
+  ops.push(
+    '0 0 0 RG 0.25 w [] 0 d',
+    `${num(bx + 93)} ${num(sy)} m ${num(bx + 143)} ${num(sy)} l S`,
+    ...[0, 10, 20, 30, 40, 50].map(d => `${num(bx + 93 + d)} ${num(sy - 1)} m ${num(bx + 93 + d)} ${num(sy + 1)} l S`),
+    text(bx + 93, sy - 4, t - 0.5, '50 mm'),
+  );
+
+  const content = ops.join('\n');
+  const first = 6;  // Object number of the first layer dictionary
+  const layerRefs = LAYERS.map((_, i) => `${first + i} 0 R`).join(' ');
+
+  return buildPDF([
+    `<< /Type /Catalog /Pages 3 0 R /OCProperties << /OCGs [${layerRefs}] /D << /Order [${layerRefs}] /ON [${layerRefs}] >> >> >>`,
+    `<< /Title ${pdfString(`${pattern.name} dieline`)} /Producer (paper-fold-package) >>`,
+    '<< /Type /Pages /Kids [4 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 3 0 R /MediaBox [0 0 ${num(pageWidth * PT_PER_MM)} ${num(pageHeight * PT_PER_MM)}] ` +
+      `/Resources << /Font << /F1 ${first + LAYERS.length} 0 R /F2 ${first + LAYERS.length + 1} 0 R >> ` +
+      `/Properties << ${LAYERS.map((_, i) => `/L${i} ${first + i} 0 R`).join(' ')} >> >> /Contents 5 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    ...LAYERS.map(layer => `<< /Type /OCG /Name ${pdfString(layer.name)} >>`),
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ]);
+}
+
+/**
+ * Download PDF file
+ */
+export function downloadPDF(pdf: Uint8Array, filename: string): void {
+  // exportPatternToPDF output always spans its whole buffer
+  const blob = new Blob([pdf.buffer as ArrayBuffer], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.pdf') ? filename : `${filename}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
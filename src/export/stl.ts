@@ -1,7 +1,9 @@
 import * as THREE from 'three';
 import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
-import type { STLExportOptions } from '@/types';
+import type { FoldPattern, LivingHingeOptions, SolidFormat, STLExportOptions } from '@/types';
+import { LIVING_HINGE, createFoldedSolid, createLivingHingeSolid } from '@/core/solid';
+import { download3MF, exportGeometryTo3MF } from './threemf';
 
 const DEFAULT_OPTIONS: STLExportOptions = {
   binary: true,
@@ -25,11 +27,52 @@ export function validateMesh(mesh: THREE.Mesh): string[] {
     return issues;
   }
 
+  const position = geometry.attributes.position;
+  if (position.count === 0) {
+    issues.push('Geometry has no triangles');
+    return issues;
+  }
+
   // Check normals
   if (!geometry.attributes.normal) {
     issues.push('Normals missing - will be computed');
   }
 
+  const corners: THREE.Vector3[] = [];
+  for (let i = 0; i < position.count; i++) {
+    corners.push(new THREE.Vector3().fromBufferAttribute(position, i));
+  }
+
+  if (corners.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y) || !Number.isFinite(p.z))) {
+    issues.push('Geometry has invalid (NaN or infinite) coordinates');
+    return issues;
+  }
+
+  // Degenerate triangles and open edges (an edge of a closed shell is used an even number of times)
+  const key = (p: THREE.Vector3) => `${p.x.toFixed(3)},${p.y.toFixed(3)},${p.z.toFixed(3)}`;
+  const edgeUse = new Map<string, number>();
+  let degenerate = 0;
+
+  for (let i = 0; i + 2 < corners.length; i += 3) {
+    const [a, b, c] = [corners[i], corners[i + 1], corners[i + 2]];
+    if (b.clone().sub(a).cross(c.clone().sub(a)).length() < 1e-9) degenerate++;
+
+    [[a, b], [b, c], [c, a]].forEach(([p, q]) => {
+      const [kp, kq] = [key(p), key(q)];
+      const edge = kp < kq ? `${kp}|${kq}` : `${kq}|${kp}`;
+      edgeUse.set(edge, (edgeUse.get(edge) ?? 0) + 1);
+    });
+  }
+
+  if (degenerate > 0) {
+    issues.push(`${degenerate} degenerate triangle${degenerate === 1 ? '' : 's'} (zero area)`);
+  }
+
+  const open = [...edgeUse.values()].filter(count => count % 2 === 1).length;
+  if (open > 0) {
+    issues.push(`${open} open edge${open === 1 ? '' : 's'} - mesh is not watertight`);
+  }
+
   // Check bounding box size (assuming mm)
   geometry.computeBoundingBox();
   const box = geometry.boundingBox!;
@@ -78,6 +121,62 @@ export function exportToSTL(
   }
 }
 
+/**
+ * Export the assembled pattern as a printable solid, walls as thick as the
+ * material (mm). The mesh is checked first; its issues are returned so the
+ * caller can show them. Nothing is written when the mesh is empty.
+ */
+export function exportPatternToSTL(
+  pattern: FoldPattern,
+  thickness: number,
+  filename: string,
+  options: Partial<STLExportOptions> = {}
+): string[] {
+  const mesh = new THREE.Mesh(toPrintBed(createFoldedSolid(pattern, thickness)));
+  const issues = validateMesh(mesh);
+
+  if (mesh.geometry.attributes.position.count > 0) {
+    exportToSTL(mesh, filename, options);
+  }
+
+  return issues;
+}
+
+/**
+ * Export the flat net as a living-hinge part, as STL or 3MF. Like
+ * exportPatternToSTL, returns the mesh check's issues.
+ */
+export function exportLivingHinge(
+  pattern: FoldPattern,
+  options: Partial<LivingHingeOptions>,
+  format: SolidFormat,
+  filename: string
+): string[] {
+  const { thickness, web } = { ...LIVING_HINGE.defaults, ...options };
+  if (web >= thickness) {
+    return [`Hinge web (${web} mm) must be thinner than the part (${thickness} mm), or the folds get no groove`];
+  }
+
+  const mesh = new THREE.Mesh(toPrintBed(createLivingHingeSolid(pattern, options)));
+  const issues = validateMesh(mesh);
+  if (mesh.geometry.attributes.position.count === 0) return issues;
+
+  if (format === '3mf') {
+    download3MF(exportGeometryTo3MF(mesh.geometry, pattern.name), filename);
+  } else {
+    exportToSTL(mesh, filename);
+  }
+
+  return issues;
+}
+
+/**
+ * Turn a Y-up model so it stands on a Z-up print bed, as slicers expect
+ */
+function toPrintBed(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  return geometry.rotateX(Math.PI / 2);
+}
+
 /**
  * Export entire scene to STL
  */
@@ -1,83 +1,261 @@
-import * as THREE from 'three';
-import type { FoldPattern, SVGExportOptions } from '@/types';
+import type * as THREE from 'three';
+import type { FoldPattern, FoldLine, SVGExportOptions, SVGLineStyle } from '@/types';
+import { SHEET, projectToSheet } from '@/core/sheet';
+import { linePathPoints } from '@/core/curve';
+
+/**
+ * SVG Export
+ *
+ * Draws a pattern at 1:1 in millimetres: one user unit is one mm and the
+ * document's width and height are given in mm, so it prints and cuts at
+ * true size. Legend, title block and dimensions are optional groups
+ * outside the net that can be switched off for cutting machines.
+ */
+
+export const SVG_LINE_STYLES: Record<FoldLine['type'], SVGLineStyle> = {
+  cut: { stroke: '#FF0000', strokeWidth: 0.5, dashArray: [] },
+  mountain: { stroke: '#0000FF', strokeWidth: 0.3, dashArray: [3, 1.5] },
+  valley: { stroke: '#00FF00', strokeWidth: 0.3, dashArray: [1.5, 0.75] },
+};
 
 const DEFAULT_OPTIONS: SVGExportOptions = {
-  width: 800,
-  height: 600,
-  includeLayers: true,
-  strokeWidth: 1,
+  margin: 10,
+  styles: SVG_LINE_STYLES,
+  legend: false,
+  titleBlock: false,
+  dimensions: false,
 };
 
+const ANNOTATION = {
+  text: 3,            // Font size, mm
+  color: '#333333',
+  dimensionGap: 8,    // mm between the net and a dimension line
+  blockHeight: 30,    // mm for the title block / legend band
+  blockGap: 6,        // mm between the net and that band
+  titleWidth: 100,
+  legendWidth: 55,
+} as const;
+
+const LEGEND_LABELS: Record<FoldLine['type'], string> = {
+  cut: 'Cut',
+  mountain: 'Mountain (away)',
+  valley: 'Valley (toward)',
+};
+
+type Point = { x: number; y: number };
+
+// =============================================================================
+// LINES
+// =============================================================================
+
+const fmt = (value: number): string => value.toFixed(2);
+
 /**
- * Project 3D point to 2D SVG coordinates
+ * CSS rules for the three line classes
  */
-function projectToSVG(
-  point: THREE.Vector3,
-  camera: THREE.Camera,
-  width: number,
-  height: number
-): { x: number; y: number } {
-  const projected = point.clone().project(camera);
-  return {
-    x: ((projected.x + 1) * width) / 2,
-    y: ((-projected.y + 1) * height) / 2,
-  };
+export function svgLineStyleSheet(styles: Record<FoldLine['type'], SVGLineStyle> = SVG_LINE_STYLES): string {
+  return (Object.keys(styles) as FoldLine['type'][])
+    .map(type => {
+      const { stroke, strokeWidth, dashArray } = styles[type];
+      const dash = dashArray.length > 0 ? ` stroke-dasharray: ${dashArray.join(',')};` : '';
+      return `.${type} { stroke: ${stroke}; stroke-width: ${strokeWidth};${dash} fill: none; stroke-linecap: round; }`;
+    })
+    .join('\n      ');
 }
 
 /**
- * Export fold pattern to SVG string
+ * Path data for a line; arcs become an elliptical-arc command and Béziers a
+ * cubic one. `toSheet` must be a rotation plus offset, so the sweep keeps
+ * its sense.
+ */
+function linePath(line: FoldLine, toSheet: (point: THREE.Vector3) => Point): string {
+  const a = toSheet(line.start);
+  const b = toSheet(line.end);
+  if (!line.curve) return `M ${fmt(a.x)} ${fmt(a.y)} L ${fmt(b.x)} ${fmt(b.y)}`;
+
+  if (line.curve.kind === 'bezier') {
+    const c1 = toSheet(line.curve.control1);
+    const c2 = toSheet(line.curve.control2);
+    return `M ${fmt(a.x)} ${fmt(a.y)} C ${fmt(c1.x)} ${fmt(c1.y)} ${fmt(c2.x)} ${fmt(c2.y)} ${fmt(b.x)} ${fmt(b.y)}`;
+  }
+
+  const { center, sweep } = line.curve;
+  const c = toSheet(center);
+  const r = Math.hypot(a.x - c.x, a.y - c.y);
+  const large = Math.abs(sweep) > Math.PI ? 1 : 0;
+  return `M ${fmt(a.x)} ${fmt(a.y)} A ${fmt(r)} ${fmt(r)} 0 ${large} ${sweep > 0 ? 1 : 0} ${fmt(b.x)} ${fmt(b.y)}`;
+}
+
+/**
+ * Cut, mountain and valley groups of paths, placed by `toSheet` (mm)
+ */
+export function svgLineGroups(lines: FoldLine[], toSheet: (point: THREE.Vector3) => Point): string {
+  const groups: Record<FoldLine['type'], string[]> = { cut: [], mountain: [], valley: [] };
+
+  lines.forEach(line => {
+    const d = linePath(line, toSheet);
+    groups[line.type].push(`<path id="${line.id}" data-role="${line.role}" d="${d}" class="${line.type}"/>`);
+  });
+
+  return `<g id="cut-lines">
+    ${groups.cut.join('\n    ')}
+  </g>
+
+  <g id="mountain-folds">
+    ${groups.mountain.join('\n    ')}
+  </g>
+
+  <g id="valley-folds">
+    ${groups.valley.join('\n    ')}
+  </g>`;
+}
+
+// =============================================================================
+// ANNOTATIONS
+// =============================================================================
+
+export const escapeXML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// "--" may not appear inside an XML comment
+const commentText = (text: string): string => escapeXML(text).replace(/-{2,}/g, '-');
+
+function label(x: number, y: number, content: string, attributes: string = ''): string {
+  return `<text x="${fmt(x)}" y="${fmt(y)}" font-family="sans-serif" font-size="${ANNOTATION.text}" fill="${ANNOTATION.color}"${attributes}>${escapeXML(content)}</text>`;
+}
+
+/**
+ * Dimension line with extension lines and arrowheads, labelled in mm
+ */
+function dimension(from: Point, to: Point, offset: Point, vertical: boolean): string {
+  const a = { x: from.x + offset.x, y: from.y + offset.y };
+  const b = { x: to.x + offset.x, y: to.y + offset.y };
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const text = `${length.toFixed(1)} mm`;
+  const transform = vertical ? ` transform="rotate(-90 ${fmt(mid.x - 1)} ${fmt(mid.y)})"` : '';
+
+  return `<line x1="${fmt(from.x)}" y1="${fmt(from.y)}" x2="${fmt(a.x)}" y2="${fmt(a.y)}"/>
+    <line x1="${fmt(to.x)}" y1="${fmt(to.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}"/>
+    <line x1="${fmt(a.x)}" y1="${fmt(a.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}" marker-start="url(#arrow)" marker-end="url(#arrow)"/>
+    ${label(vertical ? mid.x - 1 : mid.x, vertical ? mid.y : mid.y - 1, text, ` stroke="none" text-anchor="middle"${transform}`)}`;
+}
+
+function titleBlock(pattern: FoldPattern, options: SVGExportOptions, x: number, y: number, net: Point): string {
+  const { config } = options;
+  const row = (n: number) => y + 6 + n * (ANNOTATION.text + 2);
+  const rows = [`Net: ${net.x.toFixed(1)} × ${net.y.toFixed(1)} mm`];
+
+  if (config) {
+    const dims = [config.width, config.height, config.depth].map(v => v * SHEET.mmPerUnit).join(' × ');
+    rows.unshift(`Dimensions (W × H × D): ${dims} mm`);
+    rows.push(`Material thickness: ${config.thickness} mm`);
+  }
+  rows.push('Scale 1:1 – print at 100%');
+
+  return `<g id="title-block">
+    <rect x="${fmt(x)}" y="${fmt(y)}" width="${ANNOTATION.titleWidth}" height="${ANNOTATION.blockHeight}" fill="none" stroke="${ANNOTATION.color}" stroke-width="0.25"/>
+    ${label(x + 3, row(0), pattern.name, ' font-weight="bold"')}
+    ${rows.map((text, i) => label(x + 3, row(i + 1), text)).join('\n    ')}
+  </g>`;
+}
+
+function legend(x: number, y: number): string {
+  const types = Object.keys(LEGEND_LABELS) as FoldLine['type'][];
+  const row = (n: number) => y + 6 + n * (ANNOTATION.text + 3);
+
+  return `<g id="legend">
+    ${label(x, row(0), 'Legend', ' font-weight="bold"')}
+    ${types.map((type, i) => {
+      const ly = row(i + 1) - ANNOTATION.text / 3;
+      return `<line x1="${fmt(x)}" y1="${fmt(ly)}" x2="${fmt(x + 15)}" y2="${fmt(ly)}" class="${type}"/>
+    ${label(x + 18, row(i + 1), LEGEND_LABELS[type])}`;
+    }).join('\n    ')}
+  </g>`;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Export a fold pattern to SVG at 1:1 scale in millimetres
  */
 export function exportPatternToSVG(
   pattern: FoldPattern,
-  camera: THREE.Camera,
   options: Partial<SVGExportOptions> = {}
 ): string {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const { width, height, strokeWidth } = opts;
-
-  const cutLines: string[] = [];
-  const mountainFolds: string[] = [];
-  const valleyFolds: string[] = [];
-
-  pattern.foldLines.forEach((line) => {
-    const start = projectToSVG(line.start, camera, width, height);
-    const end = projectToSVG(line.end, camera, width, height);
-    const d = `M ${start.x.toFixed(2)} ${start.y.toFixed(2)} L ${end.x.toFixed(2)} ${end.y.toFixed(2)}`;
-
-    switch (line.type) {
-      case 'cut':
-        cutLines.push(`<path d="${d}" class="cut"/>`);
-        break;
-      case 'mountain':
-        mountainFolds.push(`<path d="${d}" class="mountain"/>`);
-        break;
-      case 'valley':
-        valleyFolds.push(`<path d="${d}" class="valley"/>`);
-        break;
-    }
-  });
+  const { margin } = opts;
+
+  // Net bounds in mm, upright as designed
+  const points = linePathPoints(pattern.foldLines).map(p => projectToSheet(p, 0));
+  const minX = Math.min(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const net = {
+    x: Math.max(...points.map(p => p.x)) - minX,
+    y: Math.max(...points.map(p => p.y)) - minY,
+  };
+
+  // Room for dimensions above and left of the net, and a band below it
+  const dimSpace = opts.dimensions ? ANNOTATION.dimensionGap + ANNOTATION.text : 0;
+  const hasBand = opts.legend || opts.titleBlock;
+  const bandWidth = (opts.titleBlock ? ANNOTATION.titleWidth : 0) +
+    (opts.legend ? ANNOTATION.legendWidth : 0) +
+    (opts.legend && opts.titleBlock ? 5 : 0);
+
+  const left = margin + dimSpace;
+  const top = margin + dimSpace;
+  const width = Math.max(dimSpace + net.x, bandWidth) + 2 * margin;
+  const height = dimSpace + net.y + (hasBand ? ANNOTATION.blockGap + ANNOTATION.blockHeight : 0) + 2 * margin;
+
+  const place = (p: THREE.Vector3): Point => {
+    const { x, y } = projectToSheet(p, 0);
+    return { x: left + x - minX, y: top + y - minY };
+  };
+
+  const annotations: string[] = [];
+
+  if (opts.dimensions) {
+    const gap = ANNOTATION.dimensionGap;
+    annotations.push(`<g id="dimensions" stroke="${ANNOTATION.color}" stroke-width="0.2" fill="${ANNOTATION.color}">
+    ${dimension({ x: left, y: top }, { x: left + net.x, y: top }, { x: 0, y: -gap }, false)}
+    ${dimension({ x: left, y: top }, { x: left, y: top + net.y }, { x: -gap, y: 0 }, true)}
+  </g>`);
+  }
+
+  const bandY = top + net.y + ANNOTATION.blockGap;
+  if (opts.titleBlock) {
+    annotations.push(titleBlock(pattern, opts, margin, bandY, net));
+  }
+  if (opts.legend) {
+    const x = margin + (opts.titleBlock ? ANNOTATION.titleWidth + 5 : 0);
+    annotations.push(legend(x, bandY));
+  }
+
+  const config = opts.config;
+  const size = config ? `\n  <!-- Dimensions: ${config.width}cm x ${config.height}cm x ${config.depth}cm -->` : '';
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+<svg xmlns="http://www.w3.org/2000/svg"
+     viewBox="0 0 ${fmt(width)} ${fmt(height)}"
+     width="${fmt(width)}mm"
+     height="${fmt(height)}mm">
   <defs>
     <style>
-      .cut { stroke: #FF0000; stroke-width: ${strokeWidth}; fill: none; }
-      .mountain { stroke: #0000FF; stroke-width: ${strokeWidth * 0.5}; stroke-dasharray: 8,4; fill: none; }
-      .valley { stroke: #00FF00; stroke-width: ${strokeWidth * 0.5}; stroke-dasharray: 4,2; fill: none; }
+      ${svgLineStyleSheet(opts.styles)}
     </style>
+    <marker id="arrow" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="10" markerHeight="10" orient="auto-start-reverse">
+      <path d="M 0 0 L 10 5 L 0 10 z" fill="${ANNOTATION.color}"/>
+    </marker>
   </defs>
 
-  <g id="cut-lines">
-    ${cutLines.join('\n    ')}
-  </g>
+  <!-- Pattern: ${commentText(pattern.name)} -->${size}
+  <!-- Cut on the solid lines, fold on the dashed lines -->
 
-  <g id="mountain-folds">
-    ${mountainFolds.join('\n    ')}
-  </g>
+  ${svgLineGroups(pattern.foldLines, place)}
 
-  <g id="valley-folds">
-    ${valleyFolds.join('\n    ')}
-  </g>
+  ${annotations.join('\n\n  ')}
 </svg>`;
 }
 
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { escapeXML } from './svg';
+import { createZip } from './zip';
+
+/**
+ * 3MF Export
+ *
+ * Writes a single-object 3MF package (a ZIP holding an XML mesh) in
+ * millimetres. Coordinates are written as given; callers place the part on
+ * the print bed (Z up) first.
+ */
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+/**
+ * Build a 3MF package from a triangle geometry (mm).
+ * Coincident corners are shared so each closed shell is a connected mesh.
+ */
+export function exportGeometryTo3MF(geometry: THREE.BufferGeometry, name: string): Uint8Array {
+  const position = geometry.attributes.position;
+  const indices = new Map<string, number>();
+  const vertices: string[] = [];
+  const triangles: string[] = [];
+
+  const vertexIndex = (i: number): number => {
+    const x = position.getX(i).toFixed(4);
+    const y = position.getY(i).toFixed(4);
+    const z = position.getZ(i).toFixed(4);
+    const key = `${x} ${y} ${z}`;
+    let index = indices.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      indices.set(key, index);
+      vertices.push(`<vertex x="${x}" y="${y}" z="${z}"/>`);
+    }
+    return index;
+  };
+
+  for (let i = 0; i + 2 < position.count; i += 3) {
+    const [v1, v2, v3] = [vertexIndex(i), vertexIndex(i + 1), vertexIndex(i + 2)];
+    if (v1 === v2 || v2 === v3 || v3 === v1) continue;
+    triangles.push(`<triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`);
+  }
+
+  const model = `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <metadata name="Title">${escapeXML(name)}</metadata>
+  <resources>
+    <object id="1" type="model" name="${escapeXML(name)}">
+      <mesh>
+        <vertices>
+          ${vertices.join('\n          ')}
+        </vertices>
+        <triangles>
+          ${triangles.join('\n          ')}
+        </triangles>
+      </mesh>
+    </object>
+  </resources>
+  <build>
+    <item objectid="1"/>
+  </build>
+</model>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: RELATIONSHIPS },
+    { name: '3D/3dmodel.model', data: model },
+  ]);
+}
+
+/**
+ * Download 3MF file
+ */
+export function download3MF(data: Uint8Array, filename: string): void {
+  // createZip output always spans its whole buffer
+  const blob = new Blob([data.buffer as ArrayBuffer], { type: 'model/3mf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.3mf') ? filename : `${filename}.3mf`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
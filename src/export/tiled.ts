@@ -0,0 +1,385 @@
+import type { FoldPattern, FoldLine, SheetSize, TiledExportOptions } from '@/types';
+import { SHEET_SIZES, getPrintableArea, minimalBoundingBox, projectToSheet } from '@/core/sheet';
+import { linePathPoints } from '@/core/curve';
+import { escapeXML, svgLineGroups, svgLineStyleSheet } from './svg';
+import { createZip } from './zip';
+
+/**
+ * Tiled Printing
+ *
+ * Splits a net that is larger than one sheet across a grid of pages.
+ * Neighbouring pages share an overlap strip carrying crosshairs at the same
+ * pattern positions, so the printed pages can be lined up and taped. Pages
+ * are labelled by row letter and column number ("A2" = first row, second
+ * column), and each carries a small map of the grid.
+ */
+
+const DEFAULT_OPTIONS: TiledExportOptions = {
+  sheet: SHEET_SIZES.a4,
+  overlap: 10,
+};
+
+const STYLE = `
+      ${svgLineStyleSheet()}
+      .overlap { fill: #000000; fill-opacity: 0.06; stroke: none; }
+      .mark { stroke: #000000; stroke-width: 0.2; fill: none; }
+      .label { font-family: sans-serif; fill: #333333; }`;
+
+export interface TiledPage {
+  label: string;      // e.g. "A2"
+  row: number;
+  column: number;
+  svg: string;
+}
+
+export interface TiledPattern {
+  pages: TiledPage[];
+  assemblyMap: string;  // SVG of the whole grid over a reduced net
+  rows: number;
+  columns: number;
+  sheet: SheetSize;
+  landscape: boolean;
+}
+
+/**
+ * Layout of the page grid in sheet-plane millimetres
+ */
+interface TileGrid {
+  angle: number;
+  landscape: boolean;
+  rows: number;
+  columns: number;
+  originX: number;        // Top-left of the first tile's window
+  originY: number;
+  stepX: number;          // Distance between neighbouring windows
+  stepY: number;
+  windowWidth: number;    // Printable area per page
+  windowHeight: number;
+  pageWidth: number;      // Sheet size as placed
+  pageHeight: number;
+}
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+/**
+ * Row letters: A-Z, then AA, AB, ...
+ */
+function rowLabel(row: number): string {
+  let label = '';
+  let n = row + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+}
+
+function pageLabel(row: number, column: number): string {
+  return `${rowLabel(row)}${column + 1}`;
+}
+
+function tilesAlong(length: number, window: number, step: number): number {
+  return length <= window ? 1 : Math.ceil((length - window) / step) + 1;
+}
+
+function lineBounds(lines: FoldLine[], angle: number) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  linePathPoints(lines).forEach(p => {
+    const { x, y } = projectToSheet(p, angle);
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return { minX, minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Choose the net rotation and page orientation needing the fewest pages
+ */
+function planGrid(pattern: FoldPattern, options: TiledExportOptions): TileGrid {
+  const { sheet, overlap } = options;
+  const turned = minimalBoundingBox(pattern).angle;
+  const angles = [0, Math.PI / 2, turned, turned + Math.PI / 2];
+  let best: TileGrid | null = null;
+
+  angles.forEach(angle => {
+    const bounds = lineBounds(pattern.foldLines, angle);
+
+    [false, true].forEach(landscape => {
+      const area = getPrintableArea(sheet, landscape);
+      const stepX = Math.max(area.width - overlap, 1);
+      const stepY = Math.max(area.height - overlap, 1);
+      const columns = tilesAlong(bounds.width, area.width, stepX);
+      const rows = tilesAlong(bounds.height, area.height, stepY);
+      if (best && rows * columns >= best.rows * best.columns) return;
+
+      // Centre the net on the area the grid covers
+      const coverWidth = area.width + (columns - 1) * stepX;
+      const coverHeight = area.height + (rows - 1) * stepY;
+
+      best = {
+        angle,
+        landscape,
+        rows,
+        columns,
+        originX: bounds.minX - (coverWidth - bounds.width) / 2,
+        originY: bounds.minY - (coverHeight - bounds.height) / 2,
+        stepX,
+        stepY,
+        windowWidth: area.width,
+        windowHeight: area.height,
+        pageWidth: landscape ? sheet.height : sheet.width,
+        pageHeight: landscape ? sheet.width : sheet.height,
+      };
+    });
+  });
+
+  return best!;
+}
+
+/**
+ * Crosshair positions (sheet-plane mm) along the centre of every overlap strip
+ */
+function registrationPoints(grid: TileGrid, overlap: number): { x: number; y: number }[] {
+  const points: { x: number; y: number }[] = [];
+
+  for (let c = 0; c < grid.columns - 1; c++) {
+    const x = grid.originX + (c + 1) * grid.stepX + overlap / 2;
+    for (let r = 0; r < grid.rows; r++) {
+      const top = grid.originY + r * grid.stepY;
+      points.push({ x, y: top + grid.windowHeight * 0.25 }, { x, y: top + grid.windowHeight * 0.75 });
+    }
+  }
+
+  for (let r = 0; r < grid.rows - 1; r++) {
+    const y = grid.originY + (r + 1) * grid.stepY + overlap / 2;
+    for (let c = 0; c < grid.columns; c++) {
+      const left = grid.originX + c * grid.stepX;
+      points.push({ x: left + grid.windowWidth * 0.25, y }, { x: left + grid.windowWidth * 0.75, y });
+    }
+  }
+
+  return points;
+}
+
+// =============================================================================
+// SVG OUTPUT
+// =============================================================================
+
+function linePaths(lines: FoldLine[], angle: number): string {
+  return svgLineGroups(lines, p => projectToSheet(p, angle));
+}
+
+function crosshair(x: number, y: number): string {
+  const r = 2.5;
+  return `<g class="mark"><circle cx="${x.toFixed(2)}" cy="${y.toFixed(2)}" r="${r}"/>` +
+    `<line x1="${(x - 2 * r).toFixed(2)}" y1="${y.toFixed(2)}" x2="${(x + 2 * r).toFixed(2)}" y2="${y.toFixed(2)}"/>` +
+    `<line x1="${x.toFixed(2)}" y1="${(y - 2 * r).toFixed(2)}" x2="${x.toFixed(2)}" y2="${(y + 2 * r).toFixed(2)}"/></g>`;
+}
+
+/**
+ * Small grid of the pages with the current one filled in
+ */
+function miniMap(grid: TileGrid, row: number, column: number, x: number, y: number, cell: number): string {
+  const cells: string[] = [];
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.columns; c++) {
+      const fill = r === row && c === column ? '#333333' : 'none';
+      cells.push(
+        `<rect x="${(x + c * cell).toFixed(2)}" y="${(y + r * cell).toFixed(2)}" ` +
+        `width="${cell.toFixed(2)}" height="${cell.toFixed(2)}" fill="${fill}" stroke="#333333" stroke-width="0.15"/>`
+      );
+    }
+  }
+  return `<g id="page-map">${cells.join('')}</g>`;
+}
+
+function renderPage(
+  pattern: FoldPattern,
+  grid: TileGrid,
+  options: TiledExportOptions,
+  row: number,
+  column: number
+): string {
+  const { sheet, overlap } = options;
+  const m = sheet.margin;
+  const windowX = grid.originX + column * grid.stepX;
+  const windowY = grid.originY + row * grid.stepY;
+  const tx = m - windowX;
+  const ty = m - windowY;
+  const label = pageLabel(row, column);
+
+  // Shade the strips this page shares with its neighbours
+  const strips: string[] = [];
+  const { windowWidth: w, windowHeight: h } = grid;
+  if (column > 0) strips.push(`<rect class="overlap" x="${m}" y="${m}" width="${overlap}" height="${h}"/>`);
+  if (column < grid.columns - 1) strips.push(`<rect class="overlap" x="${m + w - overlap}" y="${m}" width="${overlap}" height="${h}"/>`);
+  if (row > 0) strips.push(`<rect class="overlap" x="${m}" y="${m}" width="${w}" height="${overlap}"/>`);
+  if (row < grid.rows - 1) strips.push(`<rect class="overlap" x="${m}" y="${m + h - overlap}" width="${w}" height="${overlap}"/>`);
+
+  const marks = registrationPoints(grid, overlap)
+    .filter(p => p.x >= windowX && p.x <= windowX + w && p.y >= windowY && p.y <= windowY + h)
+    .map(p => crosshair(p.x + tx, p.y + ty));
+
+  // Neighbour labels in the margins
+  const text = Math.min(3, m * 0.4);
+  const neighbours: string[] = [];
+  if (column > 0) {
+    neighbours.push(`<text class="label" x="${(m / 2).toFixed(2)}" y="${(m + h / 2).toFixed(2)}" font-size="${text}" text-anchor="middle" transform="rotate(-90 ${(m / 2).toFixed(2)} ${(m + h / 2).toFixed(2)})">◀ ${pageLabel(row, column - 1)}</text>`);
+  }
+  if (column < grid.columns - 1) {
+    const x = m + w + m / 2;
+    neighbours.push(`<text class="label" x="${x.toFixed(2)}" y="${(m + h / 2).toFixed(2)}" font-size="${text}" text-anchor="middle" transform="rotate(90 ${x.toFixed(2)} ${(m + h / 2).toFixed(2)})">${pageLabel(row, column + 1)} ▶</text>`);
+  }
+  if (row > 0) {
+    neighbours.push(`<text class="label" x="${(m + w / 2).toFixed(2)}" y="${(m * 0.7).toFixed(2)}" font-size="${text}" text-anchor="middle">▲ ${pageLabel(row - 1, column)}</text>`);
+  }
+  if (row < grid.rows - 1) {
+    neighbours.push(`<text class="label" x="${(m + w / 2).toFixed(2)}" y="${(m + h + m * 0.7).toFixed(2)}" font-size="${text}" text-anchor="middle">▼ ${pageLabel(row + 1, column)}</text>`);
+  }
+
+  const cell = Math.min(2.5, (m * 0.8) / grid.rows);
+  const mapX = m + w - grid.columns * cell;
+  const mapY = m + h + (m - grid.rows * cell) / 2;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg"
+     viewBox="0 0 ${grid.pageWidth} ${grid.pageHeight}"
+     width="${grid.pageWidth}mm"
+     height="${grid.pageHeight}mm">
+  <defs>
+    <style>${STYLE}
+    </style>
+    <clipPath id="printable">
+      <rect x="${m}" y="${m}" width="${w.toFixed(2)}" height="${h.toFixed(2)}"/>
+    </clipPath>
+  </defs>
+
+  <!-- Page ${label} of ${grid.rows} × ${grid.columns}, ${sheet.name} ${grid.landscape ? 'landscape' : 'portrait'}, print at 100% -->
+
+  <g id="overlap">
+    ${strips.join('\n    ')}
+  </g>
+
+  <g clip-path="url(#printable)">
+    <g transform="translate(${tx.toFixed(2)} ${ty.toFixed(2)})">
+      ${linePaths(pattern.foldLines, grid.angle)}
+    </g>
+  </g>
+
+  <g id="registration">
+    ${marks.join('\n    ')}
+  </g>
+
+  <g id="labels">
+    <text class="label" x="${m}" y="${(m * 0.7).toFixed(2)}" font-size="${(text * 1.4).toFixed(2)}" font-weight="bold">${label}</text>
+    <text class="label" x="${m}" y="${(m + h + m * 0.7).toFixed(2)}" font-size="${text}">${escapeXML(pattern.name)} · ${grid.rows} × ${grid.columns} pages · overlap ${overlap} mm</text>
+    ${neighbours.join('\n    ')}
+  </g>
+
+  ${miniMap(grid, row, column, mapX, mapY, cell)}
+</svg>`;
+}
+
+/**
+ * One page showing the reduced net under the page grid
+ */
+function renderAssemblyMap(pattern: FoldPattern, grid: TileGrid, options: TiledExportOptions): string {
+  const { sheet } = options;
+  const m = sheet.margin;
+  const coverWidth = grid.windowWidth + (grid.columns - 1) * grid.stepX;
+  const coverHeight = grid.windowHeight + (grid.rows - 1) * grid.stepY;
+  const titleSpace = 12;
+  const scale = Math.min(grid.windowWidth / coverWidth, (grid.windowHeight - titleSpace) / coverHeight);
+  const x0 = m + (grid.windowWidth - coverWidth * scale) / 2;
+  const y0 = m + titleSpace;
+
+  const tiles: string[] = [];
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.columns; c++) {
+      const x = x0 + c * grid.stepX * scale;
+      const y = y0 + r * grid.stepY * scale;
+      const w = grid.windowWidth * scale;
+      const h = grid.windowHeight * scale;
+      tiles.push(
+        `<rect x="${x.toFixed(2)}" y="${y.toFixed(2)}" width="${w.toFixed(2)}" height="${h.toFixed(2)}" fill="none" stroke="#333333" stroke-width="0.3"/>` +
+        `<text class="label" x="${(x + w / 2).toFixed(2)}" y="${(y + h / 2).toFixed(2)}" font-size="6" text-anchor="middle" dominant-baseline="middle">${pageLabel(r, c)}</text>`
+      );
+    }
+  }
+
+  const tx = x0 - grid.originX * scale;
+  const ty = y0 - grid.originY * scale;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg"
+     viewBox="0 0 ${grid.pageWidth} ${grid.pageHeight}"
+     width="${grid.pageWidth}mm"
+     height="${grid.pageHeight}mm">
+  <defs>
+    <style>${STYLE}
+    </style>
+  </defs>
+
+  <text class="label" x="${m}" y="${m + 5}" font-size="5" font-weight="bold">${escapeXML(pattern.name)} — assembly map</text>
+  <text class="label" x="${m}" y="${m + 10}" font-size="3">${grid.rows} × ${grid.columns} pages on ${sheet.name}. Line up the crosshairs in the shaded strips.</text>
+
+  <g transform="translate(${tx.toFixed(2)} ${ty.toFixed(2)}) scale(${scale.toFixed(5)})" opacity="0.5">
+    ${linePaths(pattern.foldLines, grid.angle)}
+  </g>
+
+  <g id="tiles">
+    ${tiles.join('\n    ')}
+  </g>
+</svg>`;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Tile a pattern across as many pages as its size needs
+ */
+export function tilePattern(
+  pattern: FoldPattern,
+  options: Partial<TiledExportOptions> = {}
+): TiledPattern {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const grid = planGrid(pattern, opts);
+  const pages: TiledPage[] = [];
+
+  for (let row = 0; row < grid.rows; row++) {
+    for (let column = 0; column < grid.columns; column++) {
+      pages.push({
+        label: pageLabel(row, column),
+        row,
+        column,
+        svg: renderPage(pattern, grid, opts, row, column),
+      });
+    }
+  }
+
+  return {
+    pages,
+    assemblyMap: renderAssemblyMap(pattern, grid, opts),
+    rows: grid.rows,
+    columns: grid.columns,
+    sheet: opts.sheet,
+    landscape: grid.landscape,
+  };
+}
+
+/**
+ * Bundle tiled pages and the assembly map into one ZIP archive
+ */
+export function tiledPatternToZip(tiled: TiledPattern, basename: string): Uint8Array {
+  return createZip([
+    { name: `${basename}-map.svg`, data: tiled.assemblyMap },
+    ...tiled.pages.map(page => ({ name: `${basename}-${page.label}.svg`, data: page.svg })),
+  ]);
+}
@@ -0,0 +1,20 @@
+import type { MeshImportResult } from '@/types';
+import { parseOBJ } from './obj';
+import { parseSTL } from './stl';
+import { cleanMesh } from './mesh';
+
+export { parseOBJ } from './obj';
+export { parseSTL } from './stl';
+export { cleanMesh, MESH_IMPORT } from './mesh';
+
+/**
+ * Read an OBJ or STL (ASCII or binary) file into a mesh ready to unfold
+ */
+export async function importMeshFile(file: File): Promise<MeshImportResult> {
+  const name = file.name.replace(/\.[^.]*$/, '');
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'obj') return cleanMesh(name, parseOBJ(await file.text()));
+  if (extension === 'stl') return cleanMesh(name, parseSTL(await file.arrayBuffer()));
+  return { mesh: null, issues: [`Unsupported file type "${file.name}"; use OBJ or STL`] };
+}
@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+import type { ImportedMesh, MeshImportResult } from '@/types';
+import type { Polyhedron } from '@/core/polyhedra';
+
+export const MESH_IMPORT = {
+  weldTolerance: 1e-5,    // Corners closer than this (of the mesh's diagonal) are one corner
+  flatTolerance: 1e-4,    // Angle (radians) below which neighbouring faces count as one flat face
+  maxFaces: 400,          // Beyond this a net is unworkable by hand and slow to search
+} as const;
+
+// =============================================================================
+// FACE HELPERS
+// =============================================================================
+
+/**
+ * Normal of a face scaled by its area (Newell's method)
+ */
+function areaNormal(vertices: THREE.Vector3[], face: number[]): THREE.Vector3 {
+  const normal = new THREE.Vector3();
+  face.forEach((i, k) => {
+    const a = vertices[i];
+    const b = vertices[face[(k + 1) % face.length]];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  });
+  return normal.multiplyScalar(0.5);
+}
+
+/**
+ * Whether every corner of a face turns the same way about its normal
+ * (corners in line along an edge are allowed)
+ */
+function isConvex(vertices: THREE.Vector3[], face: number[], normal: THREE.Vector3, tolerance: number): boolean {
+  return face.every((i, k) => {
+    const prev = vertices[face[(k + face.length - 1) % face.length]];
+    const next = vertices[face[(k + 1) % face.length]];
+    const turn = vertices[i].clone().sub(prev).cross(next.clone().sub(vertices[i]));
+    return turn.dot(normal) >= -tolerance * tolerance;
+  });
+}
+
+/**
+ * Whether every corner of a face lies in its plane
+ */
+function isPlanar(vertices: THREE.Vector3[], face: number[], normal: THREE.Vector3, tolerance: number): boolean {
+  const origin = vertices[face[0]];
+  return face.every(i => Math.abs(vertices[i].clone().sub(origin).dot(normal)) <= tolerance);
+}
+
+/**
+ * Split a face into triangles by clipping ears, working in its best-fit
+ * plane so non-convex and slightly warped faces come out right
+ */
+function triangulateFace(vertices: THREE.Vector3[], face: number[], normal: THREE.Vector3): number[][] {
+  const u = vertices[face[1]].clone().sub(vertices[face[0]]).normalize();
+  const w = normal.clone().cross(u);
+  const flat = new Map(face.map(i => [i, { x: vertices[i].dot(u), y: vertices[i].dot(w) }]));
+  const cross = (a: number, b: number, c: number) => {
+    const [p, q, r] = [flat.get(a)!, flat.get(b)!, flat.get(c)!];
+    return (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  };
+
+  const triangles: number[][] = [];
+  const remaining = [...face];
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    const ear = remaining.findIndex((b, k) => {
+      const a = remaining[(k + n - 1) % n];
+      const c = remaining[(k + 1) % n];
+      if (cross(a, b, c) <= 0) return false;
+      return remaining.every(p => p === a || p === b || p === c ||
+        cross(a, b, p) < 0 || cross(b, c, p) < 0 || cross(c, a, p) < 0);
+    });
+    // A self-crossing face has no ear left; fan out what remains
+    const k = ear < 0 ? 1 : ear;
+    triangles.push([remaining[(k + n - 1) % n], remaining[k], remaining[(k + 1) % n]]);
+    remaining.splice(k, 1);
+  }
+  triangles.push(remaining);
+  return triangles;
+}
+
+/**
+ * Join two faces across the edge a→b of the first (b→a of the second)
+ */
+function joinFaces(first: number[], second: number[], a: number, b: number): number[] {
+  const walk = (face: number[], from: number, to: number) => {
+    const corners: number[] = [];
+    for (let k = face.indexOf(from); face[k] !== to; k = (k + 1) % face.length) corners.push(face[k]);
+    return corners;
+  };
+  return [...walk(first, b, a), a, ...walk(second, a, b).slice(1)];
+}
+
+// =============================================================================
+// CLEAN-UP
+// =============================================================================
+
+/**
+ * Turn a raw mesh into one the unfolder can use: shared corners merged,
+ * degenerate faces dropped, warped or non-convex faces split, faces wound
+ * outward, and flat neighbours joined into single faces. The mesh must be
+ * one connected piece with no edge shared by more than two faces.
+ *
+ * Problems are returned as issues; `mesh` is null when the mesh cannot be
+ * unfolded at all.
+ */
+export function cleanMesh(name: string, raw: Polyhedron): MeshImportResult {
+  const issues: string[] = [];
+  const fail = (issue: string): MeshImportResult => ({ mesh: null, issues: [...issues, issue] });
+
+  if (raw.faces.length === 0) return fail('No faces found in the file');
+  if (raw.vertices.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y) || !Number.isFinite(p.z))) {
+    return fail('Mesh has invalid (NaN or infinite) coordinates');
+  }
+
+  const bounds = new THREE.Box3().setFromPoints(raw.vertices);
+  const diagonal = bounds.getSize(new THREE.Vector3()).length();
+  if (diagonal === 0) return fail('Mesh has no size');
+  const tolerance = diagonal * MESH_IMPORT.weldTolerance;
+
+  // Merge corners that share a position
+  const vertices: THREE.Vector3[] = [];
+  const byKey = new Map<string, number>();
+  const welded = raw.vertices.map(p => {
+    const key = [p.x, p.y, p.z].map(c => Math.round(c / tolerance)).join(',');
+    if (!byKey.has(key)) {
+      byKey.set(key, vertices.length);
+      vertices.push(p.clone());
+    }
+    return byKey.get(key)!;
+  });
+
+  // Drop repeated corners and faces with no area; split faces that are not flat and convex
+  let faces: number[][] = [];
+  let degenerate = 0;
+  let split = 0;
+  raw.faces.forEach(rawFace => {
+    const face = rawFace.map(i => welded[i]).filter((i, k, all) => i !== all[(k + 1) % all.length]);
+    const normal = areaNormal(vertices, face);
+    if (face.length < 3 || normal.length() <= tolerance * tolerance) {
+      degenerate++;
+      return;
+    }
+    normal.normalize();
+    if (face.length > 3 && !(isPlanar(vertices, face, normal, tolerance) && isConvex(vertices, face, normal, tolerance))) {
+      split++;
+      faces.push(...triangulateFace(vertices, face, normal));
+    } else {
+      faces.push(face);
+    }
+  });
+  if (degenerate > 0) issues.push(`${degenerate} degenerate face${degenerate === 1 ? '' : 's'} (zero area) dropped`);
+  if (split > 0) issues.push(`${split} warped or non-convex face${split === 1 ? '' : 's'} split into triangles`);
+  if (faces.length === 0) return fail('Mesh has no faces with area');
+
+  // Each edge with the faces that use it
+  const edgeKey = (a: number, b: number) => a < b ? `${a}-${b}` : `${b}-${a}`;
+  const edgeUses = () => {
+    const uses = new Map<string, { face: number; a: number; b: number }[]>();
+    faces.forEach((face, f) => face.forEach((a, k) => {
+      const b = face[(k + 1) % face.length];
+      const key = edgeKey(a, b);
+      if (!uses.has(key)) uses.set(key, []);
+      uses.get(key)!.push({ face: f, a, b });
+    }));
+    return uses;
+  };
+
+  let uses = edgeUses();
+  const crowded = [...uses.values()].filter(list => list.length > 2).length;
+  if (crowded > 0) {
+    return fail(`${crowded} edge${crowded === 1 ? ' is' : 's are'} shared by more than two faces; the mesh must be a single surface`);
+  }
+
+  // Wind neighbours consistently (a shared edge runs opposite ways in its two faces)
+  const neighbours = faces.map(() => [] as { face: number; same: boolean }[]);
+  uses.forEach(list => {
+    if (list.length !== 2) return;
+    const [p, q] = list;
+    const same = p.a === q.a;
+    neighbours[p.face].push({ face: q.face, same });
+    neighbours[q.face].push({ face: p.face, same });
+  });
+
+  const flipped: (boolean | undefined)[] = new Array(faces.length);
+  flipped[0] = false;
+  const queue = [0];
+  let orientable = true;
+  while (queue.length > 0) {
+    const f = queue.shift()!;
+    neighbours[f].forEach(({ face, same }) => {
+      const flip = flipped[f] !== same;
+      if (flipped[face] === undefined) {
+        flipped[face] = flip;
+        queue.push(face);
+      } else if (flipped[face] !== flip) {
+        orientable = false;
+      }
+    });
+  }
+
+  const reached = flipped.filter(flip => flip !== undefined).length;
+  if (reached < faces.length) {
+    return fail('Mesh has more than one separate piece; unfold each piece from its own file');
+  }
+  if (!orientable) return fail('Mesh has no consistent outside (a one-sided surface)');
+
+  // Outward: by enclosed volume when closed, by the file's own winding when open
+  const open = [...uses.values()].filter(list => list.length === 1).length;
+  const turned = faces.map((face, f) => flipped[f] ? [...face].reverse() : face);
+  const volume = turned.reduce((sum, face) => {
+    const origin = vertices[face[0]];
+    for (let k = 1; k + 1 < face.length; k++) {
+      sum += origin.dot(vertices[face[k]].clone().cross(vertices[face[k + 1]]));
+    }
+    return sum;
+  }, 0);
+  const flips = flipped.filter(Boolean).length;
+  const inward = open === 0 ? volume < 0 : flips > faces.length / 2;
+  faces = inward ? turned.map(face => [...face].reverse()) : turned;
+
+  const rewound = inward ? faces.length - flips : flips;
+  if (rewound > 0) issues.push(`${rewound} face${rewound === 1 ? '' : 's'} wound inward, turned outward`);
+  if (open > 0) issues.push(`${open} open edge${open === 1 ? '' : 's'} - mesh is not watertight; open edges are cut`);
+
+  // Join flat neighbours while the joined face stays convex
+  const cosFlat = Math.cos(MESH_IMPORT.flatTolerance);
+  for (let joined = true; joined;) {
+    joined = false;
+    uses = edgeUses();
+    const normals = faces.map(face => areaNormal(vertices, face).normalize());
+    const changed = new Set<number>();
+    const next: (number[] | null)[] = [...faces];
+
+    uses.forEach(list => {
+      if (list.length !== 2) return;
+      const [p, q] = list;
+      if (changed.has(p.face) || changed.has(q.face) || p.face === q.face) return;
+      if (normals[p.face].dot(normals[q.face]) < cosFlat) return;
+
+      const face = joinFaces(faces[p.face], faces[q.face], p.a, p.b);
+      if (new Set(face).size !== face.length) return;
+      if (!isConvex(vertices, face, normals[p.face], tolerance)) return;
+
+      next[p.face] = face;
+      next[q.face] = null;
+      changed.add(p.face).add(q.face);
+      joined = true;
+    });
+    faces = next.filter((face): face is number[] => face !== null);
+  }
+
+  if (faces.length > MESH_IMPORT.maxFaces) {
+    return fail(`Mesh has ${faces.length} faces; simplify it to ${MESH_IMPORT.maxFaces} or fewer`);
+  }
+
+  // Keep only the corners the faces use
+  const used = [...new Set(faces.flat())].sort((a, b) => a - b);
+  const renumber = new Map(used.map((i, k) => [i, k]));
+  const mesh: ImportedMesh = {
+    name,
+    vertices: used.map(i => [vertices[i].x, vertices[i].y, vertices[i].z]),
+    faces: faces.map(face => face.map(i => renumber.get(i)!)),
+  };
+  return { mesh, issues };
+}
@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+import type { Polyhedron } from '@/core/polyhedra';
+
+/**
+ * Read the corners ('v') and faces ('f') of a Wavefront OBJ file. Texture
+ * and normal indices are ignored; negative indices count back from the
+ * latest corner. Every object and group in the file is read into one mesh.
+ */
+export function parseOBJ(text: string): Polyhedron {
+  const vertices: THREE.Vector3[] = [];
+  const faces: number[][] = [];
+
+  text.split(/\r?\n/).forEach(line => {
+    const [keyword, ...fields] = line.trim().split(/\s+/);
+
+    if (keyword === 'v') {
+      const [x, y, z] = fields.map(Number);
+      vertices.push(new THREE.Vector3(x, y, z));
+    } else if (keyword === 'f') {
+      const face = fields.map(field => {
+        const index = parseInt(field.split('/')[0], 10);
+        return index < 0 ? vertices.length + index : index - 1;
+      });
+      if (face.every(i => Number.isInteger(i) && i >= 0 && i < vertices.length)) faces.push(face);
+    }
+  });
+
+  return { vertices, faces };
+}
@@ -0,0 +1,49 @@
+import * as THREE from 'three';
+import type { Polyhedron } from '@/core/polyhedra';
+
+const HEADER_BYTES = 80;
+const TRIANGLE_BYTES = 50;   // Normal, three corners (float32 × 12) and an attribute word
+
+/**
+ * Binary STL files are exactly as long as their triangle count says
+ */
+function isBinarySTL(data: ArrayBuffer): boolean {
+  if (data.byteLength < HEADER_BYTES + 4) return false;
+  const count = new DataView(data).getUint32(HEADER_BYTES, true);
+  return data.byteLength === HEADER_BYTES + 4 + count * TRIANGLE_BYTES;
+}
+
+/**
+ * Read the triangles of an ASCII or binary STL file. STL lists every
+ * triangle with its own corners; shared corners are merged later.
+ */
+export function parseSTL(data: ArrayBuffer): Polyhedron {
+  const vertices: THREE.Vector3[] = [];
+
+  if (isBinarySTL(data)) {
+    const view = new DataView(data);
+    const count = view.getUint32(HEADER_BYTES, true);
+    for (let t = 0; t < count; t++) {
+      const offset = HEADER_BYTES + 4 + t * TRIANGLE_BYTES + 12;   // Skip the stored normal
+      for (let k = 0; k < 3; k++) {
+        const at = offset + k * 12;
+        vertices.push(new THREE.Vector3(
+          view.getFloat32(at, true),
+          view.getFloat32(at + 4, true),
+          view.getFloat32(at + 8, true)
+        ));
+      }
+    }
+  } else {
+    const text = new TextDecoder().decode(data);
+    for (const match of text.matchAll(/vertex\s+(\S+)\s+(\S+)\s+(\S+)/g)) {
+      vertices.push(new THREE.Vector3(Number(match[1]), Number(match[2]), Number(match[3])));
+    }
+  }
+
+  const faces: number[][] = [];
+  for (let i = 0; i + 2 < vertices.length; i += 3) {
+    faces.push([i, i + 1, i + 2]);
+  }
+  return { vertices, faces };
+}
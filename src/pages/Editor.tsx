@@ -1,10 +1,28 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { DualScene } from '@/core/Scene';
-import { ConfigPanel, ExportButtons } from '@/ui';
-import { downloadSVG } from '@/export';
-import { generatePattern } from '@/core/geometry';
-import type { PatternConfig } from '@/types';
+import { ConfigPanel, ExportButtons, SheetPanel, ValidationPanel } from '@/ui';
+import {
+  downloadDXF,
+  downloadGLB,
+  downloadPDF,
+  downloadSVG,
+  downloadZip,
+  exportLivingHinge,
+  exportPatternToDXF,
+  exportPatternToGLB,
+  exportPatternToOBJZip,
+  exportPatternToPDF,
+  exportPatternToSTL,
+  exportPatternToSVG,
+  tilePattern,
+  tiledPatternToZip,
+} from '@/export';
+import { generateAssembly } from '@/core/geometry';
+import { nestAssembly } from '@/core/assembly';
+import { LIVING_HINGE } from '@/core/solid';
+import { SHEET_SIZES } from '@/core/sheet';
+import type { FoldPattern, PatternConfig, SheetSize, SheetSizeId, SolidFormat } from '@/types';
 import { templates } from './Templates';
 
 const defaultConfig: PatternConfig = {
@@ -16,104 +34,39 @@ const defaultConfig: PatternConfig = {
 };
 
 /**
- * Generate SVG content from the fold pattern
- * Creates a proper 전개도 (unfolding pattern) with cut and fold lines
+ * Every net of the product with the file name to save it under, numbered
+ * when there are several. Given a sheet, the parts are nested onto it as
+ * one pattern instead.
  */
-function generatePatternSVG(config: PatternConfig): string {
-  const pattern = generatePattern(config);
-  const { foldLines } = pattern;
-
-  // Calculate bounding box
-  let minX = Infinity, minZ = Infinity, maxX = -Infinity, maxZ = -Infinity;
-  foldLines.forEach(line => {
-    minX = Math.min(minX, line.start.x, line.end.x);
-    maxX = Math.max(maxX, line.start.x, line.end.x);
-    minZ = Math.min(minZ, line.start.z, line.end.z);
-    maxZ = Math.max(maxZ, line.start.z, line.end.z);
-  });
+function patternParts(config: PatternConfig, basename: string, nestOn?: SheetSize): { pattern: FoldPattern; filename: string }[] {
+  const assembly = generateAssembly(config);
+  if (nestOn && assembly.parts.length > 1) {
+    return [{ pattern: nestAssembly(assembly, nestOn), filename: `${basename}-nested` }];
+  }
+  return assembly.parts.map(({ pattern }, i, parts) => ({
+    pattern,
+    filename: parts.length > 1 ? `${basename}-part-${i + 1}` : basename,
+  }));
+}
 
-  // Add padding
-  const padding = 2;
-  minX -= padding;
-  minZ -= padding;
-  maxX += padding;
-  maxZ += padding;
-
-  const width = maxX - minX;
-  const height = maxZ - minZ;
-
-  // Scale to reasonable SVG size (in cm for printing)
-  const scale = 10; // 10 pixels per cm
-  const svgWidth = width * scale;
-  const svgHeight = height * scale;
-
-  // Group lines by type
-  const cutLines = foldLines.filter(l => l.type === 'cut');
-  const mountainLines = foldLines.filter(l => l.type === 'mountain');
-  const valleyLines = foldLines.filter(l => l.type === 'valley');
-
-  // Generate SVG paths
-  const toSVGPath = (line: typeof foldLines[0]) => {
-    const x1 = (line.start.x - minX) * scale;
-    const y1 = (line.start.z - minZ) * scale;
-    const x2 = (line.end.x - minX) * scale;
-    const y2 = (line.end.z - minZ) * scale;
-    return `M ${x1.toFixed(2)} ${y1.toFixed(2)} L ${x2.toFixed(2)} ${y2.toFixed(2)}`;
-  };
-
-  const cutPaths = cutLines.map(l => `<path d="${toSVGPath(l)}" class="cut"/>`).join('\n    ');
-  const mountainPaths = mountainLines.map(l => `<path d="${toSVGPath(l)}" class="mountain"/>`).join('\n    ');
-  const valleyPaths = valleyLines.map(l => `<path d="${toSVGPath(l)}" class="valley"/>`).join('\n    ');
-
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg"
-     viewBox="0 0 ${svgWidth.toFixed(2)} ${svgHeight.toFixed(2)}"
-     width="${svgWidth.toFixed(2)}mm"
-     height="${svgHeight.toFixed(2)}mm">
-  <defs>
-    <style>
-      /* Cut lines - solid red, use for laser cutter or scissors */
-      .cut { stroke: #FF0000; stroke-width: 0.5; fill: none; stroke-linecap: round; }
-      /* Mountain folds - dashed blue, fold AWAY from you */
-      .mountain { stroke: #0000FF; stroke-width: 0.3; stroke-dasharray: 3,1.5; fill: none; stroke-linecap: round; }
-      /* Valley folds - dashed green, fold TOWARD you */
-      .valley { stroke: #00FF00; stroke-width: 0.3; stroke-dasharray: 1.5,0.75; fill: none; stroke-linecap: round; }
-    </style>
-  </defs>
-
-  <!-- Pattern: ${pattern.name} -->
-  <!-- Dimensions: ${config.width}cm x ${config.height}cm x ${config.depth}cm -->
-  <!-- Glue-Free Assembly: Cut on red lines, fold on blue/green lines -->
-
-  <g id="cut-lines">
-    ${cutPaths}
-  </g>
-
-  <g id="mountain-folds">
-    ${mountainPaths}
-  </g>
-
-  <g id="valley-folds">
-    ${valleyPaths}
-  </g>
-
-  <!-- Legend -->
-  <g transform="translate(10, ${svgHeight - 30})">
-    <text x="0" y="0" font-size="8" fill="#333">Legend:</text>
-    <line x1="0" y1="8" x2="20" y2="8" stroke="#FF0000" stroke-width="0.5"/>
-    <text x="25" y="11" font-size="6" fill="#333">Cut</text>
-    <line x1="50" y1="8" x2="70" y2="8" stroke="#0000FF" stroke-width="0.3" stroke-dasharray="3,1.5"/>
-    <text x="75" y="11" font-size="6" fill="#333">Mountain (away)</text>
-    <line x1="130" y1="8" x2="150" y2="8" stroke="#00FF00" stroke-width="0.3" stroke-dasharray="1.5,0.75"/>
-    <text x="155" y="11" font-size="6" fill="#333">Valley (toward)</text>
-  </g>
-</svg>`;
+/**
+ * Mesh issues of several parts, each labelled with its part's name
+ */
+function partIssues(parts: { pattern: FoldPattern }[], check: (pattern: FoldPattern, i: number) => string[]): string[] {
+  return parts.flatMap(({ pattern }, i) => {
+    const issues = check(pattern, i);
+    return parts.length > 1 ? issues.map(issue => `${pattern.name}: ${issue}`) : issues;
+  });
 }
 
 export function Editor() {
   const [searchParams] = useSearchParams();
   const [config, setConfig] = useState<PatternConfig>(defaultConfig);
   const [isTemplate, setIsTemplate] = useState(false);
+  const [foldProgress, setFoldProgress] = useState(1);
+  const [sheetId, setSheetId] = useState<SheetSizeId>('a4');
+  const [nested, setNested] = useState(false);
+  const [meshIssues, setMeshIssues] = useState<string[] | null>(null);
 
   // Load template config from URL parameter
   useEffect(() => {
@@ -127,25 +80,96 @@ export function Editor() {
     }
   }, [searchParams]);
 
+  // Flat exports nest multi-part products onto the chosen sheet when asked
+  const nestOn = nested ? SHEET_SIZES[sheetId] : undefined;
+
   const handleExportSVG = useCallback(() => {
-    const svgContent = generatePatternSVG(config);
-    downloadSVG(svgContent, `${config.shapeType}-pattern-${config.width}x${config.height}x${config.depth}`);
-  }, [config]);
+    patternParts(config, `${config.shapeType}-pattern-${config.width}x${config.height}x${config.depth}`, nestOn).forEach(({ pattern, filename }) => {
+      const svgContent = exportPatternToSVG(pattern, {
+        config,
+        legend: true,
+        titleBlock: true,
+        dimensions: true,
+      });
+      downloadSVG(svgContent, filename);
+    });
+  }, [config, nestOn]);
+
+  const handleExportPDF = useCallback(() => {
+    patternParts(config, `${config.shapeType}-dieline-${config.width}x${config.height}x${config.depth}`, nestOn).forEach(({ pattern, filename }) => {
+      downloadPDF(exportPatternToPDF(pattern, config), filename);
+    });
+  }, [config, nestOn]);
+
+  const handleExportDXF = useCallback(() => {
+    patternParts(config, `${config.shapeType}-pattern-${config.width}x${config.height}x${config.depth}`, nestOn).forEach(({ pattern, filename }) => {
+      downloadDXF(exportPatternToDXF(pattern), filename);
+    });
+  }, [config, nestOn]);
+
+  const handleExportTiled = useCallback(() => {
+    patternParts(config, `${config.shapeType}-pattern-${config.width}x${config.height}x${config.depth}`, nestOn).forEach(({ pattern, filename }) => {
+      const tiled = tilePattern(pattern, { sheet: SHEET_SIZES[sheetId] });
+      downloadZip(tiledPatternToZip(tiled, filename), `${filename}-${sheetId}-tiled`);
+    });
+  }, [config, sheetId, nestOn]);
 
   const handleExportSTL = useCallback(() => {
-    // STL export would use Three.js scene
-    alert('STL export - requires Three.js scene reference. See export/stl.ts');
-  }, []);
+    const parts = patternParts(config, `${config.shapeType}-model-${config.width}x${config.height}x${config.depth}`);
+    setMeshIssues(partIssues(parts, (pattern, i) => exportPatternToSTL(pattern, config.thickness, parts[i].filename)));
+  }, [config]);
+
+  const handleExportLivingHinge = useCallback((format: SolidFormat) => {
+    const parts = patternParts(config, `${config.shapeType}-hinge-${config.width}x${config.height}x${config.depth}`);
+    // Printed at the hinge defaults: sheet thicknesses (0.3–0.5 mm) leave no room for a groove over its web
+    setMeshIssues(partIssues(parts, (pattern, i) => exportLivingHinge(pattern, LIVING_HINGE.defaults, format, parts[i].filename)));
+  }, [config]);
+
+  const handleExportGLB = useCallback(async () => {
+    try {
+      for (const { pattern, filename } of patternParts(config, `${config.shapeType}-model-${Math.round(foldProgress * 100)}pct`)) {
+        downloadGLB(await exportPatternToGLB(pattern, { progress: foldProgress }), filename);
+      }
+    } catch (error) {
+      setMeshIssues([`GLB export failed: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+  }, [config, foldProgress]);
+
+  const handleExportOBJ = useCallback(() => {
+    patternParts(config, `${config.shapeType}-model-${Math.round(foldProgress * 100)}pct`).forEach(({ pattern, filename }) => {
+      downloadZip(exportPatternToOBJZip(pattern, filename, { progress: foldProgress }), filename);
+    });
+  }, [config, foldProgress]);
+
+  // Issues belong to the model they were found on
+  useEffect(() => setMeshIssues(null), [config]);
 
   return (
     <div className="editor">
       <div className="editor-sidebar">
         <ConfigPanel config={config} onChange={setConfig} hideShapeType={isTemplate} />
-        <ExportButtons onExportSVG={handleExportSVG} onExportSTL={handleExportSTL} />
+        <SheetPanel config={config} sheetId={sheetId} onChange={setSheetId} nested={nested} onNestedChange={setNested} />
+        <ExportButtons
+          onExportSVG={handleExportSVG}
+          onExportPDF={handleExportPDF}
+          onExportDXF={handleExportDXF}
+          onExportTiled={handleExportTiled}
+          onExportSTL={handleExportSTL}
+          onExportLivingHinge={handleExportLivingHinge}
+          onExportGLB={handleExportGLB}
+          onExportOBJ={handleExportOBJ}
+          meshIssues={meshIssues}
+        />
+        <ValidationPanel config={config} sheet={SHEET_SIZES[sheetId]} />
       </div>
 
       <div className="editor-canvas">
-        <DualScene config={config} showFoldLines />
+        <DualScene
+          config={config}
+          showFoldLines
+          foldProgress={foldProgress}
+          onFoldProgressChange={setFoldProgress}
+        />
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import { Link } from 'react-router-dom';
-import type { Template, ShapeType } from '@/types';
+import type { Template, ShapeType, PrismSizing, PolyhedronType, DoubleWall } from '@/types';
 
 interface TemplateWithShape extends Template {
   defaultConfig: {
@@ -8,6 +8,16 @@ interface TemplateWithShape extends Template {
     height: number;
     depth: number;
     thickness: number;
+    sides?: number;
+    sizing?: PrismSizing;
+    topWidth?: number;
+    topDepth?: number;
+    flange?: number;
+    openBottom?: boolean;
+    caps?: boolean;
+    solid?: PolyhedronType;
+    lidHeight?: number;
+    doubleWall?: DoubleWall;
   };
 }
 
@@ -28,13 +38,29 @@ export const templates: TemplateWithShape[] = [
     category: 'box',
     defaultConfig: { shapeType: 'pyramid', width: 6, height: 5, depth: 6, thickness: 0.5 },
   },
+  {
+    id: 'triangular-prism',
+    name: 'Triangular Prism',
+    description: 'Three-sided sleeve with tuck-in ends',
+    thumbnail: '/templates/prism.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'prism', width: 5, height: 12, depth: 4, thickness: 0.4, sides: 3 },
+  },
   {
     id: 'hexagonal-prism',
     name: 'Hexagonal Prism',
     description: 'Six-sided prism container',
     thumbnail: '/templates/prism.svg',
     category: 'box',
-    defaultConfig: { shapeType: 'prism', width: 4, height: 6, depth: 4, thickness: 0.5 },
+    defaultConfig: { shapeType: 'prism', width: 4, height: 6, depth: 4, thickness: 0.5, sides: 6 },
+  },
+  {
+    id: 'octagonal-prism',
+    name: 'Octagonal Prism',
+    description: 'Eight-sided sleeve sized across the flats',
+    thumbnail: '/templates/prism.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'prism', width: 6, height: 8, depth: 4, thickness: 0.4, sides: 8, sizing: 'flat-to-flat' },
   },
   {
     id: 'cylinder',
@@ -52,6 +78,142 @@ export const templates: TemplateWithShape[] = [
     category: 'envelope',
     defaultConfig: { shapeType: 'envelope', width: 16, height: 11, depth: 8, thickness: 0.3 },
   },
+  {
+    id: 'reverse-tuck-end',
+    name: 'Reverse Tuck End Carton',
+    description: 'Retail carton with tucks closing from opposite faces',
+    thumbnail: '/templates/reverse-tuck-end.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'reverse-tuck-end', width: 6, height: 10, depth: 3, thickness: 0.4 },
+  },
+  {
+    id: 'straight-tuck-end',
+    name: 'Straight Tuck End Carton',
+    description: 'Carton with both tucks closing from the back',
+    thumbnail: '/templates/straight-tuck-end.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'straight-tuck-end', width: 6, height: 10, depth: 3, thickness: 0.4 },
+  },
+  {
+    id: 'crash-lock',
+    name: 'Crash Lock Carton',
+    description: 'Auto-bottom carton that locks when squared up',
+    thumbnail: '/templates/crash-lock.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'crash-lock', width: 8, height: 10, depth: 5, thickness: 0.4 },
+  },
+  {
+    id: 'pillow',
+    name: 'Pillow Box',
+    description: 'Gift box with curved ends that press shut',
+    thumbnail: '/templates/pillow.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'pillow', width: 10, height: 14, depth: 3, thickness: 0.3 },
+  },
+  {
+    id: 'gable',
+    name: 'Gable Box',
+    description: 'Carry box with a pitched top and punched handle',
+    thumbnail: '/templates/gable.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'gable', width: 10, height: 10, depth: 6, thickness: 0.4 },
+  },
+  {
+    id: 'display-tray',
+    name: 'Display Tray',
+    description: 'Flared tray with a flat rim; trays nest when stacked',
+    thumbnail: '/templates/display-tray.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'frustum', width: 12, height: 4, depth: 8, thickness: 0.4, topWidth: 15, topDepth: 11, flange: 1 },
+  },
+  {
+    id: 'lamp-shade',
+    name: 'Lamp Shade Sleeve',
+    description: 'Bottomless tapered sleeve, narrower at the top',
+    thumbnail: '/templates/lamp-shade.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'frustum', width: 14, height: 12, depth: 14, thickness: 0.3, topWidth: 8, topDepth: 8, openBottom: true },
+  },
+  {
+    id: 'matchbox',
+    name: 'Matchbox',
+    description: 'Drawer tray and the sleeve it slides into, printed as two nets',
+    thumbnail: '/templates/matchbox.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'matchbox', width: 3.6, height: 1.5, depth: 5.3, thickness: 0.4 },
+  },
+  {
+    id: 'gift-box',
+    name: 'Gift Box',
+    description: 'Base with a telescoping lid, double-walled for clean rims',
+    thumbnail: '/templates/gift-box.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'telescope', width: 10, height: 6, depth: 10, thickness: 0.4, lidHeight: 2.5, doubleWall: 'both' },
+  },
+  {
+    id: 'party-hat',
+    name: 'Party Hat',
+    description: 'Open pointed cone, closed with a tab and slit',
+    thumbnail: '/templates/party-hat.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'cone', width: 14, height: 18, depth: 14, thickness: 0.3 },
+  },
+  {
+    id: 'cup-sleeve',
+    name: 'Cup Sleeve',
+    description: 'Truncated cone band that flares toward the top',
+    thumbnail: '/templates/cup-sleeve.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'cone', width: 7, height: 6, depth: 7, thickness: 0.3, topWidth: 8.5 },
+  },
+  {
+    id: 'round-lamp-shade',
+    name: 'Round Lamp Shade',
+    description: 'Truncated cone narrowing to the top, open at both ends',
+    thumbnail: '/templates/round-lamp-shade.svg',
+    category: 'box',
+    defaultConfig: { shapeType: 'cone', width: 24, height: 16, depth: 24, thickness: 0.3, topWidth: 12 },
+  },
+  {
+    id: 'tetrahedron',
+    name: 'Tetrahedron',
+    description: 'Four triangles; the simplest Platonic solid',
+    thumbnail: '/templates/tetrahedron.svg',
+    category: 'origami',
+    defaultConfig: { shapeType: 'polyhedron', width: 8, height: 8, depth: 8, thickness: 0.3, solid: 'tetrahedron' },
+  },
+  {
+    id: 'octahedron',
+    name: 'Octahedron',
+    description: 'Eight triangles, four meeting at each corner',
+    thumbnail: '/templates/octahedron.svg',
+    category: 'origami',
+    defaultConfig: { shapeType: 'polyhedron', width: 8, height: 8, depth: 8, thickness: 0.3, solid: 'octahedron' },
+  },
+  {
+    id: 'dodecahedron',
+    name: 'Dodecahedron',
+    description: 'Twelve pentagons',
+    thumbnail: '/templates/dodecahedron.svg',
+    category: 'origami',
+    defaultConfig: { shapeType: 'polyhedron', width: 10, height: 10, depth: 10, thickness: 0.3, solid: 'dodecahedron' },
+  },
+  {
+    id: 'icosahedron',
+    name: 'Icosahedron',
+    description: 'Twenty triangles, five meeting at each corner',
+    thumbnail: '/templates/icosahedron.svg',
+    category: 'origami',
+    defaultConfig: { shapeType: 'polyhedron', width: 10, height: 10, depth: 10, thickness: 0.3, solid: 'icosahedron' },
+  },
+  {
+    id: 'truncated-icosahedron',
+    name: 'Truncated Icosahedron',
+    description: 'Football of 12 pentagons and 20 hexagons',
+    thumbnail: '/templates/truncated-icosahedron.svg',
+    category: 'origami',
+    defaultConfig: { shapeType: 'polyhedron', width: 14, height: 14, depth: 14, thickness: 0.3, solid: 'truncated-icosahedron' },
+  },
 ];
 
 const SHAPE_COLORS: Record<ShapeType, string> = {
@@ -60,6 +222,17 @@ const SHAPE_COLORS: Record<ShapeType, string> = {
   cylinder: '#F59E0B',
   prism: '#EC4899',
   envelope: '#8B5CF6',
+  'reverse-tuck-end': '#0EA5E9',
+  'straight-tuck-end': '#14B8A6',
+  'crash-lock': '#F97316',
+  pillow: '#E11D48',
+  gable: '#84CC16',
+  frustum: '#06B6D4',
+  cone: '#D946EF',
+  polyhedron: '#B45309',
+  mesh: '#64748B',
+  matchbox: '#A16207',
+  telescope: '#0F766E',
 };
 
 const SHAPE_ICONS: Record<ShapeType, string> = {
@@ -68,6 +241,17 @@ const SHAPE_ICONS: Record<ShapeType, string> = {
   cylinder: '○',
   prism: '⬡',
   envelope: '✉',
+  'reverse-tuck-end': '⧉',
+  'straight-tuck-end': '⧈',
+  'crash-lock': '⊠',
+  pillow: '⬭',
+  gable: '⌂',
+  frustum: '⏢',
+  cone: '◭',
+  polyhedron: '⬠',
+  mesh: '⬢',
+  matchbox: '⧠',
+  telescope: '⊟',
 };
 
 export function Templates() {
@@ -0,0 +1,99 @@
+/**
+ * Test Living Hinge
+ *
+ * Exports every shape at its default size as the Editor does (at the hinge
+ * defaults) and probes the part with vertical rays: beside each mountain and
+ * valley fold the material must be thinned, from the side the fold closes.
+ * Usage: npx tsx src/scripts/testLivingHinge.ts
+ */
+
+import * as THREE from 'three';
+import { buildCreaseGraph } from '../core/creaseGraph';
+import { generateAssembly } from '../core/geometry';
+import { getRecommendedRanges } from '../core/parameterValidator';
+import { SHEET } from '../core/sheet';
+import { LIVING_HINGE, createLivingHingeSolid } from '../core/solid';
+import type { PatternConfig, ShapeType } from '../types';
+
+// The app is typed for the browser; tsx runs this under Node
+declare const process: { exit(code: number): never };
+
+const SHAPES: ShapeType[] = [
+  'box', 'pyramid', 'prism', 'cylinder', 'envelope', 'reverse-tuck-end', 'straight-tuck-end', 'crash-lock',
+  'pillow', 'gable', 'frustum', 'cone', 'polyhedron', 'mesh', 'matchbox', 'telescope',
+];
+
+const TOLERANCE = 0.01;   // mm
+const OFFSET = 0.01;      // mm either side of a hinge probed; rays along the apex itself slip between shells
+
+const { thickness, web } = LIVING_HINGE.defaults;
+const failures: string[] = [];
+
+/**
+ * Lowest and highest material (mm) under a point of the flat part
+ */
+function materialAt(mesh: THREE.Mesh, x: number, z: number): { bottom: number; top: number } | null {
+  const ray = new THREE.Raycaster(new THREE.Vector3(x, thickness + 10, z), new THREE.Vector3(0, -1, 0));
+  const hits = ray.intersectObject(mesh).map(hit => hit.point.y);
+  return hits.length > 0 ? { bottom: Math.min(...hits), top: Math.max(...hits) } : null;
+}
+
+console.log('🔍 Testing Living-Hinge Grooves at Default Sizes\n');
+console.log(`Part ${thickness} mm, web ${web} mm`);
+console.log('='.repeat(70));
+console.log();
+
+SHAPES.forEach(shapeType => {
+  const ranges = getRecommendedRanges(shapeType);
+  const config = {
+    shapeType,
+    width: ranges.width.default,
+    height: ranges.height.default,
+    depth: ranges.depth.default,
+    thickness: ranges.thickness.default,
+  } as PatternConfig;
+  let grooves = 0;
+  let shapeFailures = 0;
+
+  generateAssembly(config).parts.forEach(part => {
+    const geometry = createLivingHingeSolid(part.pattern, LIVING_HINGE.defaults);
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+
+    buildCreaseGraph(part.pattern).hinges
+      .filter(hinge => hinge.kind === 'fold' && Math.abs(hinge.foldAngle) > 1e-6)
+      .forEach(hinge => {
+        grooves++;
+        const mid = hinge.line.start.clone().add(hinge.line.end).multiplyScalar(0.5 * SHEET.mmPerUnit);
+        const dir = hinge.line.end.clone().sub(hinge.line.start).normalize();
+        const across = new THREE.Vector3(-dir.z, 0, dir.x).multiplyScalar(OFFSET);
+
+        // Each side keeps at most the web plus half the groove, on the side the fold closes
+        const problems = [1, -1].flatMap(sign => {
+          const p = mid.clone().addScaledVector(across, sign);
+          const material = materialAt(mesh, p.x, p.z);
+          if (!material) return ['no material'];
+          const thinned = material.top - material.bottom <= (thickness + web) / 2;
+          const side = hinge.type === 'valley' ? material.top < thickness - TOLERANCE : material.bottom > TOLERANCE;
+          return thinned && side ? [] : [`${(material.top - material.bottom).toFixed(2)} mm from ${material.bottom.toFixed(2)}`];
+        });
+        if (problems.length === 0) return;
+
+        shapeFailures++;
+        failures.push(`${shapeType} ${part.id} ${hinge.type} "${hinge.line.id}": ${problems.join(', ')}`);
+      });
+  });
+
+  console.log(`  ${shapeFailures === 0 ? '✓' : '✗'} ${shapeType}: ${grooves} grooves${shapeFailures ? `, ${shapeFailures} not thinned` : ''}`);
+});
+
+console.log();
+console.log('='.repeat(70));
+
+if (failures.length > 0) {
+  console.log(`\nFailures (${failures.length}):`);
+  failures.forEach(failure => console.log(`  - ${failure}`));
+  console.log('\n❌ Living-hinge grooves missing');
+  process.exit(1);
+}
+
+console.log('\n✅ Every fold is thinned to the web!');
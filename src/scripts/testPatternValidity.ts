@@ -0,0 +1,195 @@
+/**
+ * Test Pattern Validity
+ *
+ * Sweeps every shape over the min, default and max of its recommended ranges
+ * and over the configuration sliders' limits, and runs validatePattern on each
+ * generated part. Exits non-zero on any failed theorem that is not a listed
+ * exception for the shape. The default size of every shape must also give a
+ * clean printable solid.
+ * Usage: npx tsx src/scripts/testPatternValidity.ts [shapeType]
+ */
+
+import * as THREE from 'three';
+import { generateAssembly } from '../core/geometry';
+import { SLIDER_LIMITS, getMaxThickness, getRecommendedRanges } from '../core/parameterValidator';
+import { createFoldedSolid } from '../core/solid';
+import { validatePattern } from '../core/theorems';
+import { validateMesh } from '../export/stl';
+import type { PatternConfig, ShapeType } from '../types';
+
+// The app is typed for the browser; tsx runs this under Node
+declare const process: { argv: string[]; exit(code: number): never };
+
+const SHAPES: ShapeType[] = [
+  'box', 'pyramid', 'prism', 'cylinder', 'envelope', 'reverse-tuck-end', 'straight-tuck-end', 'crash-lock',
+  'pillow', 'gable', 'frustum', 'cone', 'polyhedron', 'mesh', 'matchbox', 'telescope',
+];
+
+// Options swept on top of the sizes, for shapes whose net changes with them
+const VARIANTS: Partial<Record<ShapeType, Partial<PatternConfig>[]>> = {
+  prism: [{}, { sides: 3 }, { sides: 12 }, { sides: 4, sizing: 'flat-to-flat' }],
+  frustum: [
+    {}, { flange: 3 }, { openBottom: true }, { openBottom: true, flange: 3 },
+    { topWidth: 0.5, topDepth: 0.5 }, { topWidth: 0.5, topDepth: 0.5, flange: 3 },
+    { topWidth: 30, topDepth: 30 }, { topWidth: 30, topDepth: 30, flange: 3 },
+    { openBottom: true, topWidth: 0.5, topDepth: 0.5, flange: 3 }, { openBottom: true, topWidth: 30, topDepth: 30 },
+  ],
+  cone: [
+    {}, { caps: true }, { topWidth: 4 }, { topWidth: 4, caps: true },
+    { topWidth: 15, caps: true }, { topWidth: 30 }, { topWidth: 30, caps: true },
+  ],
+  polyhedron: [
+    { solid: 'tetrahedron' }, { solid: 'octahedron' }, { solid: 'dodecahedron' },
+    { solid: 'icosahedron' }, { solid: 'truncated-icosahedron' },
+  ],
+  matchbox: [{}, { dividers: 4 }],
+  telescope: [
+    {}, { lidHeight: 0.5 }, { doubleWall: 'base' }, { doubleWall: 'lid' },
+    { doubleWall: 'both' }, { doubleWall: 'both', lidHeight: 0.5 },
+  ],
+};
+
+// Why a shape may fail a theorem; each shape lists the ones it is known not to meet
+const TAB_SIZING = 'Tab depth follows the part size, so thick material on a small part is under 5× thickness';
+const NOT_FLAT = 'Cuts meet folds at corners that close up in 3D, so those vertices are not flat-foldable';
+const SOLID_CORNERS = 'Polyhedron corners gather one fold per face, all mountains, so Maekawa does not hold';
+
+// Theorems a shape is known not to meet; every other failure fails the run
+const EXCEPTIONS: Record<ShapeType, Record<string, string>> = {
+  box: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  pyramid: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  prism: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  cylinder: { 'assembly-mechanics-tabs': TAB_SIZING },
+  envelope: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  'reverse-tuck-end': { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  'straight-tuck-end': { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  'crash-lock': { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  pillow: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  gable: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  frustum: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  cone: { 'assembly-mechanics-tabs': TAB_SIZING },
+  polyhedron: {
+    'assembly-mechanics-tabs': TAB_SIZING,
+    'kawasaki-justin': NOT_FLAT,
+    maekawa: SOLID_CORNERS,
+    'vertex-validity': SOLID_CORNERS,
+  },
+  mesh: {
+    'assembly-mechanics-tabs': TAB_SIZING,
+    'kawasaki-justin': NOT_FLAT,
+    maekawa: SOLID_CORNERS,
+    'vertex-validity': SOLID_CORNERS,
+  },
+  matchbox: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+  telescope: { 'assembly-mechanics-tabs': TAB_SIZING, 'kawasaki-justin': NOT_FLAT },
+};
+
+const only = process.argv[2] as ShapeType | undefined;
+let checked = 0;
+const failures: string[] = [];
+const excepted: Record<string, number> = {};
+
+console.log('🔍 Testing Pattern Validity Across Recommended Ranges\n');
+console.log('='.repeat(70));
+console.log();
+
+/**
+ * Configs swept for a shape: the min, default and max of its recommended
+ * ranges, then the slider limits, at the thinnest and thickest material each allows
+ */
+function sweepConfigs(shapeType: ShapeType): PatternConfig[] {
+  const ranges = getRecommendedRanges(shapeType);
+  const recommended = (key: string) => [ranges[key].min, ranges[key].default, ranges[key].max];
+  const slider = () => [SLIDER_LIMITS.size.min, SLIDER_LIMITS.size.max];
+  const configs: PatternConfig[] = [];
+
+  const add = (sizes: (key: string) => number[], thicknesses: (config: PatternConfig) => number[]) => {
+    for (const width of sizes('width')) {
+      for (const height of sizes('height')) {
+        for (const depth of sizes('depth')) {
+          for (const variant of VARIANTS[shapeType] ?? [{}]) {
+            const config = { shapeType, width, height, depth, thickness: 0, ...variant } as PatternConfig;
+            thicknesses(config).forEach(thickness => configs.push({ ...config, thickness }));
+          }
+        }
+      }
+    }
+  };
+
+  add(recommended, () => [ranges.thickness.min, ranges.thickness.max]);
+  add(slider, config => [SLIDER_LIMITS.thickness.min, getMaxThickness(config)]);
+  return configs;
+}
+
+SHAPES.filter(shapeType => !only || shapeType === only).forEach(shapeType => {
+  const allowed = EXCEPTIONS[shapeType];
+  let shapeFailures = 0;
+  let shapeParts = 0;
+
+  sweepConfigs(shapeType).forEach(config => {
+    generateAssembly(config).parts.forEach(part => {
+      const validation = validatePattern(part.pattern, config);
+      shapeParts++;
+
+      validation.theorems.filter(t => !t.valid).forEach(t => {
+        if (t.theoremId in allowed) {
+          const key = `${shapeType} ${t.theoremId}`;
+          excepted[key] = (excepted[key] ?? 0) + 1;
+          return;
+        }
+        shapeFailures++;
+        failures.push(`${JSON.stringify(config)} ${part.id}: ${t.theoremId}: ${t.errors.slice(0, 2).join('; ')}`);
+      });
+    });
+  });
+
+  checked += shapeParts;
+  console.log(`  ${shapeFailures === 0 ? '✓' : '✗'} ${shapeType}: ${shapeParts} parts${shapeFailures ? `, ${shapeFailures} failures` : ''}`);
+});
+
+console.log();
+console.log('='.repeat(70));
+console.log('\n🧊 Solid Mesh at Default Sizes\n');
+
+SHAPES.filter(shapeType => !only || shapeType === only).forEach(shapeType => {
+  const ranges = getRecommendedRanges(shapeType);
+  let shapeIssues = 0;
+
+  for (const variant of VARIANTS[shapeType] ?? [{}]) {
+    const config = {
+      shapeType,
+      width: ranges.width.default,
+      height: ranges.height.default,
+      depth: ranges.depth.default,
+      thickness: ranges.thickness.default,
+      ...variant,
+    } as PatternConfig;
+
+    generateAssembly(config).parts.forEach(part => {
+      const issues = validateMesh(new THREE.Mesh(createFoldedSolid(part.pattern, config.thickness)));
+      shapeIssues += issues.length;
+      if (issues.length > 0) failures.push(`${JSON.stringify(config)} ${part.id}: solid: ${issues.join('; ')}`);
+    });
+  }
+
+  console.log(`  ${shapeIssues === 0 ? '✓' : '✗'} ${shapeType}${shapeIssues ? `: ${shapeIssues} mesh issues` : ''}`);
+});
+
+console.log();
+console.log('='.repeat(70));
+console.log('\n📋 Summary\n');
+
+console.log(`Parts checked: ${checked}`);
+console.log('Known exceptions not met (not failures):');
+Object.entries(excepted).forEach(([key, count]) => {
+  console.log(`  ${key}: ${count}`);
+});
+
+if (failures.length > 0) {
+  console.log(`\nFailures (${failures.length}):`);
+  failures.forEach(failure => console.log(`  - ${failure}`));
+  console.log('\n❌ Pattern validity failed');
+  process.exit(1);
+}
+
+console.log('\n✅ All patterns valid!');
@@ -1,19 +1,132 @@
 import * as THREE from 'three';
 
 // Shape types
-export type ShapeType = 'box' | 'pyramid' | 'envelope' | 'cylinder' | 'prism';
+export type ShapeType =
+  | 'box' | 'pyramid' | 'envelope' | 'cylinder' | 'prism'
+  | 'reverse-tuck-end' | 'straight-tuck-end' | 'crash-lock'
+  | 'pillow' | 'gable' | 'frustum' | 'cone' | 'polyhedron' | 'mesh'
+  | 'matchbox' | 'telescope';
 
 // Fold pattern types
+
+/**
+ * What a face is for in the assembled product
+ */
+export type FaceRole =
+  | 'bottom' | 'top' | 'front' | 'back' | 'left' | 'right'
+  | 'base' | 'side' | 'body' | 'cap' | 'flap' | 'dust-flap'
+  | 'tuck-flap' | 'glue-flap' | 'handle' | 'flange'
+  | 'locking-tab' | 'closure-tab' | 'divider' | 'rim' | 'inner-wall';
+
+/**
+ * What a line does on the sheet
+ */
+export type LineRole =
+  | 'perimeter'    // Outer cut
+  | 'panel-fold'   // Crease between two panels
+  | 'tab-fold'     // Crease at the base of a tab
+  | 'tab-outline'  // Cut around a tab
+  | 'slit'         // Interior cut that receives a tab
+  | 'cut-out'      // Closed interior cut removing a window (e.g. a handle)
+  | 'cap-fold'     // Crease attaching a cap
+  | 'web-fold'     // Crease in a crash-lock web, flat when erected
+  | 'bend';        // Unscored line the sheet curves along
+
+export interface PatternVertex {
+  id: string;
+  position: THREE.Vector3;
+}
+
+export interface PatternFace {
+  id: string;
+  role: FaceRole;
+  vertices: number[];  // Indices into FoldPattern.vertices, counter-clockwise seen from the printed side (+Y)
+}
+
+/**
+ * Circular arc from a line's start to its end. The sweep is signed:
+ * positive turns from +X toward +Z (increasing atan2(z, x) about the centre).
+ */
+export interface ArcCurve {
+  kind: 'arc';
+  center: THREE.Vector3;
+  sweep: number;   // Radians
+}
+
+/**
+ * Cubic Bézier from a line's start to its end
+ */
+export interface BezierCurve {
+  kind: 'bezier';
+  control1: THREE.Vector3;
+  control2: THREE.Vector3;
+}
+
+export type FoldCurve = ArcCurve | BezierCurve;
+
 export interface FoldLine {
+  id: string;
+  role: LineRole;
   start: THREE.Vector3;
   end: THREE.Vector3;
   type: 'mountain' | 'valley' | 'cut';
+  angle?: number;      // Fold angle (radians) when fully assembled, defaults to 90°
+  curve?: FoldCurve;   // Curved path between start and end; straight when absent
 }
 
 export interface FoldPattern {
   name: string;
-  vertices: THREE.Vector3[];
+  vertices: PatternVertex[];
   foldLines: FoldLine[];
+  faces: PatternFace[];
+  bendLines?: FoldLine[];  // Unscored lines the sheet curves along (3D only, never exported)
+}
+
+/**
+ * One separate net of a product. The placement moves the folded part (as
+ * foldPattern leaves it: centred on its bounds, resting on y=0) to where it
+ * sits in the assembled product; the first part stays at the origin.
+ */
+export interface AssemblyPart {
+  id: string;              // Stable, used to prefix ids when parts share a sheet
+  pattern: FoldPattern;
+  position: THREE.Vector3;
+  rotation: THREE.Euler;
+}
+
+/**
+ * A product made of one or more nets (a lid and base, a tray and its
+ * sleeve, dividers)
+ */
+export interface Assembly {
+  name: string;
+  parts: AssemblyPart[];
+}
+
+/**
+ * What a prism's width measures: across its flats or across its corners
+ */
+export type PrismSizing = 'flat-to-flat' | 'point-to-point';
+
+/**
+ * Which parts of a telescoping box fold their walls over double
+ */
+export type DoubleWall = 'none' | 'base' | 'lid' | 'both';
+
+/**
+ * Solids the polyhedron generator unfolds
+ */
+export type PolyhedronType =
+  | 'tetrahedron' | 'octahedron' | 'dodecahedron' | 'icosahedron'
+  | 'truncated-icosahedron';
+
+/**
+ * A mesh read from an OBJ or STL file: corners in the file's units and
+ * convex faces listing corner indices counter-clockwise seen from outside
+ */
+export interface ImportedMesh {
+  name: string;
+  vertices: [number, number, number][];
   faces: number[][];
 }
 
@@ -23,21 +136,81 @@ export interface PatternConfig {
   height: number;
   depth: number;
   thickness: number;
+  sides?: number;            // Prism side count, 3-12 (default 6)
+  sizing?: PrismSizing;      // Prism width measure (default point-to-point)
+  topWidth?: number;         // Frustum top opening (default 1.25 × width); cone top diameter (default 0, a point)
+  topDepth?: number;         // Frustum top opening (default 1.25 × depth)
+  flange?: number;           // Frustum rim flange width, cm (0 or absent for none)
+  openBottom?: boolean;      // Frustum without a base (a sleeve)
+  caps?: boolean;            // Cone with round caps on its ends (default open)
+  solid?: PolyhedronType;    // Polyhedron to unfold (default icosahedron)
+  mesh?: ImportedMesh;       // Mesh to unfold; width is its largest extent
+  dividers?: number;         // Matchbox cross dividers in the tray, 0-4 (default 0)
+  lidHeight?: number;        // Telescoping lid outside height, cm (default 0.4 × height)
+  doubleWall?: DoubleWall;   // Telescoping box parts with folded-over inner walls (default none)
+}
+
+// Sheet types
+export type SheetSizeId = 'a4' | 'letter' | 'a3' | 'mat-12';
+
+export interface SheetSize {
+  id: SheetSizeId;
+  name: string;
+  width: number;   // mm, portrait
+  height: number;  // mm, portrait
+  margin: number;  // mm kept clear on every side
 }
 
 // Export types
+export interface SVGLineStyle {
+  stroke: string;
+  strokeWidth: number;   // mm
+  dashArray: number[];   // mm, empty for a solid line
+}
+
 export interface SVGExportOptions {
-  width: number;
-  height: number;
-  includeLayers: boolean;
-  strokeWidth: number;
+  margin: number;                                  // mm around the drawing
+  styles: Record<FoldLine['type'], SVGLineStyle>;
+  legend: boolean;
+  titleBlock: boolean;
+  dimensions: boolean;                             // Overall net width and height
+  config?: PatternConfig;                          // Design size and thickness for the title block
 }
 
+export interface TiledExportOptions {
+  sheet: SheetSize;
+  overlap: number;  // mm shared by neighbouring pages
+}
+
+export interface PDFExportOptions {
+  margin: number;   // mm around the net and title block
+}
+
+export interface ModelExportOptions {
+  progress: number;     // Fold progress 0-1 (1 = assembled)
+  color: string;        // Panel colour
+  foldLines: boolean;   // Include mountain/valley lines as line primitives
+}
+
+export interface LivingHingeOptions {
+  thickness: number;   // mm, full sheet
+  web: number;         // mm of material left under a hinge groove
+  slitWidth: number;   // mm, width of through-cut slits
+}
+
+export type SolidFormat = 'stl' | '3mf';
+
 export interface STLExportOptions {
   binary: boolean;
   scale: number;
 }
 
+// Import types
+export interface MeshImportResult {
+  mesh: ImportedMesh | null;   // Null when the file cannot be unfolded
+  issues: string[];
+}
+
 // Template types
 export interface Template {
   id: string;
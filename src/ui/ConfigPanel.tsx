@@ -1,4 +1,9 @@
-import type { PatternConfig, ShapeType } from '@/types';
+import { useState } from 'react';
+import type { DoubleWall, PatternConfig, PolyhedronType, PrismSizing, ShapeType } from '@/types';
+import { MATCHBOX, PRISM, TELESCOPE, coneCaps, coneSection, frustumTop, matchboxSizes, telescopeSizes } from '@/core/geometry';
+import { POLYHEDRA, POLYHEDRON_NAMES } from '@/core/polyhedra';
+import { SLIDER_LIMITS, getMaxThickness } from '@/core/parameterValidator';
+import { importMeshFile } from '@/import';
 
 interface ConfigPanelProps {
   config: PatternConfig;
@@ -9,16 +14,43 @@ interface ConfigPanelProps {
 const SHAPE_OPTIONS: { value: ShapeType; label: string }[] = [
   { value: 'box', label: 'Box' },
   { value: 'pyramid', label: 'Pyramid' },
-  { value: 'prism', label: 'Hexagonal Prism' },
+  { value: 'prism', label: 'Prism' },
   { value: 'cylinder', label: 'Cylinder' },
   { value: 'envelope', label: 'Envelope' },
+  { value: 'reverse-tuck-end', label: 'Reverse Tuck End Carton' },
+  { value: 'straight-tuck-end', label: 'Straight Tuck End Carton' },
+  { value: 'crash-lock', label: 'Crash Lock Carton' },
+  { value: 'pillow', label: 'Pillow Box' },
+  { value: 'gable', label: 'Gable Box' },
+  { value: 'frustum', label: 'Tapered Tray / Sleeve' },
+  { value: 'cone', label: 'Cone' },
+  { value: 'polyhedron', label: 'Polyhedron' },
+  { value: 'mesh', label: 'Imported Mesh (OBJ / STL)' },
+  { value: 'matchbox', label: 'Matchbox (Tray + Sleeve)' },
+  { value: 'telescope', label: 'Telescoping Lid Box' },
 ];
 
 export function ConfigPanel({ config, onChange, hideShapeType = false }: ConfigPanelProps) {
-  const handleChange = (key: keyof PatternConfig, value: number | string) => {
-    onChange({ ...config, [key]: value });
+  const [importIssues, setImportIssues] = useState<string[] | null>(null);
+
+  // A smaller part may not take the thickness the last one had
+  const handleChange = (key: keyof PatternConfig, value: number | string | boolean) => {
+    const next = { ...config, [key]: value };
+    onChange({ ...next, thickness: Math.min(next.thickness, getMaxThickness(next)) });
+  };
+
+  const handleMeshFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { mesh, issues } = await importMeshFile(file);
+    setImportIssues(issues);
+    if (mesh) onChange({ ...config, mesh });
   };
 
+  const top = frustumTop(config);
+  const caps = coneCaps(config);
+  const matchbox = matchboxSizes(config);
+  const telescope = telescopeSizes(config);
+
   return (
     <div className="config-panel">
       <h3>Pattern Configuration</h3>
@@ -46,38 +78,271 @@ export function ConfigPanel({ config, onChange, hideShapeType = false }: ConfigP
         <input
           id="width"
           type="range"
-          min="1"
-          max="20"
-          step="0.5"
+          min={SLIDER_LIMITS.size.min}
+          max={SLIDER_LIMITS.size.max}
+          step={SLIDER_LIMITS.size.step}
           value={config.width}
           onChange={(e) => handleChange('width', parseFloat(e.target.value))}
         />
         <span>{config.width}</span>
       </div>
 
-      <div className="config-field">
-        <label htmlFor="height">Height (cm)</label>
-        <input
-          id="height"
-          type="range"
-          min="1"
-          max="20"
-          step="0.5"
-          value={config.height}
-          onChange={(e) => handleChange('height', parseFloat(e.target.value))}
-        />
-        <span>{config.height}</span>
-      </div>
+      {config.shapeType !== 'polyhedron' && config.shapeType !== 'mesh' && (
+        <div className="config-field">
+          <label htmlFor="height">Height (cm)</label>
+          <input
+            id="height"
+            type="range"
+            min={SLIDER_LIMITS.size.min}
+            max={SLIDER_LIMITS.size.max}
+            step={SLIDER_LIMITS.size.step}
+            value={config.height}
+            onChange={(e) => handleChange('height', parseFloat(e.target.value))}
+          />
+          <span>{config.height}</span>
+        </div>
+      )}
+
+      {config.shapeType === 'polyhedron' && (
+        <div className="config-field">
+          <label htmlFor="solid">Solid</label>
+          <select
+            id="solid"
+            value={config.solid ?? POLYHEDRA.defaultSolid}
+            onChange={(e) => handleChange('solid', e.target.value as PolyhedronType)}
+            className="config-select"
+          >
+            {(Object.keys(POLYHEDRON_NAMES) as PolyhedronType[]).map((solid) => (
+              <option key={solid} value={solid}>
+                {POLYHEDRON_NAMES[solid]}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {config.shapeType === 'mesh' && (
+        <div className="config-field">
+          <label htmlFor="meshFile">Mesh File (OBJ or STL)</label>
+          <input
+            id="meshFile"
+            type="file"
+            accept=".obj,.stl"
+            onChange={(e) => handleMeshFile(e.target.files?.[0])}
+          />
+          <span>{config.mesh ? `${config.mesh.name}: ${config.mesh.faces.length} faces` : 'None loaded; the default solid stands in'}</span>
+          {importIssues && importIssues.length > 0 && (
+            <ul className="mesh-issues">
+              {importIssues.map((issue, i) => (
+                <li key={i} className="warning">{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {config.shapeType === 'matchbox' && (
+        <>
+          <div className="config-field">
+            <label htmlFor="dividers">Dividers</label>
+            <input
+              id="dividers"
+              type="range"
+              min="0"
+              max={MATCHBOX.maxDividers}
+              step="1"
+              value={matchbox.dividers}
+              onChange={(e) => handleChange('dividers', parseInt(e.target.value, 10))}
+            />
+            <span>{matchbox.dividers}</span>
+          </div>
+
+          <div className="config-field">
+            <label>Sleeve Inside (cm)</label>
+            <span>
+              {matchbox.sleeve.inside.width.toFixed(2)} × {matchbox.sleeve.inside.height.toFixed(2)}
+              {' '}({(matchbox.gap * 10).toFixed(1)} mm sliding gap per side)
+            </span>
+          </div>
+        </>
+      )}
+
+      {config.shapeType === 'telescope' && (
+        <>
+          <div className="config-field">
+            <label htmlFor="lidHeight">Lid Height (cm)</label>
+            <input
+              id="lidHeight"
+              type="range"
+              min={TELESCOPE.minLid}
+              max={telescope.base.outside.height + telescope.thickness}
+              step="0.5"
+              value={telescope.lid.outside.height}
+              onChange={(e) => handleChange('lidHeight', parseFloat(e.target.value))}
+            />
+            <span>{telescope.lid.outside.height.toFixed(1)}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="doubleWall">Double Walls</label>
+            <select
+              id="doubleWall"
+              value={config.doubleWall ?? 'none'}
+              onChange={(e) => handleChange('doubleWall', e.target.value as DoubleWall)}
+              className="config-select"
+            >
+              <option value="none">None</option>
+              <option value="base">Base</option>
+              <option value="lid">Lid</option>
+              <option value="both">Base and lid</option>
+            </select>
+            {((['base', 'both'].includes(config.doubleWall ?? 'none') && !telescope.base.double) ||
+              (['lid', 'both'].includes(config.doubleWall ?? 'none') && !telescope.lid.double)) && (
+              <span>Too small for this thickness to turn a wall in; it is left single</span>
+            )}
+          </div>
+
+          <div className="config-field">
+            <label>Lid Inside (cm)</label>
+            <span>
+              {telescope.lid.inside.width.toFixed(2)} × {telescope.lid.inside.depth.toFixed(2)}
+              {' '}({(telescope.tolerance * 10).toFixed(2)} mm fit per side)
+            </span>
+          </div>
+        </>
+      )}
+
+      {config.shapeType === 'prism' && (
+        <>
+          <div className="config-field">
+            <label htmlFor="sides">Sides</label>
+            <input
+              id="sides"
+              type="range"
+              min={PRISM.minSides}
+              max={PRISM.maxSides}
+              step="1"
+              value={config.sides ?? PRISM.defaultSides}
+              onChange={(e) => handleChange('sides', parseInt(e.target.value, 10))}
+            />
+            <span>{config.sides ?? PRISM.defaultSides}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="sizing">Sizing</label>
+            <select
+              id="sizing"
+              value={config.sizing ?? 'point-to-point'}
+              onChange={(e) => handleChange('sizing', e.target.value as PrismSizing)}
+              className="config-select"
+            >
+              <option value="point-to-point">Point to point</option>
+              <option value="flat-to-flat">Flat to flat</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      {config.shapeType === 'frustum' && (
+        <>
+          <div className="config-field">
+            <label htmlFor="topWidth">Top Width (cm)</label>
+            <input
+              id="topWidth"
+              type="range"
+              min="0.5"
+              max="30"
+              step="0.5"
+              value={top.width}
+              onChange={(e) => handleChange('topWidth', parseFloat(e.target.value))}
+            />
+            <span>{top.width}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="topDepth">Top Depth (cm)</label>
+            <input
+              id="topDepth"
+              type="range"
+              min="0.5"
+              max="30"
+              step="0.5"
+              value={top.depth}
+              onChange={(e) => handleChange('topDepth', parseFloat(e.target.value))}
+            />
+            <span>{top.depth}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="flange">Rim Flange (cm)</label>
+            <input
+              id="flange"
+              type="range"
+              min="0"
+              max="3"
+              step="0.25"
+              value={config.flange ?? 0}
+              onChange={(e) => handleChange('flange', parseFloat(e.target.value))}
+            />
+            <span>{config.flange ?? 0}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="openBottom">
+              <input
+                id="openBottom"
+                type="checkbox"
+                checked={config.openBottom ?? false}
+                onChange={(e) => handleChange('openBottom', e.target.checked)}
+              />
+              Open Bottom (sleeve)
+            </label>
+          </div>
+        </>
+      )}
+
+      {config.shapeType === 'cone' && (
+        <>
+          <div className="config-field">
+            <label htmlFor="topWidth">Top Diameter (cm)</label>
+            <input
+              id="topWidth"
+              type="range"
+              min="0"
+              max="30"
+              step="0.5"
+              value={config.topWidth ?? 0}
+              onChange={(e) => handleChange('topWidth', parseFloat(e.target.value))}
+            />
+            <span>{config.topWidth ?? 0}</span>
+          </div>
+
+          <div className="config-field">
+            <label htmlFor="caps">
+              <input
+                id="caps"
+                type="checkbox"
+                checked={config.caps ?? false}
+                onChange={(e) => handleChange('caps', e.target.checked)}
+              />
+              Round caps
+            </label>
+            {config.caps && (!caps.bottom || (coneSection(config).top > 0 && !caps.top)) && (
+              <span>The narrow end's cap would fill the sector's hole; it is left off</span>
+            )}
+          </div>
+        </>
+      )}
 
-      {config.shapeType !== 'envelope' && (
+      {config.shapeType !== 'envelope' && config.shapeType !== 'prism' && config.shapeType !== 'cone' && config.shapeType !== 'polyhedron' && config.shapeType !== 'mesh' && (
         <div className="config-field">
           <label htmlFor="depth">Depth (cm)</label>
           <input
             id="depth"
             type="range"
-            min="1"
-            max="20"
-            step="0.5"
+            min={SLIDER_LIMITS.size.min}
+            max={SLIDER_LIMITS.size.max}
+            step={SLIDER_LIMITS.size.step}
             value={config.depth}
             onChange={(e) => handleChange('depth', parseFloat(e.target.value))}
           />
@@ -90,9 +355,9 @@ export function ConfigPanel({ config, onChange, hideShapeType = false }: ConfigP
         <input
           id="thickness"
           type="range"
-          min="0.1"
-          max="5"
-          step="0.1"
+          min={SLIDER_LIMITS.thickness.min}
+          max={getMaxThickness(config)}
+          step={SLIDER_LIMITS.thickness.step}
           value={config.thickness}
           onChange={(e) => handleChange('thickness', parseFloat(e.target.value))}
         />
@@ -1,10 +1,20 @@
+import type { SolidFormat } from '@/types';
+import { LIVING_HINGE } from '@/core/solid';
+
 interface ExportButtonsProps {
   onExportSVG: () => void;
+  onExportPDF?: () => void;
+  onExportDXF?: () => void;
+  onExportTiled?: () => void;
   onExportSTL: () => void;
+  onExportLivingHinge?: (format: SolidFormat) => void;
+  onExportGLB?: () => void;
+  onExportOBJ?: () => void;
+  meshIssues?: string[] | null;   // From the last STL export, or a failed GLB export; null before one
   disabled?: boolean;
 }
 
-export function ExportButtons({ onExportSVG, onExportSTL, disabled }: ExportButtonsProps) {
+export function ExportButtons({ onExportSVG, onExportPDF, onExportDXF, onExportTiled, onExportSTL, onExportLivingHinge, onExportGLB, onExportOBJ, meshIssues, disabled }: ExportButtonsProps) {
   return (
     <div className="export-buttons">
       <h3>Export</h3>
@@ -21,6 +31,53 @@ export function ExportButtons({ onExportSVG, onExportSTL, disabled }: ExportButt
         Export SVG
       </button>
 
+      {onExportPDF && (
+        <button
+          className="export-btn export-btn-pdf"
+          onClick={onExportPDF}
+          disabled={disabled}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+            <polyline points="14 2 14 8 20 8" />
+            <line x1="8" y1="13" x2="16" y2="13" />
+            <line x1="8" y1="17" x2="16" y2="17" />
+          </svg>
+          Export PDF Dieline
+        </button>
+      )}
+
+      {onExportDXF && (
+        <button
+          className="export-btn export-btn-dxf"
+          onClick={onExportDXF}
+          disabled={disabled}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="18" height="18" rx="2" />
+            <line x1="3" y1="12" x2="21" y2="12" strokeDasharray="3 2" />
+            <line x1="12" y1="3" x2="12" y2="21" />
+          </svg>
+          Export DXF
+        </button>
+      )}
+
+      {onExportTiled && (
+        <button
+          className="export-btn export-btn-tiled"
+          onClick={onExportTiled}
+          disabled={disabled}
+        >
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="8" height="8" />
+            <rect x="13" y="3" width="8" height="8" />
+            <rect x="3" y="13" width="8" height="8" />
+            <rect x="13" y="13" width="8" height="8" />
+          </svg>
+          Export Tiled Pages
+        </button>
+      )}
+
       <button
         className="export-btn export-btn-stl"
         onClick={onExportSTL}
@@ -31,6 +88,66 @@ export function ExportButtons({ onExportSVG, onExportSTL, disabled }: ExportButt
         </svg>
         Export STL
       </button>
+
+      {onExportLivingHinge && (
+        <div className="export-row">
+          <button
+            className="export-btn export-btn-hinge"
+            onClick={() => onExportLivingHinge('stl')}
+            disabled={disabled}
+            title={`Flat ${LIVING_HINGE.defaults.thickness} mm part with living-hinge grooves`}
+          >
+            Flat Hinge STL
+          </button>
+          <button
+            className="export-btn export-btn-hinge"
+            onClick={() => onExportLivingHinge('3mf')}
+            disabled={disabled}
+            title={`Flat ${LIVING_HINGE.defaults.thickness} mm part with living-hinge grooves`}
+          >
+            Flat Hinge 3MF
+          </button>
+        </div>
+      )}
+
+      {(onExportGLB || onExportOBJ) && (
+        <div className="export-row">
+          {onExportGLB && (
+            <button
+              className="export-btn export-btn-model"
+              onClick={onExportGLB}
+              disabled={disabled}
+              title="Folded model at the current fold progress"
+            >
+              Export GLB
+            </button>
+          )}
+          {onExportOBJ && (
+            <button
+              className="export-btn export-btn-model"
+              onClick={onExportOBJ}
+              disabled={disabled}
+              title="Folded model at the current fold progress (OBJ + MTL)"
+            >
+              Export OBJ
+            </button>
+          )}
+        </div>
+      )}
+
+      {meshIssues && (
+        <div className="mesh-issues">
+          {meshIssues.length === 0 ? (
+            <p className="valid">Mesh check passed</p>
+          ) : (
+            <ul>
+              {meshIssues.map((issue, i) => (
+                <li key={i} className="warning">{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+import { generateAssembly } from '@/core/geometry';
+import { nestAssembly } from '@/core/assembly';
+import { totalLength } from '@/core/curve';
+import { traceCutOutline } from '@/core/outline';
+import { SHEET, SHEET_SIZES, fitPatternToSheet, describeSheetFit } from '@/core/sheet';
+import type { PatternConfig, SheetSizeId } from '@/types';
+
+interface SheetPanelProps {
+  config: PatternConfig;
+  sheetId: SheetSizeId;
+  onChange: (sheetId: SheetSizeId) => void;
+  nested?: boolean;                            // Multi-part products share one sheet
+  onNestedChange?: (nested: boolean) => void;
+}
+
+export function SheetPanel({ config, sheetId, onChange, nested = false, onNestedChange }: SheetPanelProps) {
+  const sheet = SHEET_SIZES[sheetId];
+
+  const assembly = useMemo(() => generateAssembly(config), [config]);
+  const multiPart = assembly.parts.length > 1;
+
+  // One pattern per sheet: each part on its own, or all nested together
+  const patterns = useMemo(() => {
+    return multiPart && nested ? [nestAssembly(assembly, sheet)] : assembly.parts.map(part => part.pattern);
+  }, [assembly, multiPart, nested, sheet]);
+
+  const fits = useMemo(() => {
+    return patterns.map(pattern => fitPatternToSheet(pattern, sheet));
+  }, [patterns, sheet]);
+
+  // Measured along the true curves, in mm and cm², over every part
+  const cutLength = useMemo(() => {
+    return assembly.parts.reduce((sum, { pattern }) => sum + totalLength(pattern.foldLines.filter(line => line.type === 'cut')), 0) * SHEET.mmPerUnit;
+  }, [assembly]);
+  const netArea = useMemo(() => {
+    return assembly.parts.reduce((sum, { pattern }) => sum + traceCutOutline(pattern).area, 0);
+  }, [assembly]);
+
+  return (
+    <div className="sheet-panel">
+      <h3>Sheet</h3>
+
+      <div className="config-field">
+        <label htmlFor="sheetSize">Sheet Size</label>
+        <select
+          id="sheetSize"
+          value={sheetId}
+          onChange={(e) => onChange(e.target.value as SheetSizeId)}
+          className="config-select"
+        >
+          {Object.values(SHEET_SIZES).map((size) => (
+            <option key={size.id} value={size.id}>
+              {size.name} ({size.width} × {size.height} mm)
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {multiPart && onNestedChange && (
+        <div className="config-field">
+          <label htmlFor="nested">
+            <input
+              id="nested"
+              type="checkbox"
+              checked={nested}
+              onChange={(e) => onNestedChange(e.target.checked)}
+            />
+            Nest {assembly.parts.length} parts on one sheet
+          </label>
+        </div>
+      )}
+
+      {fits.map((fit, i) => (
+        <p key={i} className={`sheet-fit ${fit.fits ? 'valid' : 'invalid'}`}>
+          {fit.fits ? '✓' : '✗'} {patterns.length > 1 && `${patterns[i].name}: `}{describeSheetFit(fit)}
+        </p>
+      ))}
+
+      <dl className="sheet-details">
+        {fits.length === 1 && (
+          <>
+            <dt>Net</dt>
+            <dd>{fits[0].netWidth.toFixed(1)} × {fits[0].netHeight.toFixed(1)} mm</dd>
+            <dt>Printable</dt>
+            <dd>{fits[0].printableWidth.toFixed(1)} × {fits[0].printableHeight.toFixed(1)} mm</dd>
+            <dt>Rotation</dt>
+            <dd>{(fits[0].angle * 180 / Math.PI).toFixed(1)}°</dd>
+          </>
+        )}
+        <dt>Cut length</dt>
+        <dd>{cutLength.toFixed(0)} mm</dd>
+        <dt>Net area</dt>
+        <dd>{netArea.toFixed(1)} cm²</dd>
+      </dl>
+    </div>
+  );
+}
@@ -1,78 +1,90 @@
 import { useMemo } from 'react';
 import { validatePattern, formatValidationReport } from '@/core/theorems';
-import { generatePattern } from '@/core/geometry';
-import type { PatternConfig } from '@/types';
+import { generateAssembly } from '@/core/geometry';
+import type { PatternConfig, SheetSize } from '@/types';
 
 interface ValidationPanelProps {
   config: PatternConfig;
+  sheet?: SheetSize;
 }
 
-export function ValidationPanel({ config }: ValidationPanelProps) {
-  const validation = useMemo(() => {
-    const pattern = generatePattern(config);
-    return validatePattern(pattern, config);
-  }, [config]);
+export function ValidationPanel({ config, sheet }: ValidationPanelProps) {
+  // Every part of the product is its own net, checked on its own; repeated parts once
+  const parts = useMemo(() => {
+    const patterns = [...new Set(generateAssembly(config).parts.map(part => part.pattern))];
+    return patterns.map(pattern => ({
+      name: pattern.name,
+      validation: validatePattern(pattern, config, sheet),
+    }));
+  }, [config, sheet]);
+  const overall = parts.every(part => part.validation.overall);
 
   return (
     <div className="validation-panel">
       <h3>
         Pattern Validation
-        {validation.overall ? ' ✓' : ' ✗'}
+        {overall ? ' ✓' : ' ✗'}
       </h3>
 
       <div className="validation-status">
         <strong>Status:</strong>
-        <span className={validation.overall ? 'valid' : 'invalid'}>
-          {validation.overall ? 'Valid (Ready to Export)' : 'Invalid (Review Errors)'}
+        <span className={overall ? 'valid' : 'invalid'}>
+          {overall ? 'Valid (Ready to Export)' : 'Invalid (Review Errors)'}
         </span>
       </div>
 
-      {validation.theorems.map((theorem) => (
-        <details key={theorem.theoremId} className="theorem-validation">
-          <summary className={theorem.valid ? 'valid' : 'invalid'}>
-            {theorem.valid ? '✓' : '✗'} {theorem.theoremId}
-          </summary>
+      {parts.map(({ name, validation }) => (
+        <div key={name} className="part-validation">
+          {parts.length > 1 && <h4>{name}</h4>}
 
-          <div className="theorem-details">
-            {theorem.errors.length > 0 && (
-              <div className="errors">
-                <strong>Errors:</strong>
-                <ul>
-                  {theorem.errors.map((err, i) => (
-                    <li key={i} className="error">
-                      {err}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
+          {validation.theorems.map((theorem) => (
+            <details key={theorem.theoremId} className="theorem-validation">
+              <summary className={theorem.valid ? 'valid' : 'invalid'}>
+                {theorem.valid ? '✓' : '✗'} {theorem.theoremId}
+              </summary>
 
-            {theorem.warnings.length > 0 && (
-              <div className="warnings">
-                <strong>Warnings:</strong>
-                <ul>
-                  {theorem.warnings.map((warn, i) => (
-                    <li key={i} className="warning">
-                      {warn}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            )}
+              <div className="theorem-details">
+                {theorem.errors.length > 0 && (
+                  <div className="errors">
+                    <strong>Errors:</strong>
+                    <ul>
+                      {theorem.errors.map((err, i) => (
+                        <li key={i} className="error">
+                          {err}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
 
-            {theorem.details && Object.keys(theorem.details).length > 0 && (
-              <details className="details">
-                <summary>Technical Details</summary>
-                <pre>{JSON.stringify(theorem.details, null, 2)}</pre>
-              </details>
-            )}
-          </div>
-        </details>
+                {theorem.warnings.length > 0 && (
+                  <div className="warnings">
+                    <strong>Warnings:</strong>
+                    <ul>
+                      {theorem.warnings.map((warn, i) => (
+                        <li key={i} className="warning">
+                          {warn}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {theorem.details && Object.keys(theorem.details).length > 0 && (
+                  <details className="details">
+                    <summary>Technical Details</summary>
+                    <pre>{JSON.stringify(theorem.details, null, 2)}</pre>
+                  </details>
+                )}
+              </div>
+            </details>
+          ))}
+        </div>
       ))}
 
       <details className="full-report">
         <summary>View Full Report</summary>
-        <pre>{formatValidationReport(validation)}</pre>
+        <pre>{parts.map(({ name, validation }) => (parts.length > 1 ? `${name}\n` : '') + formatValidationReport(validation)).join('\n')}</pre>
       </details>
     </div>
   );
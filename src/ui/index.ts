@@ -1,3 +1,4 @@
 export { ConfigPanel } from './ConfigPanel';
 export { ExportButtons } from './ExportButtons';
 export { ValidationPanel } from './ValidationPanel';
+export { SheetPanel } from './SheetPanel';